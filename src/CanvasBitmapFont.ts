@@ -0,0 +1,381 @@
+/**
+ * Bitmap font for Canvas renderer (AngelCode BMFont text, XML and JSON)
+ * Canvas渲染器的位图字体（AngelCode BMFont文本、XML和JSON格式）
+ */
+
+/// <reference lib="dom" />
+
+import { CanvasImageSourceType, CanvasTexture } from './types/CanvasTypes';
+import { BitmapFontChar, BitmapFontData, BitmapFontKerning } from './types/BitmapFontTypes';
+
+/**
+ * Pixel-exact font drawn from pre-rendered glyph pages
+ * 由预渲染字形页绘制的像素精确字体
+ *
+ * Unlike system fonts, glyph pixels and advances come from the font files,
+ * so text renders identically on every machine.
+ * 与系统字体不同，字形像素和步进来自字体文件，因此文本在任何机器上渲染结果一致。
+ */
+export class CanvasBitmapFont {
+  public readonly face: string;
+  public readonly size: number;
+  public readonly lineHeight: number;
+  public readonly base: number;
+  public readonly pages: readonly CanvasTexture[];
+  private chars = new Map<number, BitmapFontChar>();
+  private kernings = new Map<string, number>();
+
+  constructor(data: BitmapFontData, pages: CanvasTexture[]) {
+    if (pages.length < data.pages.length) {
+      throw new Error(`Bitmap font "${data.face}" needs ${data.pages.length} page textures, got ${pages.length}`);
+    }
+
+    this.face = data.face;
+    this.size = Math.abs(data.size) || data.lineHeight;
+    this.lineHeight = data.lineHeight;
+    this.base = data.base;
+    this.pages = pages.slice();
+
+    for (const char of data.chars) {
+      this.chars.set(char.id, char);
+    }
+    for (const kerning of data.kernings) {
+      this.kernings.set(`${kerning.first},${kerning.second}`, kerning.amount);
+    }
+  }
+
+  /**
+   * Load a .fnt file (text, XML or JSON) and its page images from URLs
+   * 从URL加载.fnt文件（文本、XML或JSON）及其页面图像
+   *
+   * Page files are resolved relative to the font URL.
+   * 页面文件相对于字体URL解析。
+   */
+  static async fromURL(fontUrl: string): Promise<CanvasBitmapFont> {
+    const response = await fetch(fontUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to load bitmap font: ${fontUrl} (${response.status})`);
+    }
+    const data = CanvasBitmapFont.parse(await response.text());
+
+    const slash = fontUrl.lastIndexOf('/');
+    const baseUrl = slash >= 0 ? fontUrl.substring(0, slash + 1) : '';
+    const pages = await Promise.all(data.pages.map(file => CanvasTexture.fromURL(baseUrl + file)));
+    return new CanvasBitmapFont(data, pages);
+  }
+
+  /**
+   * Create font from file contents and already loaded page textures
+   * 从文件内容和已加载的页面纹理创建字体
+   */
+  static fromData(data: BitmapFontData | string, pages: CanvasTexture[]): CanvasBitmapFont {
+    const parsed = typeof data === 'string' ? CanvasBitmapFont.parse(data) : data;
+    return new CanvasBitmapFont(parsed, pages);
+  }
+
+  /**
+   * Parse BMFont file contents, detecting text, XML or JSON format
+   * 解析BMFont文件内容，自动识别文本、XML或JSON格式
+   */
+  static parse(source: string): BitmapFontData {
+    const trimmed = source.trim();
+    if (trimmed.startsWith('{')) {
+      return CanvasBitmapFont.parseJSON(JSON.parse(trimmed) as Record<string, unknown>);
+    }
+    if (trimmed.startsWith('<')) {
+      return CanvasBitmapFont.parseXML(trimmed);
+    }
+    return CanvasBitmapFont.parseText(trimmed);
+  }
+
+  /**
+   * Get glyph of a code point
+   * 获取码位的字形
+   */
+  getChar(codePoint: number): BitmapFontChar | undefined {
+    return this.chars.get(codePoint);
+  }
+
+  /**
+   * Get kerning adjustment between two code points in font pixels
+   * 获取两个码位之间的字距调整（字体像素）
+   */
+  getKerning(first: number, second: number): number {
+    return this.kernings.get(`${first},${second}`) ?? 0;
+  }
+
+  /**
+   * Measure width of a single line in font pixels
+   * 测量单行文本的宽度（字体像素）
+   */
+  measureLine(line: string): number {
+    let width = 0;
+    let previous = -1;
+
+    for (const symbol of line) {
+      const codePoint = symbol.codePointAt(0) as number;
+      const char = this.getGlyph(codePoint);
+      if (!char) continue;
+
+      if (previous >= 0) {
+        width += this.getKerning(previous, codePoint);
+      }
+      width += char.xadvance;
+      previous = codePoint;
+    }
+    return width;
+  }
+
+  /**
+   * Measure text in screen pixels; newlines start new lines
+   * 测量文本的屏幕像素尺寸；换行符开始新行
+   */
+  measure(text: string, scale: number = 1): { width: number; height: number } {
+    const lines = text.split('\n');
+    let width = 0;
+    for (const line of lines) {
+      width = Math.max(width, this.measureLine(line));
+    }
+    return { width: width * scale, height: lines.length * this.lineHeight * scale };
+  }
+
+  /**
+   * Draw text with its anchor at x/y, following canvas align and baseline rules
+   * 以x/y为锚点绘制文本，遵循Canvas的对齐和基线规则
+   *
+   * @param getPageSource - Maps a page texture to the image to draw, e.g. a tinted copy
+   */
+  draw(
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    x: number,
+    y: number,
+    scale: number = 1,
+    align: CanvasTextAlign = 'start',
+    baseline: CanvasTextBaseline = 'alphabetic',
+    getPageSource: (page: CanvasTexture) => CanvasImageSourceType = page => page.source
+  ): void {
+    const lines = text.split('\n');
+    const lineHeight = this.lineHeight * scale;
+    let top = y - this.getBaselineOffset(baseline, lines.length) * scale;
+
+    for (const line of lines) {
+      const width = this.measureLine(line) * scale;
+      let penX = x;
+      if (align === 'center') {
+        penX -= width / 2;
+      } else if (align === 'right' || align === 'end') {
+        penX -= width;
+      }
+
+      this.drawLine(ctx, line, penX, top, scale, getPageSource);
+      top += lineHeight;
+    }
+  }
+
+  /**
+   * Draw one line with its top-left corner at x/y
+   * 以x/y为左上角绘制单行文本
+   */
+  private drawLine(
+    ctx: CanvasRenderingContext2D,
+    line: string,
+    x: number,
+    y: number,
+    scale: number,
+    getPageSource: (page: CanvasTexture) => CanvasImageSourceType
+  ): void {
+    let penX = 0;
+    let previous = -1;
+
+    for (const symbol of line) {
+      const codePoint = symbol.codePointAt(0) as number;
+      const char = this.getGlyph(codePoint);
+      if (!char) continue;
+
+      if (previous >= 0) {
+        penX += this.getKerning(previous, codePoint);
+      }
+      previous = codePoint;
+
+      const page = this.pages[char.page];
+      if (page && char.width > 0 && char.height > 0) {
+        page.drawRegion(
+          ctx,
+          getPageSource(page),
+          char.x,
+          char.y,
+          char.width,
+          char.height,
+          x + (penX + char.xoffset) * scale,
+          y + char.yoffset * scale,
+          char.width * scale,
+          char.height * scale
+        );
+      }
+      penX += char.xadvance;
+    }
+  }
+
+  /**
+   * Get glyph, falling back to '?' for missing characters
+   * 获取字形，缺失的字符回退为'?'
+   */
+  private getGlyph(codePoint: number): BitmapFontChar | undefined {
+    return this.chars.get(codePoint) ?? this.chars.get(63);
+  }
+
+  /**
+   * Distance from the top of the text block to the anchor, in font pixels
+   * 文本块顶部到锚点的距离（字体像素）
+   */
+  private getBaselineOffset(baseline: CanvasTextBaseline, lineCount: number): number {
+    switch (baseline) {
+      case 'top':
+      case 'hanging':
+        return 0;
+      case 'middle':
+        return (lineCount * this.lineHeight) / 2;
+      case 'bottom':
+      case 'ideographic':
+        return lineCount * this.lineHeight;
+      default:
+        // Alphabetic: baseline of the first line
+        return this.base;
+    }
+  }
+
+  /**
+   * Parse text format ("char id=65 x=0 ...")
+   * 解析文本格式（"char id=65 x=0 ..."）
+   */
+  private static parseText(source: string): BitmapFontData {
+    const data = CanvasBitmapFont.createEmptyData();
+
+    for (const line of source.split(/\r?\n/)) {
+      const space = line.indexOf(' ');
+      if (space < 0) continue;
+
+      const tag = line.substring(0, space);
+      const attributes: Record<string, string> = {};
+      const pattern = /(\w+)=("[^"]*"|\S+)/g;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(line)) !== null) {
+        attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+      }
+      CanvasBitmapFont.applyTag(data, tag, attributes);
+    }
+    return data;
+  }
+
+  /**
+   * Parse XML format ("<char id="65" x="0" .../>")
+   * 解析XML格式（"<char id="65" x="0" .../>"）
+   */
+  private static parseXML(source: string): BitmapFontData {
+    const data = CanvasBitmapFont.createEmptyData();
+    const tagPattern = /<(info|common|page|char|kerning)\s([^>]*?)\/?>/g;
+    let tagMatch: RegExpExecArray | null;
+
+    while ((tagMatch = tagPattern.exec(source)) !== null) {
+      const attributes: Record<string, string> = {};
+      const pattern = /(\w+)="([^"]*)"/g;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(tagMatch[2])) !== null) {
+        attributes[match[1]] = CanvasBitmapFont.decodeXMLEntities(match[2]);
+      }
+      CanvasBitmapFont.applyTag(data, tagMatch[1], attributes);
+    }
+    return data;
+  }
+
+  /**
+   * Parse JSON format (as written by bmfont-to-json style tools)
+   * 解析JSON格式（由bmfont转json类工具写出）
+   */
+  private static parseJSON(json: Record<string, unknown>): BitmapFontData {
+    const info = (json.info || {}) as Record<string, unknown>;
+    const common = (json.common || {}) as Record<string, unknown>;
+    const chars = (json.chars || []) as BitmapFontChar[];
+    const kernings = (json.kernings || []) as BitmapFontKerning[];
+
+    return {
+      face: String(info.face ?? ''),
+      size: Number(info.size ?? 0),
+      lineHeight: Number(common.lineHeight ?? 0),
+      base: Number(common.base ?? 0),
+      pages: ((json.pages || []) as string[]).slice(),
+      chars: chars.map(char => ({
+        id: char.id,
+        x: char.x,
+        y: char.y,
+        width: char.width,
+        height: char.height,
+        xoffset: char.xoffset,
+        yoffset: char.yoffset,
+        xadvance: char.xadvance,
+        page: char.page ?? 0
+      })),
+      kernings: kernings.map(kerning => ({
+        first: kerning.first,
+        second: kerning.second,
+        amount: kerning.amount
+      }))
+    };
+  }
+
+  /**
+   * Apply one parsed tag of the text or XML format
+   * 应用文本或XML格式中解析出的一个标签
+   */
+  private static applyTag(data: BitmapFontData, tag: string, attributes: Record<string, string>): void {
+    const number = (name: string): number => Number(attributes[name] ?? 0);
+
+    switch (tag) {
+      case 'info':
+        data.face = attributes.face ?? '';
+        data.size = number('size');
+        break;
+      case 'common':
+        data.lineHeight = number('lineHeight');
+        data.base = number('base');
+        break;
+      case 'page':
+        data.pages[number('id')] = attributes.file ?? '';
+        break;
+      case 'char':
+        data.chars.push({
+          id: number('id'),
+          x: number('x'),
+          y: number('y'),
+          width: number('width'),
+          height: number('height'),
+          xoffset: number('xoffset'),
+          yoffset: number('yoffset'),
+          xadvance: number('xadvance'),
+          page: number('page')
+        });
+        break;
+      case 'kerning':
+        data.kernings.push({
+          first: number('first'),
+          second: number('second'),
+          amount: number('amount')
+        });
+        break;
+    }
+  }
+
+  private static createEmptyData(): BitmapFontData {
+    return { face: '', size: 0, lineHeight: 0, base: 0, pages: [], chars: [], kernings: [] };
+  }
+
+  private static decodeXMLEntities(value: string): string {
+    return value
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, '\'')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&');
+  }
+}
@@ -44,6 +44,10 @@ export const DEFAULT_CANVAS_PHYSICS_DEBUG_CONFIG: CanvasPhysicsDebugConfig = {
   enableStyleCaching: true,
   enableBatchRendering: true,
   maxBatchSize: 1000,
+  batchOrdering: 'non-overlapping',
+  tintCacheSize: 256,
+  enableCulling: true,
+  postProcessing: [],
   showDebugPanel: true,
   debugPanelPosition: 'top-left',
   debugPanelOpacity: new Fixed(0.8),
@@ -0,0 +1,85 @@
+/**
+ * Render layer for the Canvas renderer's draw queue
+ * Canvas渲染器绘制队列的渲染层
+ */
+
+import { BlendMode } from '@esengine/nova-ecs-render-core';
+
+import { CanvasRenderLayerConfig } from './types/CanvasTypes';
+
+/**
+ * Default render layer configuration
+ * 默认渲染层配置
+ */
+export const DEFAULT_RENDER_LAYER_CONFIG: CanvasRenderLayerConfig = {
+  order: 0,
+  visible: true,
+  opacity: 1,
+  blendMode: null
+};
+
+/**
+ * Named group of queued draws sharing an order, visibility, opacity and blend mode
+ * 共享顺序、可见性、不透明度和混合模式的具名绘制组
+ *
+ * Changes take effect when the queue is flushed, so a layer can be hidden or
+ * faded after its draws were submitted in the same frame.
+ * 修改在队列刷新时生效，因此可以在同一帧中提交绘制之后再隐藏或淡化图层。
+ */
+export class CanvasRenderLayer {
+  public readonly name: string;
+  private config: CanvasRenderLayerConfig;
+
+  constructor(name: string, config: Partial<CanvasRenderLayerConfig> = {}) {
+    this.name = name;
+    this.config = { ...DEFAULT_RENDER_LAYER_CONFIG, ...config };
+  }
+
+  get order(): number {
+    return this.config.order;
+  }
+
+  get visible(): boolean {
+    return this.config.visible;
+  }
+
+  get opacity(): number {
+    return this.config.opacity;
+  }
+
+  get blendMode(): BlendMode | null {
+    return this.config.blendMode;
+  }
+
+  /**
+   * Set draw order relative to other layers
+   * 设置相对于其他图层的绘制顺序
+   */
+  setOrder(order: number): void {
+    this.config.order = order;
+  }
+
+  /**
+   * Show or hide the layer
+   * 显示或隐藏图层
+   */
+  setVisible(visible: boolean): void {
+    this.config.visible = visible;
+  }
+
+  /**
+   * Set layer opacity (0-1)
+   * 设置图层不透明度（0-1）
+   */
+  setOpacity(opacity: number): void {
+    this.config.opacity = Math.max(0, Math.min(1, opacity));
+  }
+
+  /**
+   * Set blend mode of the layer, or null to keep each draw's own
+   * 设置图层混合模式，传入null则保留各绘制自身的混合模式
+   */
+  setBlendMode(blendMode: BlendMode | null): void {
+    this.config.blendMode = blendMode;
+  }
+}
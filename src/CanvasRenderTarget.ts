@@ -0,0 +1,142 @@
+/**
+ * Off-screen render target for Canvas renderer
+ * Canvas渲染器的离屏渲染目标
+ */
+
+import { CanvasRenderTargetConfig, CanvasTexture } from './types/CanvasTypes';
+import { CoordinateSystem } from './utils/CoordinateSystem';
+import { StyleManager } from './utils/StyleManager';
+import { OffscreenSurface } from './utils/OffscreenSurface';
+
+/**
+ * Default render target configuration
+ * 默认渲染目标配置
+ */
+export const DEFAULT_RENDER_TARGET_CONFIG: CanvasRenderTargetConfig = {
+  pixelsPerUnit: 100,
+  useOffscreenCanvas: true,
+  enableAntialiasing: true,
+  enableStyleCaching: true
+};
+
+/**
+ * Render target backed by an off-screen canvas
+ * 由离屏画布支持的渲染目标
+ *
+ * Each target owns its own coordinate system and style manager, so the
+ * camera and cached styles of the main canvas are left untouched while
+ * drawing into it.
+ * 每个目标拥有独立的坐标系和样式管理器，绘制时不会影响主画布的相机和样式缓存。
+ */
+export class CanvasRenderTarget {
+  public readonly coordinateSystem: CoordinateSystem;
+  public readonly styleManager: StyleManager;
+  private surface: OffscreenSurface;
+  private config: CanvasRenderTargetConfig;
+  private readonly texture: CanvasTexture;
+
+  constructor(width: number, height: number, config: Partial<CanvasRenderTargetConfig> = {}) {
+    this.config = { ...DEFAULT_RENDER_TARGET_CONFIG, ...config };
+    this.surface = new OffscreenSurface(width, height, this.config.useOffscreenCanvas);
+
+    this.coordinateSystem = new CoordinateSystem(
+      this.config.pixelsPerUnit,
+      { width: this.surface.width, height: this.surface.height },
+      1
+    );
+    this.styleManager = new StyleManager(this.surface.ctx, this.config.enableStyleCaching);
+    this.texture = new CanvasTexture(this.surface.canvas);
+
+    this.setupContext();
+  }
+
+  /**
+   * Target width in pixels
+   * 目标宽度（像素）
+   */
+  get width(): number {
+    return this.surface.width;
+  }
+
+  /**
+   * Target height in pixels
+   * 目标高度（像素）
+   */
+  get height(): number {
+    return this.surface.height;
+  }
+
+  /**
+   * Backing canvas
+   * 底层画布
+   */
+  get canvas(): HTMLCanvasElement | OffscreenCanvas {
+    return this.surface.canvas;
+  }
+
+  /**
+   * 2D context of the backing canvas
+   * 底层画布的2D上下文
+   */
+  get ctx(): CanvasRenderingContext2D {
+    return this.surface.ctx;
+  }
+
+  /**
+   * Get texture view of this target for use with drawTexture
+   * 获取此目标的纹理视图，用于drawTexture
+   *
+   * The texture shares the backing canvas, so it always reflects the latest
+   * content, and is the same object for the lifetime of the target.
+   * 纹理共享底层画布，因此始终反映最新内容，并在目标的整个生命周期内保持为同一对象。
+   */
+  getTexture(): CanvasTexture {
+    return this.texture;
+  }
+
+  /**
+   * Resize target, discarding its content
+   * 调整目标尺寸，并丢弃其内容
+   *
+   * The texture from getTexture() is resized in place, so earlier references stay valid.
+   * getTexture()返回的纹理会被原地调整尺寸，因此之前的引用仍然有效。
+   */
+  resize(width: number, height: number): void {
+    this.surface.resize(width, height);
+    this.coordinateSystem.setCanvasSize({ width: this.surface.width, height: this.surface.height });
+    this.styleManager.resetCache();
+    this.texture.setSize(this.surface.width, this.surface.height);
+
+    // Resizing a canvas resets its context state
+    this.setupContext();
+  }
+
+  /**
+   * Clear target to transparent
+   * 将目标清除为透明
+   */
+  clear(): void {
+    this.surface.clear();
+    this.texture.markDirty();
+  }
+
+  /**
+   * Release cached state and shrink the target's pixels to a single transparent one
+   * 释放缓存状态，并将目标像素缩减为单个透明像素
+   */
+  dispose(): void {
+    this.styleManager.resetCache();
+    this.surface.resize(1, 1);
+    this.texture.setSize(1, 1);
+  }
+
+  /**
+   * Apply context settings from config
+   * 根据配置设置上下文
+   */
+  private setupContext(): void {
+    if (!this.config.enableAntialiasing) {
+      this.surface.ctx.imageSmoothingEnabled = false;
+    }
+  }
+}
@@ -14,19 +14,106 @@ import {
   TextureStyle,
   Transform2D,
   ITexture,
-  Viewport,
-  RenderState
+  Viewport
 } from '@esengine/nova-ecs-render-core';
 
 import {
   CanvasRendererConfig,
+  CanvasRenderTargetConfig,
+  CanvasViewportConfig,
+  CanvasRenderLayerConfig,
+  CanvasClipShape,
+  CanvasClipPathCommand,
+  CanvasMask,
+  CanvasRenderState,
   DEFAULT_CANVAS_CONFIG,
   CanvasTexture,
-  CanvasRenderStats
+  CanvasImageSourceType,
+  CanvasRenderStats,
+  TextureDrawData,
+  ScreenPoint,
+  ScreenSize,
+  ScreenTransform,
+  NineSliceInsets,
+  NineSliceOptions,
+  TextLayoutOptions,
+  TextLayoutResult,
+  TextHorizontalAlign
 } from './types/CanvasTypes';
+import { CanvasShapeStyle, CanvasTextStyle, CanvasTextureStyle } from './types/PaintTypes';
+import { CanvasFilter } from './types/FilterTypes';
+import { PostProcessPass, PostProcessPassType } from './types/PostProcessTypes';
+import { RichTextLayoutResult, RichTextRun, RichTextTextRun } from './types/RichTextTypes';
 import { CoordinateSystem } from './utils/CoordinateSystem';
 import { StyleManager } from './utils/StyleManager';
 import { BatchManager } from './utils/BatchManager';
+import { TintCache } from './utils/TintCache';
+import { NineSlice, DEFAULT_NINE_SLICE_OPTIONS } from './utils/NineSlice';
+import { TextLayout, TextMeasureFunction, DEFAULT_TEXT_LAYOUT_OPTIONS, DEFAULT_LINE_HEIGHT } from './utils/TextLayout';
+import { RichText } from './utils/RichText';
+import { DrawQueue } from './utils/DrawQueue';
+import { PaintCache } from './utils/PaintCache';
+import { FilterProcessor } from './utils/FilterProcessor';
+import { PostProcessPipeline } from './utils/PostProcessPipeline';
+import { SaveStack, SavedState } from './utils/SaveStack';
+import { OffscreenSurface } from './utils/OffscreenSurface';
+import { CanvasRenderTarget } from './CanvasRenderTarget';
+import { CanvasViewport } from './CanvasViewport';
+import { CanvasRenderLayer } from './CanvasRenderLayer';
+import { CanvasBitmapFont } from './CanvasBitmapFont';
+
+/**
+ * Draw deferred to the end of the frame, with the state it was submitted under
+ * 延迟到帧末执行的绘制，以及提交时的状态
+ */
+interface QueuedDraw {
+  transform: ScreenTransform;
+  opacity: number;
+  compositeOperation: GlobalCompositeOperation;
+  clips: readonly ClipEntry[];
+  draw: () => void;
+}
+
+/**
+ * Clip region traced in screen space, with the transform it was pushed under
+ * 在屏幕空间中描绘的裁剪区域，以及压入时的变换
+ */
+interface ClipEntry {
+  path: Path2D;
+  fillRule: CanvasFillRule;
+  transform: ScreenTransform;
+}
+
+/**
+ * Off-screen surface that masked or filtered content is drawn into
+ * 遮罩或滤镜内容所绘制到的离屏表面
+ */
+interface ScopeSurface {
+  surface: OffscreenSurface;
+  styleManager: StyleManager;
+}
+
+/**
+ * Off-screen drawing begun and not yet ended, with the state to return to
+ * 已开始但尚未结束的离屏绘制，以及需要恢复的状态
+ *
+ * Masks cut the content before it is composited; render state filters have no
+ * mask and filter the content as it is composited.
+ * 遮罩在合成前裁切内容；渲染状态滤镜没有遮罩，在合成时对内容应用滤镜。
+ */
+interface OffscreenScope {
+  mask: CanvasMask | null;
+  invert: boolean;
+  filter: CanvasFilter | null;
+  target: ScopeSurface;
+  parentContext: CanvasRenderingContext2D;
+  parentStyleManager: StyleManager;
+  viewport: CanvasViewport | null;
+  saveDepth: number;
+  transform: ScreenTransform;
+  opacity: number;
+  compositeOperation: GlobalCompositeOperation;
+}
 
 /**
  * Canvas 2D renderer implementation
@@ -39,15 +126,56 @@ export class CanvasRenderer extends BaseRenderer {
   protected coordinateSystem: CoordinateSystem; // Make protected for subclass access
   private styleManager: StyleManager;
   private batchManager: BatchManager;
-  private transformStackDepth: number = 0;
+  private tintCache: TintCache;
+  private filterProcessor = new FilterProcessor();
+  private defaultContext: CanvasRenderingContext2D;
+  private defaultCoordinateSystem: CoordinateSystem;
+  private defaultStyleManager: StyleManager;
+  private visibleContext: CanvasRenderingContext2D;
+  private visibleStyleManager: StyleManager;
+  private postProcess: PostProcessPipeline;
+  /** Surface and styles the frame is drawn into while post-processing runs */
+  private sceneSurface: OffscreenSurface | null = null;
+  private sceneStyleManager: StyleManager | null = null;
+  private postProcessing: boolean = false;
+  private activeRenderTarget: CanvasRenderTarget | null = null;
+  private inFrame: boolean = false;
+  private viewports = new Map<string, CanvasViewport>();
+  private activeViewport: CanvasViewport | null = null;
+  private viewportParentCoordinateSystem: CoordinateSystem | null = null;
+  private viewportSaveDepth: number = 0;
+  private bitmapFonts = new Map<string, CanvasBitmapFont>();
+  private textIcons = new Map<string, CanvasTexture>();
+  private layers = new Map<string, CanvasRenderLayer>();
+  private drawQueue = new DrawQueue<CanvasRenderLayer, QueuedDraw>();
+  private drawLayer: CanvasRenderLayer | null = null;
+  private drawSortKey: number = 0;
+  private renderOpacity: number = 1;
+  private renderCompositeOperation: GlobalCompositeOperation = 'source-over';
+  private boundTextureSource: CanvasImageSourceType | null = null;
+  /** Accumulated screen-space matrix of each pushed transform */
+  private transformStack: ScreenTransform[] = [];
+  private saveStack = new SaveStack<ScreenTransform, ClipEntry>({
+    save: () => this.ctx.save(),
+    restore: () => this.ctx.restore(),
+    reapply: state => this.reapplySavedState(state)
+  });
+  /** Clip set by the render state, replaced whenever the state changes */
+  private stateClip: ClipEntry | null = null;
+  private scopes: OffscreenScope[] = [];
+  /** Scope surfaces by nesting depth, reused across frames */
+  private scopeSurfaces: ScopeSurface[] = [];
   private canvasStats: CanvasRenderStats = {
     drawCalls: 0,
     batchedDrawCalls: 0,
     styleChanges: 0,
     transformChanges: 0,
     textureBinds: 0,
+    culledDrawCalls: 0,
     pixelsDrawn: 0,
-    frameTime: 0
+    frameTime: 0,
+    postProcessTime: 0,
+    postProcessPassTimes: {}
   };
 
   constructor(canvas: HTMLCanvasElement, config: Partial<CanvasRendererConfig> = {}) {
@@ -73,18 +201,33 @@ export class CanvasRenderer extends BaseRenderer {
 
     // Initialize style manager
     this.styleManager = new StyleManager(this.ctx, this.config.enableStyleCaching);
+    this.styleManager.setPaintSpace(this.coordinateSystem);
 
     // Initialize batch manager
     this.batchManager = new BatchManager(
       this.ctx,
       this.styleManager,
       this.coordinateSystem,
-      this.config.maxBatchSize
+      this.config.maxBatchSize,
+      this.config.batchOrdering
     );
 
     // Set up batch manager immediate drawing methods
     this.setupBatchManager();
 
+    // Initialize tinted texture cache
+    this.tintCache = new TintCache(this.config.tintCacheSize);
+
+    // Remember the visible canvas state for switching back from render targets
+    this.defaultContext = this.ctx;
+    this.defaultCoordinateSystem = this.coordinateSystem;
+    this.defaultStyleManager = this.styleManager;
+    this.visibleContext = this.ctx;
+    this.visibleStyleManager = this.styleManager;
+
+    // Initialize post-processing, drawing frames off-screen while any pass is enabled
+    this.postProcess = new PostProcessPipeline(this.config.postProcessing);
+
     // Setup canvas
     this.setupCanvas();
   }
@@ -103,20 +246,6 @@ export class CanvasRenderer extends BaseRenderer {
     if (!this.config.enableAntialiasing) {
       this.ctx.imageSmoothingEnabled = false;
     }
-
-    // Set initial coordinate system (world coordinates: origin at center, Y-axis up)
-    this.setupCoordinateSystem();
-  }
-
-  /**
-   * Setup coordinate system
-   * 设置坐标系
-   */
-  private setupCoordinateSystem(): void {
-    // Move origin to center of canvas
-    this.ctx.translate(this.canvas.width / 2, this.canvas.height / 2);
-    // Flip Y-axis to make Y-axis point up
-    this.ctx.scale(1, -1);
   }
 
   /**
@@ -129,44 +258,74 @@ export class CanvasRenderer extends BaseRenderer {
     this.batchManager.drawRectImmediate = this.drawRectImmediate.bind(this);
     this.batchManager.drawPolygonImmediate = this.drawPolygonImmediate.bind(this);
     this.batchManager.drawTextImmediate = this.drawTextImmediate.bind(this);
+    this.batchManager.drawTextureCommand = this.drawTextureCommand.bind(this);
+    this.batchManager.getCurrentTransform = this.getCurrentScreenTransform.bind(this);
+    this.batchManager.applyScreenTransform = this.applyScreenTransform.bind(this);
   }
 
   // ===== Lifecycle Management =====
   // 生命周期管理
 
   protected onBeginFrame(): void {
+    this.beginPostProcess();
     this.ctx.save();
-    this.transformStackDepth = 0;
+    this.inFrame = true;
+    this.transformStack.length = 0;
+    this.saveStack.clear();
+    this.stateClip = null;
+    this.renderOpacity = 1;
+    this.renderCompositeOperation = 'source-over';
+    this.boundTextureSource = null;
     this.resetCanvasStats();
 
     // Apply camera transform if needed
     this.applyCameraTransform();
+
+    // Collect draws into batches until the frame ends
+    if (this.config.enableBatchRendering) {
+      this.batchManager.beginBatch();
+    }
   }
 
   protected onEndFrame(): void {
-    // Flush any remaining batched commands
-    this.batchManager.flushBatch();
+    // Close masks, filters and a viewport left open by the caller
+    this.endScopes();
+    this.endViewport();
 
-    // Restore to initial state
-    while (this.transformStackDepth > 0) {
+    // Draw the layered queue, then any remaining batched commands
+    this.flushDrawQueue();
+    this.batchManager.endBatch();
+
+    // Restore to initial state, dropping clips left pushed
+    while (this.transformStack.length > 0) {
       this.popTransform();
     }
+    this.unwindSaves(0);
     this.ctx.restore();
+    this.inFrame = false;
 
     // Update statistics
     this.updateStatistics();
+
+    // Run the passes and show the result
+    this.endPostProcess();
   }
 
   protected onClear(color: Color): void {
+    // Batched draws submitted earlier are cleared too
+    this.batchManager.flushBatch();
+
     // Save current transform
     this.ctx.save();
+    this.styleManager.overrideShadow(undefined);
     
     // Reset transform to clear entire canvas
     this.ctx.setTransform(1, 0, 0, 1, 0, 0);
     
     // Clear with background color
+    const size = this.getSurfaceSize();
     this.ctx.fillStyle = ColorUtils.toHex(color);
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    this.ctx.fillRect(0, 0, size.width, size.height);
     
     // Restore transform
     this.ctx.restore();
@@ -174,52 +333,109 @@ export class CanvasRenderer extends BaseRenderer {
 
   dispose(): void {
     // Clean up resources
+    this.drawQueue.clear();
     this.batchManager.endBatch();
+    this.endScopes();
+    this.bindRenderTarget(null);
+    this.scopeSurfaces.length = 0;
+    this.postProcess.dispose();
+    this.sceneSurface = null;
+    this.sceneStyleManager = null;
     this.styleManager.resetCache();
+    this.tintCache.clear();
+    this.filterProcessor.clear();
   }
 
   // ===== Transform Management =====
   // 变换管理
 
-  protected onSetViewMatrix(_matrix: FixedMatrix2x2): void {
-    // For Canvas, view matrix is handled through coordinate system
-    // This could be implemented if needed for advanced camera controls
+  protected onSetViewMatrix(matrix: FixedMatrix2x2): void {
+    // Batched draws are converted to screen space when flushed, so place them first
+    this.batchManager.flushBatch();
+
+    // View matrix is applied by the coordinate system when converting world coordinates
+    this.coordinateSystem.setViewMatrix(matrix);
   }
 
   protected applyTransform(transform: Transform2D): void {
-    this.ctx.save();
-    this.transformStackDepth++;
     this.canvasStats.transformChanges++;
 
-    // Convert world position to screen coordinates for translation
+    // Draw calls convert world coordinates to screen space on their own, so the
+    // local transform is applied in screen space: T = S * M * S^-1, where S is
+    // the world-to-screen transform and M the local-to-world transform
+    const view = this.coordinateSystem.getWorldToScreenTransform();
+    const cos = Math.cos(transform.rotation.toNumber());
+    const sin = Math.sin(transform.rotation.toNumber());
+    const scaleX = transform.scale.x.toNumber();
+    const scaleY = transform.scale.y.toNumber();
+
+    // M = rotate * scale
+    const m00 = cos * scaleX;
+    const m01 = -sin * scaleY;
+    const m10 = sin * scaleX;
+    const m11 = cos * scaleY;
+
+    // S * M
+    const sm00 = view.a * m00 + view.c * m10;
+    const sm01 = view.a * m01 + view.c * m11;
+    const sm10 = view.b * m00 + view.d * m10;
+    const sm11 = view.b * m01 + view.d * m11;
+
+    // (S * M) * S^-1
+    const det = view.a * view.d - view.b * view.c;
+    const i00 = view.d / det;
+    const i01 = -view.c / det;
+    const i10 = -view.b / det;
+    const i11 = view.a / det;
+
+    const a = sm00 * i00 + sm01 * i10;
+    const c = sm00 * i01 + sm01 * i11;
+    const b = sm10 * i00 + sm11 * i10;
+    const d = sm10 * i01 + sm11 * i11;
+
+    // Translation moves the world origin onto the transform position
     const screenPos = this.coordinateSystem.worldToScreen(transform.position);
-    
-    // Apply translation (relative to current origin)
-    this.ctx.translate(
-      screenPos.x - this.canvas.width / 2,
-      -(screenPos.y - this.canvas.height / 2) // Flip Y for Canvas coordinate system
-    );
+    const e = screenPos.x - (a * view.e + c * view.f);
+    const f = screenPos.y - (b * view.e + d * view.f);
 
-    // Apply rotation
-    this.ctx.rotate(transform.rotation.toNumber());
-
-    // Apply scale
-    this.ctx.scale(transform.scale.x.toNumber(), transform.scale.y.toNumber());
+    const accumulated = this.multiplyScreenTransforms(this.getCurrentScreenTransform(), { a, b, c, d, e, f });
+    this.saveStack.pushTransform(accumulated);
+    this.ctx.transform(a, b, c, d, e, f);
+    this.transformStack.push(accumulated);
   }
 
   popTransform(): void {
-    if (this.transformStackDepth > 0) {
-      this.ctx.restore();
-      this.transformStackDepth--;
+    // Clips pushed after the transform stay in effect
+    if (this.saveStack.popTransform(this.getSaveFloor())) {
+      this.transformStack.pop();
+      this.restoreCurrentTransform();
     }
     super.popTransform();
   }
 
+  /**
+   * Get coordinate system of the current render target
+   * 获取当前渲染目标的坐标系
+   *
+   * Use it to move, zoom or rotate the camera. Batched draws are placed with
+   * the camera in effect when they are flushed, so move it before drawing.
+   * 可用于移动、缩放或旋转相机。批量绘制按刷新时的相机放置，因此请在绘制前移动相机。
+   */
+  getCoordinateSystem(): CoordinateSystem {
+    return this.coordinateSystem;
+  }
+
   // ===== Basic Drawing Primitives =====
   // 基础绘制原语
 
   protected onDrawLine(start: FixedVector2, end: FixedVector2, style: LineStyle): void {
-    if (this.config.enableBatchRendering) {
+    if (this.config.enableCulling && !this.isWorldPointsVisible([start, end], style.thickness.toNumber() / 2)) {
+      return;
+    }
+
+    if (this.drawLayer) {
+      this.queueDraw(() => this.drawLineImmediate(start, end, style));
+    } else if (this.config.enableBatchRendering) {
       this.batchManager.addLine(start, end, style);
     } else {
       this.drawLineImmediate(start, end, style);
@@ -228,7 +444,19 @@ export class CanvasRenderer extends BaseRenderer {
   }
 
   protected onDrawCircle(center: FixedVector2, radius: Fixed, style: ShapeStyle): void {
-    if (this.config.enableBatchRendering) {
+    if (
+      this.config.enableCulling &&
+      !this.isScreenCircleVisible(
+        this.coordinateSystem.worldToScreen(center),
+        this.coordinateSystem.worldToScreenDistance(radius) + this.getStrokeMargin(style)
+      )
+    ) {
+      return;
+    }
+
+    if (this.drawLayer) {
+      this.queueDraw(() => this.drawCircleImmediate(center, radius, style));
+    } else if (this.config.enableBatchRendering) {
       this.batchManager.addCircle(center, radius, style);
     } else {
       this.drawCircleImmediate(center, radius, style);
@@ -237,7 +465,13 @@ export class CanvasRenderer extends BaseRenderer {
   }
 
   protected onDrawRect(bounds: FixedRect, style: ShapeStyle): void {
-    if (this.config.enableBatchRendering) {
+    if (this.config.enableCulling && !this.isWorldRectVisible(bounds, this.getStrokeMargin(style))) {
+      return;
+    }
+
+    if (this.drawLayer) {
+      this.queueDraw(() => this.drawRectImmediate(bounds, style));
+    } else if (this.config.enableBatchRendering) {
       this.batchManager.addRect(bounds, style);
     } else {
       this.drawRectImmediate(bounds, style);
@@ -246,7 +480,13 @@ export class CanvasRenderer extends BaseRenderer {
   }
 
   protected onDrawPolygon(vertices: FixedVector2[], style: ShapeStyle): void {
-    if (this.config.enableBatchRendering) {
+    if (this.config.enableCulling && !this.isWorldPointsVisible(vertices, this.getStrokeMargin(style))) {
+      return;
+    }
+
+    if (this.drawLayer) {
+      this.queueDraw(() => this.drawPolygonImmediate(vertices, style));
+    } else if (this.config.enableBatchRendering) {
       this.batchManager.addPolygon(vertices, style);
     } else {
       this.drawPolygonImmediate(vertices, style);
@@ -255,7 +495,11 @@ export class CanvasRenderer extends BaseRenderer {
   }
 
   protected onDrawEllipse(bounds: FixedRect, style: ShapeStyle): void {
-    this.drawEllipseImmediate(bounds, style);
+    if (this.config.enableCulling && !this.isWorldRectVisible(bounds, this.getStrokeMargin(style))) {
+      return;
+    }
+
+    this.submitDraw(() => this.drawEllipseImmediate(bounds, style));
     this.canvasStats.drawCalls++;
   }
 
@@ -263,7 +507,13 @@ export class CanvasRenderer extends BaseRenderer {
   // 文本渲染
 
   protected onDrawText(text: string, position: FixedVector2, style: TextStyle): void {
-    if (this.config.enableBatchRendering) {
+    if (this.config.enableCulling && !this.isTextVisible(text, position, style)) {
+      return;
+    }
+
+    if (this.drawLayer) {
+      this.queueDraw(() => this.drawTextImmediate(text, position, style));
+    } else if (this.config.enableBatchRendering) {
       this.batchManager.addText(text, position, style);
     } else {
       this.drawTextImmediate(text, position, style);
@@ -272,17 +522,243 @@ export class CanvasRenderer extends BaseRenderer {
   }
 
   protected onMeasureText(text: string, style: TextStyle): FixedVector2 {
-    // Apply text style temporarily
-    this.styleManager.applyTextStyle(style);
-    
-    // Measure text
-    const metrics = this.ctx.measureText(text);
-    const width = new Fixed(metrics.width / this.config.pixelsPerUnit);
-    const height = style.fontSize.divide(new Fixed(this.config.pixelsPerUnit));
-    
-    return new FixedVector2(width, height);
+    return this.measureTextLayout(text, style);
+  }
+
+  /**
+   * Measure laid-out bounds of text in world units (all lines, wrapped if requested)
+   * 测量文本布局后的世界单位边界（包含所有行，按需折行）
+   */
+  measureTextLayout(text: string, style: TextStyle, options: Partial<TextLayoutOptions> = {}): FixedVector2 {
+    const layout = this.layoutText(text, style, { ...DEFAULT_TEXT_LAYOUT_OPTIONS, ...options });
+    return new FixedVector2(
+      new Fixed(layout.width / this.config.pixelsPerUnit),
+      new Fixed(layout.height / this.config.pixelsPerUnit)
+    );
+  }
+
+  /**
+   * Draw text laid out inside a world rectangle
+   * 在世界矩形内绘制布局后的文本
+   *
+   * Lines wrap to the box width unless options.maxWidth is given, and stop at
+   * the box height. Layout happens at pixelsPerUnit and is scaled with the
+   * camera zoom, so the text keeps its place in the box at any zoom.
+   * 除非指定options.maxWidth，文本行按框宽折行，并在框高处截止。布局按pixelsPerUnit进行并随相机缩放，因此任意缩放下文本在框中的位置保持不变。
+   */
+  drawTextBox(text: string, bounds: FixedRect, style: TextStyle, options: Partial<TextLayoutOptions> = {}): void {
+    if (this.config.enableCulling && !this.isWorldRectVisible(bounds, 0)) {
+      return;
+    }
+
+    this.submitDraw(() => this.drawTextBoxImmediate(text, bounds, style, options));
+    this.canvasStats.drawCalls++;
+  }
+
+  private drawTextBoxImmediate(
+    text: string,
+    bounds: FixedRect,
+    style: TextStyle,
+    options: Partial<TextLayoutOptions>
+  ): void {
+    const layoutOptions: TextLayoutOptions = { ...DEFAULT_TEXT_LAYOUT_OPTIONS, ...options };
+    const ppu = this.config.pixelsPerUnit;
+    const boxWidth = bounds.width.toNumber() * ppu;
+    const boxHeight = bounds.height.toNumber() * ppu;
+    if (layoutOptions.maxWidth === undefined) {
+      layoutOptions.maxWidth = bounds.width;
+    }
+
+    const bitmapFont = this.getBitmapFontForStyle(style);
+    const lineHeight = this.getLineHeight(style, layoutOptions, bitmapFont);
+    const layout = this.layoutText(text, style, layoutOptions, Math.max(1, Math.floor(boxHeight / lineHeight)));
+
+    let top = 0;
+    if (layoutOptions.verticalAlign === 'middle') {
+      top = (boxHeight - layout.height) / 2;
+    } else if (layoutOptions.verticalAlign === 'bottom') {
+      top = boxHeight - layout.height;
+    }
+    const align = layoutOptions.horizontalAlign || this.getHorizontalAlign(style);
+    const letterSpacing = layoutOptions.letterSpacing ? layoutOptions.letterSpacing.toNumber() * ppu : 0;
+
+    const screenRect = this.getOrientedScreenRect(bounds);
+    const zoom = this.coordinateSystem.getPixelScale() / this.coordinateSystem.getCameraInfo().pixelsPerUnit;
+
+    this.ctx.save();
+    this.ctx.translate(screenRect.x, screenRect.y);
+    this.applyViewRotation({ x: 0, y: 0 });
+    this.ctx.scale(zoom, zoom);
+
+    if (!bitmapFont) {
+      this.styleManager.applyTextStyle({ ...style, textAlign: 'left', textBaseline: 'top' });
+    }
+
+    layout.lines.forEach((line, index) => {
+      let x = 0;
+      if (align === 'center') {
+        x = (boxWidth - line.width) / 2;
+      } else if (align === 'right') {
+        x = boxWidth - line.width;
+      }
+      this.drawLayoutLine(line.text, x, top + index * layout.lineHeight, style, bitmapFont, letterSpacing);
+    });
+
+    this.ctx.restore();
+    this.styleManager.resetCache();
+  }
+
+  /**
+   * Measure laid-out bounds of rich text markup in world units
+   * 测量富文本标记布局后的世界单位边界
+   */
+  measureRichText(markup: string, style: TextStyle, options: Partial<TextLayoutOptions> = {}): FixedVector2 {
+    const layout = this.layoutRichText(RichText.parse(markup), style, { ...DEFAULT_TEXT_LAYOUT_OPTIONS, ...options });
+    return new FixedVector2(
+      new Fixed(layout.width / this.config.pixelsPerUnit),
+      new Fixed(layout.height / this.config.pixelsPerUnit)
+    );
+  }
+
+  /**
+   * Draw rich text markup laid out inside a world rectangle
+   * 在世界矩形内绘制布局后的富文本标记
+   *
+   * Supports [b], [i], [color=#rrggbb], [size=px] and [icon=name] (see RichText).
+   * Runs inherit unset properties from the base style; icons are as tall as
+   * the font size at their position and sit on the baseline.
+   * 支持[b]、[i]、[color=#rrggbb]、[size=px]和[icon=name]（参见RichText）。片段的未设置属性继承基础样式；
+   * 图标高度等于其所在位置的字号，并位于基线上。
+   */
+  drawRichText(markup: string, bounds: FixedRect, style: TextStyle, options: Partial<TextLayoutOptions> = {}): void {
+    if (this.config.enableCulling && !this.isWorldRectVisible(bounds, 0)) {
+      return;
+    }
+
+    this.submitDraw(() => this.drawRichTextImmediate(markup, bounds, style, options));
+    this.canvasStats.drawCalls++;
+  }
+
+  private drawRichTextImmediate(
+    markup: string,
+    bounds: FixedRect,
+    style: TextStyle,
+    options: Partial<TextLayoutOptions>
+  ): void {
+    const layoutOptions: TextLayoutOptions = { ...DEFAULT_TEXT_LAYOUT_OPTIONS, ...options };
+    const ppu = this.config.pixelsPerUnit;
+    const boxWidth = bounds.width.toNumber() * ppu;
+    const boxHeight = bounds.height.toNumber() * ppu;
+    if (layoutOptions.maxWidth === undefined) {
+      layoutOptions.maxWidth = bounds.width;
+    }
+
+    const layout = this.layoutRichText(RichText.parse(markup), style, layoutOptions);
+    // Stop at the box height, keeping at least one line
+    while (layout.lines.length > 1) {
+      const last = layout.lines[layout.lines.length - 1];
+      if (last.top + last.height <= boxHeight) break;
+      layout.lines.pop();
+      layout.height = last.top;
+    }
+
+    let top = 0;
+    if (layoutOptions.verticalAlign === 'middle') {
+      top = (boxHeight - layout.height) / 2;
+    } else if (layoutOptions.verticalAlign === 'bottom') {
+      top = boxHeight - layout.height;
+    }
+    const align = layoutOptions.horizontalAlign || this.getHorizontalAlign(style);
+    const bitmapFont = this.getBitmapFontForStyle(style);
+
+    const screenRect = this.getOrientedScreenRect(bounds);
+    const zoom = this.coordinateSystem.getPixelScale() / this.coordinateSystem.getCameraInfo().pixelsPerUnit;
+
+    this.ctx.save();
+    this.ctx.translate(screenRect.x, screenRect.y);
+    this.applyViewRotation({ x: 0, y: 0 });
+    this.ctx.scale(zoom, zoom);
+
+    for (const line of layout.lines) {
+      let lineX = 0;
+      if (align === 'center') {
+        lineX = (boxWidth - line.width) / 2;
+      } else if (align === 'right') {
+        lineX = boxWidth - line.width;
+      }
+      const baseline = top + line.top + line.baseline;
+
+      for (const piece of line.pieces) {
+        const x = lineX + piece.x;
+        if (piece.run.type === 'icon') {
+          const icon = this.textIcons.get(piece.run.name);
+          if (icon) {
+            const image = this.getTextureSource(icon);
+            this.noteTextureBind(image);
+            icon.draw(this.ctx, image, x, baseline - piece.ascent, piece.width, piece.ascent);
+          }
+          continue;
+        }
+
+        const runStyle = { ...this.getRunStyle(style, piece.run), textAlign: 'left', textBaseline: 'alphabetic' };
+        if (bitmapFont) {
+          this.drawBitmapText(bitmapFont, piece.text, { x, y: baseline }, runStyle);
+        } else {
+          this.styleManager.applyTextStyle(runStyle);
+          this.ctx.fillText(piece.text, x, baseline);
+        }
+      }
+    }
+
+    this.ctx.restore();
+    this.styleManager.resetCache();
+  }
+
+  /**
+   * Register a texture or atlas region used by [icon=name] in rich text
+   * 注册富文本中[icon=name]使用的纹理或图集区域
+   */
+  registerTextIcon(name: string, texture: CanvasTexture): void {
+    this.textIcons.set(name, texture);
+  }
+
+  /**
+   * Unregister a rich text icon
+   * 注销富文本图标
+   */
+  unregisterTextIcon(name: string): boolean {
+    return this.textIcons.delete(name);
+  }
+
+  /**
+   * Register a bitmap font; text styles whose fontFamily matches the name use it
+   * 注册位图字体；fontFamily与名称匹配的文本样式将使用该字体
+   *
+   * Glyphs are scaled by fontSize / font.size and tinted with the text color,
+   * so fonts with colored glyphs should be drawn with white text.
+   * 字形按fontSize / font.size缩放并使用文本颜色着色，因此彩色字形的字体应使用白色文本绘制。
+   */
+  registerBitmapFont(font: CanvasBitmapFont, name: string = font.face): void {
+    this.bitmapFonts.set(name, font);
+  }
+
+  /**
+   * Unregister a bitmap font
+   * 注销位图字体
+   */
+  unregisterBitmapFont(name: string): boolean {
+    return this.bitmapFonts.delete(name);
+  }
+
+  /**
+   * Get a registered bitmap font
+   * 获取已注册的位图字体
+   */
+  getBitmapFont(name: string): CanvasBitmapFont | undefined {
+    return this.bitmapFonts.get(name);
   }
 
+
   // ===== Texture Rendering =====
   // 纹理渲染
 
@@ -293,9 +769,22 @@ export class CanvasRenderer extends BaseRenderer {
       return;
     }
 
-    this.drawTextureImmediate(texture, position, style);
+    if (
+      this.config.enableCulling &&
+      !this.isTextureBoxVisible(this.coordinateSystem.worldToScreen(position), texture.width, texture.height, style)
+    ) {
+      return;
+    }
+
+    if (this.drawLayer) {
+      this.queueDraw(() => this.drawTextureImmediate(texture, position, style));
+    } else if (this.config.enableBatchRendering) {
+      const styled = this.getStyledTexture(texture, style);
+      this.batchManager.addTexture(styled, this.getTextureSource(styled, style), position, style);
+    } else {
+      this.drawTextureImmediate(texture, position, style);
+    }
     this.canvasStats.drawCalls++;
-    this.canvasStats.textureBinds++;
   }
 
   protected onDrawTextureRegion(
@@ -310,117 +799,1117 @@ export class CanvasRenderer extends BaseRenderer {
       return;
     }
 
-    this.drawTextureRegionImmediate(texture, sourceRect, destRect, style);
+    if (this.config.enableCulling) {
+      const destScreenRect = this.getOrientedScreenRect(destRect);
+      if (!this.isTextureBoxVisible(destScreenRect, destScreenRect.width, destScreenRect.height, style)) {
+        return;
+      }
+    }
+
+    if (this.drawLayer) {
+      this.queueDraw(() => this.drawTextureRegionImmediate(texture, sourceRect, destRect, style));
+    } else if (this.config.enableBatchRendering) {
+      const styled = this.getStyledTexture(texture, style);
+      this.batchManager.addTextureRegion(styled, this.getTextureSource(styled, style), sourceRect, destRect, style);
+    } else {
+      this.drawTextureRegionImmediate(texture, sourceRect, destRect, style);
+    }
+    this.canvasStats.drawCalls++;
+  }
+
+  /**
+   * Draw a nine-slice (9-patch) texture stretched over a world rectangle
+   * 将九宫格纹理绘制到世界矩形上
+   *
+   * Insets are in texture pixels; borders keep their texel size, scaled by
+   * camera zoom and options.borderScale, while edges and center fill the rest.
+   * Only opacity, tint and filter are taken from the texture style.
+   * 内边距以纹理像素为单位；边框保持纹理像素尺寸（按相机缩放和borderScale缩放），边缘和中心填充剩余区域。
+   * 纹理样式中仅使用不透明度、着色和滤镜。
+   */
+  drawNineSlice(
+    texture: CanvasTexture,
+    bounds: FixedRect,
+    insets: NineSliceInsets,
+    options: Partial<NineSliceOptions> = {},
+    style?: TextureStyle
+  ): void {
+    if (this.config.enableCulling && !this.isWorldRectVisible(bounds, 0)) {
+      return;
+    }
+
+    const sliceOptions = { ...DEFAULT_NINE_SLICE_OPTIONS, ...options };
+    this.submitDraw(() => this.drawNineSliceImmediate(texture, bounds, insets, sliceOptions, style));
     this.canvasStats.drawCalls++;
-    this.canvasStats.textureBinds++;
+  }
+
+  /**
+   * Drop cached tinted copies of a texture, or of all textures
+   * 丢弃某个纹理或所有纹理的着色缓存副本
+   *
+   * Call this after changing the pixels of a texture's source image or canvas.
+   * Filtered copies made where the context cannot filter are all dropped.
+   * 在修改纹理源图像或画布的像素后调用。在上下文无法应用滤镜时生成的滤镜副本会全部丢弃。
+   */
+  invalidateTintCache(texture?: CanvasTexture): void {
+    this.tintCache.invalidate(texture);
+    this.filterProcessor.clear();
   }
 
   // ===== State Management =====
   // 状态管理
 
-  protected onSetRenderState(state: RenderState): void {
-    this.styleManager.applyBlendMode(state.blendMode);
-    this.styleManager.applyOpacity(state.opacity);
+  protected onSetRenderState(state: CanvasRenderState): void {
+    // The clip of the previous state ends with it
+    if (this.stateClip) {
+      this.removeClip(this.stateClip);
+      this.stateClip = null;
+    }
 
-    // Handle clipping if specified
-    if (state.clipRect) {
-      this.applyClipRect(state.clipRect);
+    const compositeOperation = this.styleManager.resolveCompositeOperation(state.blendMode, state.compositeOperation);
+    const filter = state.filter && state.filter.length > 0 ? state.filter : null;
+
+    // Batched draws are painted with the opacity and blending they were submitted under
+    if (state.opacity !== this.renderOpacity || compositeOperation !== this.renderCompositeOperation) {
+      this.batchManager.flushBatch();
     }
-  }
 
-  protected onSetViewport(viewport: Viewport): void {
-    // Update canvas size if needed
-    if (this.canvas.width !== viewport.width || this.canvas.height !== viewport.height) {
-      this.canvas.width = viewport.width;
-      this.canvas.height = viewport.height;
-      
-      // Update coordinate system
-      this.coordinateSystem.setCanvasSize({ width: viewport.width, height: viewport.height });
-      
-      // Reapply high DPI scaling if enabled
-      if (this.config.enableHighDPI) {
-        this.coordinateSystem.applyHighDPIScaling(this.ctx, this.canvas);
+    // So does its filter. Filtered content is composited as one image with the
+    // state's opacity and blending, so a change to either starts a new image.
+    const top = this.scopes[this.scopes.length - 1];
+    const filterScope = top && !top.mask && top.filter ? top : null;
+    const keepScope = filterScope !== null && filter !== null &&
+      filterScope.opacity === state.opacity &&
+      filterScope.compositeOperation === compositeOperation &&
+      this.styleManager.internStyle(filterScope.filter) === this.styleManager.internStyle(filter);
+    if (!keepScope) {
+      if (filterScope) {
+        this.endScope();
       }
-      
-      // Reset coordinate system
-      this.setupCoordinateSystem();
+      this.renderCompositeOperation = compositeOperation;
+      this.renderOpacity = state.opacity;
+      if (filter && this.inFrame) {
+        this.beginScope(null, false, filter);
+      }
+    }
+    this.styleManager.applyCompositeOperation(this.renderCompositeOperation);
+    this.styleManager.applyOpacity(this.renderOpacity);
+
+    // Handle clipping if specified
+    if (state.clipRect) {
+      this.stateClip = this.addClip({ type: 'rect', bounds: state.clipRect }, 'nonzero');
     }
   }
 
-  // ===== Utility Methods =====
-  // 工具方法
+  // ===== Clipping =====
+  // 裁剪
 
-  protected onSupportsFeature(feature: string): boolean {
-    const supportedFeatures = [
-      '2d',
-      'canvas',
-      'basic-shapes',
-      'text',
-      'textures',
-      'transforms',
-      'clipping',
-      'batch-rendering',
-      'high-dpi'
-    ];
-    return supportedFeatures.includes(feature);
+  /**
+   * Limit drawing to a region, intersected with the clips already pushed
+   * 将绘制限制在一个区域内，并与已压入的裁剪求交
+   *
+   * Every push must be matched by popClip. Clips and transforms can be popped
+   * in any order; popping one keeps the other in effect.
+   * 每次压入都必须与popClip配对。裁剪和变换可以按任意顺序弹出，弹出其一不影响另一个。
+   *
+   * @param shape - Region in world coordinates
+   * @param fillRule - Rule deciding which parts of a self-intersecting path are inside
+   */
+  pushClip(shape: CanvasClipShape, fillRule: CanvasFillRule = 'nonzero'): void {
+    this.addClip(shape, fillRule);
   }
 
-  protected onGetRendererInfo() {
-    return {
-      name: 'CanvasRenderer',
-      version: '1.0.0',
-      vendor: 'HTML5 Canvas 2D',
-      capabilities: [
-        '2d',
-        'canvas',
-        'basic-shapes',
-        'text',
-        'textures',
-        'transforms',
-        'clipping',
-        'batch-rendering',
-        'high-dpi'
-      ]
-    };
+  /**
+   * Remove the latest clip pushed
+   * 移除最近压入的裁剪
+   */
+  popClip(): void {
+    this.batchManager.flushBatch();
+    if (this.saveStack.popClip(this.getSaveFloor())) {
+      this.restoreCurrentTransform();
+    }
   }
 
-  getRenderTarget(): unknown {
-    return this.canvas;
+  /**
+   * Get number of clips in effect
+   * 获取当前生效的裁剪数量
+   */
+  getClipDepth(): number {
+    return this.saveStack.clips.length;
   }
 
-  setRenderTarget(_target: unknown): void {
-    // For Canvas, render target switching would require different canvas elements
-    // This could be implemented for off-screen rendering
-    // eslint-disable-next-line no-console
-    console.warn('Render target switching not implemented for Canvas renderer');
+  // ===== Masking =====
+  // 遮罩
+
+  /**
+   * Draw following content through the alpha of a mask, until endMask
+   * 透过遮罩的Alpha绘制后续内容，直到调用endMask
+   *
+   * Content is drawn off-screen, cut by the mask, then composited with the
+   * opacity and blend mode of the render state in effect at beginMask.
+   * Masks nest, and end with the viewport or render target they were begun in.
+   * 内容先在离屏绘制并由遮罩裁切，再以beginMask时渲染状态的不透明度和混合模式合成。
+   * 遮罩可以嵌套，并随其开始时所在的视口或渲染目标一同结束。
+   *
+   * @param mask - Texture stretched over world bounds, or a shape
+   * @param invert - Show content where the mask is transparent instead
+   */
+  beginMask(mask: CanvasMask, invert: boolean = false): void {
+    if (!this.inFrame) return;
+    this.beginScope(mask, invert, null);
   }
 
-  // ===== Private Helper Methods =====
-  // 私有辅助方法
+  /**
+   * Finish the latest mask and composite its content
+   * 结束最近的遮罩并合成其内容
+   */
+  endMask(): void {
+    let index = this.scopes.length - 1;
+    while (index >= 0 && !this.scopes[index].mask) {
+      index--;
+    }
+    if (index < 0) return;
 
-  private applyCameraTransform(): void {
-    // Camera transform is handled by the coordinate system
-    // Additional camera effects could be applied here
+    // Filters set inside the mask end with it
+    while (this.scopes.length > index) {
+      this.endScope();
+    }
   }
 
-  private applyClipRect(clipRect: FixedRect): void {
-    const screenRect = this.coordinateSystem.worldToScreenRect(clipRect);
-    
-    this.ctx.save();
-    this.ctx.beginPath();
-    this.ctx.rect(screenRect.x, screenRect.y, screenRect.width, screenRect.height);
-    this.ctx.clip();
+  /**
+   * Get number of masks in effect
+   * 获取当前生效的遮罩数量
+   */
+  getMaskDepth(): number {
+    return this.scopes.filter(scope => scope.mask).length;
   }
 
-  private resetCanvasStats(): void {
-    this.canvasStats = {
+  /**
+   * Redirect drawing to a cleared off-screen surface
+   * 将绘制重定向到已清空的离屏表面
+   */
+  private beginScope(mask: CanvasMask | null, invert: boolean, filter: CanvasFilter | null): void {
+    this.flushDrawQueue();
+    this.batchManager.flushBatch();
+
+    this.scopes.push({
+      mask,
+      invert,
+      filter,
+      target: this.acquireScopeSurface(),
+      parentContext: this.ctx,
+      parentStyleManager: this.styleManager,
+      viewport: this.activeViewport,
+      saveDepth: this.saveStack.depth,
+      transform: this.getCurrentScreenTransform(),
+      opacity: this.renderOpacity,
+      compositeOperation: this.renderCompositeOperation
+    });
+    const target = this.scopes[this.scopes.length - 1].target;
+
+    this.ctx = target.surface.ctx;
+    this.styleManager = target.styleManager;
+    this.syncDrawingContext();
+
+    // Opacity and blending apply once, when the content is composited
+    this.renderOpacity = 1;
+    this.renderCompositeOperation = 'source-over';
+
+    this.ctx.save();
+    this.restoreCurrentTransform();
+  }
+
+  /**
+   * Finish the latest off-screen scope and composite its content
+   * 结束最近的离屏作用域并合成其内容
+   */
+  private endScope(): void {
+    const scope = this.scopes[this.scopes.length - 1];
+    if (!scope) return;
+
+    // A viewport begun inside the scope ends with it
+    if (this.activeViewport !== scope.viewport) {
+      this.endViewport();
+    }
+    this.flushDrawQueue();
+    this.batchManager.flushBatch();
+    this.unwindSaves(scope.saveDepth);
+    this.ctx.restore();
+
+    // Keep content only where the mask is opaque (or transparent, when inverted)
+    if (scope.mask) {
+      this.ctx.save();
+      this.styleManager.overrideShadow(undefined);
+      this.ctx.globalCompositeOperation = scope.invert ? 'destination-out' : 'destination-in';
+      this.drawMask(scope.mask, scope.transform);
+      this.ctx.restore();
+    }
+
+    this.scopes.pop();
+    this.ctx = scope.parentContext;
+    this.styleManager = scope.parentStyleManager;
+    this.syncDrawingContext();
+    this.renderOpacity = scope.opacity;
+    this.renderCompositeOperation = scope.compositeOperation;
+
+    // Contexts without filter support get their pixels filtered directly
+    const nativeFilter = FilterProcessor.isSupported(this.ctx);
+    if (scope.filter && !nativeFilter) {
+      FilterProcessor.applyToSurface(scope.target.surface, scope.filter, this.getFilterBlurScale());
+    }
+
+    // Content is already in device pixels; clips of the parent still apply
+    this.ctx.save();
+    this.styleManager.overrideShadow(undefined);
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.globalAlpha = scope.opacity;
+    this.ctx.globalCompositeOperation = scope.compositeOperation;
+    if (scope.filter && nativeFilter) {
+      this.ctx.filter = FilterProcessor.toCss(scope.filter, this.getFilterBlurScale());
+    }
+    this.ctx.drawImage(scope.target.surface.canvas, 0, 0);
+    this.ctx.restore();
+    this.styleManager.resetCache();
+    this.canvasStats.drawCalls++;
+  }
+
+  private endScopes(): void {
+    while (this.scopes.length > 0) {
+      this.endScope();
+    }
+  }
+
+  /**
+   * Get a cleared scope surface the size of the current one
+   * 获取与当前表面尺寸相同且已清空的作用域表面
+   */
+  private acquireScopeSurface(): ScopeSurface {
+    const size = this.getSurfaceSize();
+    let target = this.scopeSurfaces[this.scopes.length];
+    if (!target) {
+      const surface = new OffscreenSurface(size.width, size.height);
+      target = { surface, styleManager: new StyleManager(surface.ctx, this.config.enableStyleCaching) };
+      this.scopeSurfaces[this.scopes.length] = target;
+    } else if (target.surface.width !== size.width || target.surface.height !== size.height) {
+      target.surface.resize(size.width, size.height);
+    } else {
+      target.surface.clear();
+    }
+
+    // Resizing resets the context state
+    target.surface.ctx.imageSmoothingEnabled = this.ctx.imageSmoothingEnabled;
+    target.styleManager.resetCache();
+    return target;
+  }
+
+  /**
+   * Draw the alpha of a mask under a screen transform
+   * 在屏幕变换下绘制遮罩的Alpha
+   */
+  private drawMask(mask: CanvasMask, transform: ScreenTransform): void {
+    this.applyScreenTransform(transform);
+
+    if (mask.type === 'texture') {
+      const texture = mask.texture;
+      const bounds = mask.bounds;
+      this.drawTextureCommand({
+        texture,
+        position: new FixedVector2(bounds.x, bounds.y),
+        sourceRect: { x: 0, y: 0, width: texture.width, height: texture.height },
+        destRect: {
+          x: bounds.x.toNumber(),
+          y: bounds.y.toNumber(),
+          width: bounds.width.toNumber(),
+          height: bounds.height.toNumber()
+        }
+      });
+    } else {
+      this.ctx.fillStyle = '#000';
+      this.ctx.fill(this.traceClipShape(mask.shape), mask.fillRule ?? 'nonzero');
+    }
+  }
+
+  protected onSetViewport(viewport: Viewport): void {
+    this.batchManager.flushBatch();
+
+    // A bound render target is resized instead of the visible canvas
+    if (this.activeRenderTarget) {
+      const target = this.activeRenderTarget;
+      if (target.width !== viewport.width || target.height !== viewport.height) {
+        target.resize(viewport.width, viewport.height);
+        this.applyCameraTransform();
+      }
+      return;
+    }
+
+    // Update canvas size if needed
+    if (this.canvas.width !== viewport.width || this.canvas.height !== viewport.height) {
+      this.canvas.width = viewport.width;
+      this.canvas.height = viewport.height;
+      
+      // Update coordinate system
+      this.coordinateSystem.setCanvasSize({ width: viewport.width, height: viewport.height });
+      
+      // Reapply high DPI scaling if enabled
+      if (this.config.enableHighDPI) {
+        this.coordinateSystem.applyHighDPIScaling(this.ctx, this.canvas);
+      }
+    }
+  }
+
+  // ===== Viewport Management =====
+  // 视口管理
+
+  /**
+   * Create a viewport rendering into a sub-rectangle of the canvas
+   * 创建渲染到画布子矩形的视口
+   */
+  createViewport(
+    id: string,
+    config: Pick<CanvasViewportConfig, 'x' | 'y' | 'width' | 'height'> & Partial<CanvasViewportConfig>
+  ): CanvasViewport {
+    const viewport = new CanvasViewport(
+      id,
+      config,
+      this.config.pixelsPerUnit,
+      this.defaultCoordinateSystem.getDevicePixelRatio()
+    );
+    this.viewports.set(id, viewport);
+    return viewport;
+  }
+
+  /**
+   * Remove a viewport
+   * 移除视口
+   */
+  removeViewport(id: string): boolean {
+    if (this.activeViewport && this.activeViewport.id === id) {
+      this.endViewport();
+    }
+    return this.viewports.delete(id);
+  }
+
+  /**
+   * Get viewport by id
+   * 根据ID获取视口
+   */
+  getViewport(id: string): CanvasViewport | undefined {
+    return this.viewports.get(id);
+  }
+
+  /**
+   * Get all viewports in creation order
+   * 按创建顺序获取所有视口
+   */
+  getViewports(): CanvasViewport[] {
+    return Array.from(this.viewports.values());
+  }
+
+  /**
+   * Get viewport currently drawn to
+   * 获取当前正在绘制的视口
+   */
+  getActiveViewport(): CanvasViewport | null {
+    return this.activeViewport;
+  }
+
+  /**
+   * Start drawing through a viewport's camera into its rectangle
+   * 开始通过视口相机绘制到其矩形区域
+   */
+  beginViewport(viewport: CanvasViewport | string): void {
+    const target = typeof viewport === 'string' ? this.viewports.get(viewport) : viewport;
+    if (!target) {
+      // eslint-disable-next-line no-console
+      console.warn(`Viewport not found: ${String(viewport)}`);
+      return;
+    }
+
+    this.endViewport();
+    this.flushDrawQueue();
+    this.batchManager.flushBatch();
+
+    this.ctx.save();
+    this.viewportSaveDepth = this.saveStack.depth;
+
+    if (target.clip) {
+      this.ctx.beginPath();
+      this.ctx.rect(target.x, target.y, target.width, target.height);
+      this.ctx.clip();
+    }
+
+    if (target.backgroundColor) {
+      this.ctx.save();
+      this.styleManager.overrideShadow(undefined);
+      this.ctx.fillStyle = ColorUtils.toHex(target.backgroundColor);
+      this.ctx.fillRect(target.x, target.y, target.width, target.height);
+      this.ctx.restore();
+    }
+
+    this.activeViewport = target;
+    this.viewportParentCoordinateSystem = this.coordinateSystem;
+    this.coordinateSystem = target.coordinateSystem;
+    this.syncDrawingContext();
+  }
+
+  /**
+   * Finish drawing the active viewport
+   * 结束当前视口的绘制
+   */
+  endViewport(): void {
+    if (!this.activeViewport || !this.viewportParentCoordinateSystem) return;
+
+    // Masks and filters begun inside the viewport end with it
+    while (this.scopes.length > 0 && this.scopes[this.scopes.length - 1].viewport === this.activeViewport) {
+      this.endScope();
+    }
+
+    this.flushDrawQueue();
+    this.batchManager.flushBatch();
+
+    // Drop transforms and clips pushed inside the viewport along with its clip
+    this.unwindSaves(this.viewportSaveDepth);
+    this.ctx.restore();
+    this.styleManager.resetCache();
+
+    this.coordinateSystem = this.viewportParentCoordinateSystem;
+    this.activeViewport = null;
+    this.viewportParentCoordinateSystem = null;
+    this.syncDrawingContext();
+  }
+
+  /**
+   * Draw the scene once per enabled viewport
+   * 为每个启用的视口绘制一次场景
+   */
+  renderViewports(draw: (viewport: CanvasViewport) => void): void {
+    for (const viewport of this.viewports.values()) {
+      if (!viewport.enabled) continue;
+
+      this.beginViewport(viewport);
+      draw(viewport);
+      this.endViewport();
+    }
+  }
+
+  // ===== Render Layers =====
+  // 渲染层
+
+  /**
+   * Create a render layer, replacing any layer with the same name
+   * 创建渲染层，替换同名的已有图层
+   */
+  createLayer(name: string, config: Partial<CanvasRenderLayerConfig> = {}): CanvasRenderLayer {
+    const layer = new CanvasRenderLayer(name, config);
+    this.layers.set(name, layer);
+    return layer;
+  }
+
+  /**
+   * Remove a render layer; draws already queued on it are still drawn
+   * 移除渲染层；已在其上排队的绘制仍会被绘制
+   */
+  removeLayer(name: string): boolean {
+    const layer = this.layers.get(name);
+    if (layer && layer === this.drawLayer) {
+      this.drawLayer = null;
+    }
+    return this.layers.delete(name);
+  }
+
+  /**
+   * Get a render layer by name
+   * 按名称获取渲染层
+   */
+  getLayer(name: string): CanvasRenderLayer | undefined {
+    return this.layers.get(name);
+  }
+
+  /**
+   * Get all render layers in draw order
+   * 按绘制顺序获取所有渲染层
+   */
+  getLayers(): CanvasRenderLayer[] {
+    return Array.from(this.layers.values()).sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Route following draws into a layer with a sort key, or back to immediate drawing
+   * 将后续绘制路由到带排序键的图层，或恢复为立即绘制
+   *
+   * Layered draws are queued and drawn when the frame, viewport or render
+   * target ends, sorted by layer order, then sort key, then call order. Each
+   * draw keeps the transform, opacity and blend mode it was submitted with.
+   * Draws made without a layer are drawn right away, below the queued ones.
+   * 分层绘制会进入队列，并在帧、视口或渲染目标结束时按图层顺序、排序键、调用顺序绘制。
+   * 每个绘制保留提交时的变换、不透明度和混合模式。未指定图层的绘制会立即绘制，位于队列绘制之下。
+   *
+   * @param layer - Layer or layer name, or null for immediate drawing
+   * @param sortKey - Order within the layer, e.g. a depth or y position
+   */
+  setDrawLayer(layer: CanvasRenderLayer | string | null, sortKey: number = 0): void {
+    const target = typeof layer === 'string' ? this.layers.get(layer) : layer;
+    if (target === undefined) {
+      // eslint-disable-next-line no-console
+      console.warn(`Render layer not found: ${String(layer)}`);
+      return;
+    }
+
+    this.drawLayer = target;
+    this.drawSortKey = sortKey;
+  }
+
+  /**
+   * Get the layer following draws are queued on, or null when drawing immediately
+   * 获取后续绘制所排入的图层，立即绘制时为null
+   */
+  getDrawLayer(): CanvasRenderLayer | null {
+    return this.drawLayer;
+  }
+
+  /**
+   * Number of draws waiting in the layered queue
+   * 分层队列中等待的绘制数量
+   */
+  getQueuedDrawCount(): number {
+    return this.drawQueue.length;
+  }
+
+  /**
+   * Queue a draw on the current layer with the current transform and render state
+   * 以当前变换和渲染状态将绘制加入当前图层的队列
+   */
+  private queueDraw(draw: () => void): void {
+    if (!this.drawLayer) return;
+
+    this.drawQueue.push(this.drawLayer, this.drawSortKey, {
+      transform: this.getCurrentScreenTransform(),
+      opacity: this.renderOpacity,
+      compositeOperation: this.renderCompositeOperation,
+      clips: this.saveStack.clips,
+      draw
+    });
+  }
+
+  /**
+   * Queue a draw when a layer is selected, otherwise draw it now
+   * 选择了图层时将绘制加入队列，否则立即绘制
+   */
+  private submitDraw(draw: () => void): void {
+    if (this.drawLayer) {
+      this.queueDraw(draw);
+    } else {
+      // Batched draws submitted earlier go underneath
+      this.batchManager.flushBatch();
+      draw();
+    }
+  }
+
+  /**
+   * Draw the layered queue in sorted order
+   * 按排序顺序绘制分层队列
+   */
+  private flushDrawQueue(): void {
+    if (this.drawQueue.length === 0) return;
+
+    // Unlayered draws submitted earlier go underneath
+    this.batchManager.flushBatch();
+
+    // Draws are clipped by the clips they were submitted under, not the current ones
+    const suspended = this.saveStack.unwind(this.getSaveFloor());
+    const outerClips = this.saveStack.clips;
+    let appliedClips: readonly ClipEntry[] | null = null;
+
+    this.ctx.save();
+    this.styleManager.resetCache();
+
+    for (const entry of this.drawQueue.drain()) {
+      const layer = entry.layer;
+      if (!layer.visible || layer.opacity <= 0) continue;
+
+      const command = entry.command;
+      if (command.clips !== appliedClips) {
+        if (appliedClips) {
+          this.ctx.restore();
+        }
+        this.ctx.save();
+        for (const clip of command.clips) {
+          if (!outerClips.includes(clip)) {
+            this.reapplySavedState({ type: 'clip', clip });
+          }
+        }
+        appliedClips = command.clips;
+        this.styleManager.resetCache();
+      }
+
+      this.applyScreenTransform(command.transform);
+      this.styleManager.applyOpacity(command.opacity * layer.opacity);
+      if (layer.blendMode !== null) {
+        this.styleManager.applyBlendMode(layer.blendMode);
+      } else {
+        this.styleManager.applyCompositeOperation(command.compositeOperation);
+      }
+      command.draw();
+    }
+
+    if (appliedClips) {
+      this.ctx.restore();
+    }
+    this.ctx.restore();
+    this.saveStack.resume(suspended);
+    this.restoreCurrentTransform();
+  }
+
+  // ===== Post-Processing =====
+  // 后期处理
+
+  /**
+   * Replace the full-frame passes, run in array order
+   * 替换全帧处理阶段，按数组顺序运行
+   *
+   * Takes effect from the next frame. While no pass is enabled, frames are
+   * drawn straight to the visible canvas.
+   * 从下一帧开始生效。没有启用的处理阶段时，帧直接绘制到可见画布。
+   */
+  setPostProcessPasses(passes: PostProcessPass[]): void {
+    this.postProcess.setPasses(passes);
+  }
+
+  /**
+   * Get the full-frame passes, in the order they run
+   * 获取全帧处理阶段，按其运行顺序排列
+   */
+  getPostProcessPasses(): readonly PostProcessPass[] {
+    return this.postProcess.getPasses();
+  }
+
+  /**
+   * Turn every pass of a type on or off
+   * 开启或关闭某一类型的所有处理阶段
+   *
+   * @returns Whether a pass of the type exists
+   */
+  setPostProcessPassEnabled(type: PostProcessPassType, enabled: boolean): boolean {
+    return this.postProcess.setPassEnabled(type, enabled);
+  }
+
+  // ===== Utility Methods =====
+  // 工具方法
+
+  protected onSupportsFeature(feature: string): boolean {
+    const supportedFeatures = [
+      '2d',
+      'canvas',
+      'basic-shapes',
+      'text',
+      'textures',
+      'transforms',
+      'clipping',
+      'batch-rendering',
+      'high-dpi',
+      'render-targets',
+      'viewports',
+      'nine-slice',
+      'bitmap-fonts',
+      'rich-text',
+      'culling',
+      'render-layers',
+      'masking',
+      'composite-operations',
+      'gradients',
+      'patterns',
+      'shadows',
+      'filters',
+      'post-processing'
+    ];
+    return supportedFeatures.includes(feature);
+  }
+
+  protected onGetRendererInfo() {
+    return {
+      name: 'CanvasRenderer',
+      version: '1.0.0',
+      vendor: 'HTML5 Canvas 2D',
+      capabilities: [
+        '2d',
+        'canvas',
+        'basic-shapes',
+        'text',
+        'textures',
+        'transforms',
+        'clipping',
+        'batch-rendering',
+        'high-dpi',
+        'render-targets',
+        'viewports',
+        'nine-slice',
+        'bitmap-fonts',
+        'rich-text',
+        'culling',
+        'render-layers',
+        'masking',
+        'composite-operations',
+        'gradients',
+        'patterns',
+        'shadows',
+        'filters',
+        'post-processing'
+      ]
+    };
+  }
+
+  /**
+   * Get statistics of the last frame
+   * 获取上一帧的统计信息
+   */
+  getCanvasStats(): Readonly<CanvasRenderStats> {
+    return this.canvasStats;
+  }
+
+  getRenderTarget(): unknown {
+    return this.activeRenderTarget || this.canvas;
+  }
+
+  /**
+   * Redirect drawing into a render target
+   * 将绘制重定向到渲染目标
+   *
+   * Pass a CanvasRenderTarget to draw off-screen, or null (or the visible
+   * canvas) to draw to the screen again. Pending batched draws are flushed
+   * to the previous target first.
+   * 传入CanvasRenderTarget进行离屏绘制，传入null（或可见画布）则恢复绘制到屏幕。
+   * 切换前会先将待处理的批量绘制刷新到之前的目标。
+   */
+  setRenderTarget(target: unknown): void {
+    if (target === null || target === undefined || target === this.canvas) {
+      this.bindRenderTarget(null);
+    } else if (target instanceof CanvasRenderTarget) {
+      this.bindRenderTarget(target);
+    } else {
+      // eslint-disable-next-line no-console
+      console.warn('Invalid render target type for Canvas renderer');
+    }
+  }
+
+  /**
+   * Create an off-screen render target sharing this renderer's settings
+   * 创建与此渲染器共享设置的离屏渲染目标
+   */
+  createRenderTarget(
+    width: number,
+    height: number,
+    config: Partial<CanvasRenderTargetConfig> = {}
+  ): CanvasRenderTarget {
+    return new CanvasRenderTarget(width, height, {
+      pixelsPerUnit: this.config.pixelsPerUnit,
+      enableAntialiasing: this.config.enableAntialiasing,
+      enableStyleCaching: this.config.enableStyleCaching,
+      ...config
+    });
+  }
+
+  // ===== Private Helper Methods =====
+  // 私有辅助方法
+
+  /**
+   * Switch drawing context, coordinate system and styles to a target
+   * 将绘制上下文、坐标系和样式切换到指定目标
+   */
+  private bindRenderTarget(target: CanvasRenderTarget | null): void {
+    if (target === this.activeRenderTarget) return;
+
+    // Masks, filters and viewports belong to the surface they were begun on
+    this.endScopes();
+    this.endViewport();
+    this.flushDrawQueue();
+    this.batchManager.flushBatch();
+
+    // Unwind the frame state of the previous context
+    if (this.inFrame) {
+      this.unwindSaves(0);
+      this.ctx.restore();
+    }
+
+    this.activeRenderTarget = target;
+    if (target) {
+      // Content is about to change, so derived tints must be rebuilt
+      target.getTexture().markDirty();
+
+      this.ctx = target.ctx;
+      this.coordinateSystem = target.coordinateSystem;
+      this.styleManager = target.styleManager;
+    } else {
+      this.ctx = this.defaultContext;
+      this.coordinateSystem = this.defaultCoordinateSystem;
+      this.styleManager = this.defaultStyleManager;
+    }
+    this.syncDrawingContext();
+
+    // Begin the frame on the new context
+    if (this.inFrame) {
+      this.ctx.save();
+      this.applyCameraTransform();
+    }
+  }
+
+  /**
+   * Point batching and paints at the current context, styles and coordinate system
+   * 使批处理和绘制指向当前的上下文、样式和坐标系
+   */
+  private syncDrawingContext(): void {
+    this.styleManager.setPaintSpace(this.coordinateSystem);
+    this.batchManager.setContext(this.ctx, this.styleManager, this.coordinateSystem);
+  }
+
+  /**
+   * Redirect the visible canvas to the post-processing scene for this frame
+   * 在本帧中将可见画布重定向到后期处理场景
+   */
+  private beginPostProcess(): void {
+    this.postProcessing = this.postProcess.isActive();
+    if (!this.postProcessing) return;
+
+    const surface = this.postProcess.beginFrame(this.canvas.width, this.canvas.height);
+    if (surface !== this.sceneSurface || !this.sceneStyleManager) {
+      this.sceneSurface = surface;
+      this.sceneStyleManager = new StyleManager(
+        surface.ctx,
+        this.config.enableStyleCaching,
+        this.visibleStyleManager.getStyleInterner()
+      );
+    }
+    // Resizing resets the context, so settings and cached styles are applied again
+    surface.ctx.imageSmoothingEnabled = this.config.enableAntialiasing;
+    this.sceneStyleManager.resetCache();
+
+    this.setDefaultContext(surface.ctx, this.sceneStyleManager);
+  }
+
+  /**
+   * Run the post-processing passes and present the scene on the visible canvas
+   * 运行后期处理阶段并将场景呈现到可见画布
+   */
+  private endPostProcess(): void {
+    if (!this.postProcessing) return;
+    this.postProcessing = false;
+
+    this.setDefaultContext(this.visibleContext, this.visibleStyleManager);
+    this.postProcess.present(this.visibleContext);
+
+    const timings = this.postProcess.getTimings();
+    let total = 0;
+    for (const type of Object.keys(timings) as PostProcessPassType[]) {
+      total += timings[type] ?? 0;
+    }
+    this.canvasStats.postProcessTime = total;
+    this.canvasStats.postProcessPassTimes = { ...timings };
+  }
+
+  /**
+   * Change what drawing without a render target goes to
+   * 更改未绑定渲染目标时的绘制目标
+   */
+  private setDefaultContext(ctx: CanvasRenderingContext2D, styleManager: StyleManager): void {
+    this.defaultContext = ctx;
+    this.defaultStyleManager = styleManager;
+    if (!this.activeRenderTarget) {
+      this.ctx = ctx;
+      this.styleManager = styleManager;
+      this.syncDrawingContext();
+    }
+  }
+
+  /**
+   * Get size of the surface currently drawn to
+   * 获取当前绘制表面的尺寸
+   */
+  private getSurfaceSize(): ScreenSize {
+    if (this.activeRenderTarget) {
+      return { width: this.activeRenderTarget.width, height: this.activeRenderTarget.height };
+    }
+    return { width: this.canvas.width, height: this.canvas.height };
+  }
+
+  private applyCameraTransform(): void {
+    // Camera position, zoom, rotation and view matrix are applied by the coordinate
+    // system, so the context itself only carries the device pixel ratio scale
+    const ratio = this.activeRenderTarget ? 1 : this.coordinateSystem.getDevicePixelRatio();
+    this.ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+  }
+
+  /**
+   * Set the context transform to the frame's base transform followed by a screen-space matrix
+   * 将上下文变换设为帧的基础变换再叠加屏幕空间矩阵
+   */
+  private applyScreenTransform(transform: ScreenTransform): void {
+    this.applyCameraTransform();
+    this.ctx.transform(transform.a, transform.b, transform.c, transform.d, transform.e, transform.f);
+  }
+
+  /**
+   * Rotate context around a screen point so screen-aligned content follows the camera
+   * 围绕屏幕点旋转上下文，使屏幕对齐的内容跟随相机
+   */
+  private applyViewRotation(origin: ScreenPoint): void {
+    if (!this.coordinateSystem.hasViewRotation()) return;
+
+    this.ctx.translate(origin.x, origin.y);
+    this.ctx.rotate(this.coordinateSystem.getScreenRotation());
+    this.ctx.translate(-origin.x, -origin.y);
+  }
+
+  private addClip(shape: CanvasClipShape, fillRule: CanvasFillRule): ClipEntry {
+    // Batched draws were submitted outside the new clip
+    this.batchManager.flushBatch();
+
+    const clip: ClipEntry = {
+      path: this.traceClipShape(shape),
+      fillRule,
+      transform: this.getCurrentScreenTransform()
+    };
+    this.saveStack.pushClip(clip);
+    this.ctx.clip(clip.path, clip.fillRule);
+    return clip;
+  }
+
+  private removeClip(clip: ClipEntry): void {
+    this.batchManager.flushBatch();
+    if (this.saveStack.removeClip(clip, this.getSaveFloor())) {
+      this.restoreCurrentTransform();
+    }
+  }
+
+  /**
+   * Trace a clip shape in screen space
+   * 在屏幕空间中描绘裁剪形状
+   */
+  private traceClipShape(shape: CanvasClipShape): Path2D {
+    const path = new Path2D();
+
+    switch (shape.type) {
+      case 'rect':
+        this.tracePolygon(path, this.coordinateSystem.worldToScreenQuad(shape.bounds));
+        break;
+      case 'circle': {
+        const center = this.coordinateSystem.worldToScreen(shape.center);
+        path.arc(center.x, center.y, this.coordinateSystem.worldToScreenDistance(shape.radius), 0, Math.PI * 2);
+        break;
+      }
+      case 'polygon':
+        this.tracePolygon(path, shape.vertices.map(vertex => this.coordinateSystem.worldToScreen(vertex)));
+        break;
+      case 'path':
+        for (const command of shape.commands) {
+          this.traceClipPathCommand(path, command);
+        }
+        break;
+    }
+
+    return path;
+  }
+
+  private tracePolygon(path: Path2D, points: ScreenPoint[]): void {
+    if (points.length === 0) return;
+
+    path.moveTo(points[0].x, points[0].y);
+    for (let i = 1; i < points.length; i++) {
+      path.lineTo(points[i].x, points[i].y);
+    }
+    path.closePath();
+  }
+
+  private traceClipPathCommand(path: Path2D, command: CanvasClipPathCommand): void {
+    const toScreen = (point: FixedVector2): ScreenPoint => this.coordinateSystem.worldToScreen(point);
+
+    switch (command.type) {
+      case 'moveTo': {
+        const point = toScreen(command.point);
+        path.moveTo(point.x, point.y);
+        break;
+      }
+      case 'lineTo': {
+        const point = toScreen(command.point);
+        path.lineTo(point.x, point.y);
+        break;
+      }
+      case 'quadraticCurveTo': {
+        const control = toScreen(command.control);
+        const point = toScreen(command.point);
+        path.quadraticCurveTo(control.x, control.y, point.x, point.y);
+        break;
+      }
+      case 'bezierCurveTo': {
+        const control1 = toScreen(command.control1);
+        const control2 = toScreen(command.control2);
+        const point = toScreen(command.point);
+        path.bezierCurveTo(control1.x, control1.y, control2.x, control2.y, point.x, point.y);
+        break;
+      }
+      case 'closePath':
+        path.closePath();
+        break;
+    }
+  }
+
+  /**
+   * Set up a transform or clip again after the saves above it were restored
+   * 在其上方的保存被恢复后重新设置变换或裁剪
+   */
+  private reapplySavedState(state: SavedState<ScreenTransform, ClipEntry>): void {
+    if (state.type === 'transform') {
+      this.applyScreenTransform(state.transform);
+    } else {
+      // Clip paths are traced under the transform they were pushed with
+      this.applyScreenTransform(state.clip.transform);
+      this.ctx.clip(state.clip.path, state.clip.fillRule);
+    }
+  }
+
+  /**
+   * Re-apply the current transform after saves were restored
+   * 保存被恢复后重新应用当前变换
+   */
+  private restoreCurrentTransform(): void {
+    this.applyScreenTransform(this.getCurrentScreenTransform());
+    this.styleManager.resetCache();
+  }
+
+  /**
+   * Saves below this depth belong to an enclosing scope and are left alone
+   * 低于此深度的保存属于外层作用域，不予处理
+   */
+  private getSaveFloor(): number {
+    const viewportFloor = this.activeViewport ? this.viewportSaveDepth : 0;
+    const scopeFloor = this.scopes.length > 0 ? this.scopes[this.scopes.length - 1].saveDepth : 0;
+    return Math.max(viewportFloor, scopeFloor);
+  }
+
+  /**
+   * Restore every save above a depth, dropping its transforms and clips
+   * 恢复指定深度以上的所有保存，丢弃其中的变换和裁剪
+   */
+  private unwindSaves(depth: number): void {
+    for (const state of this.saveStack.unwind(depth)) {
+      if (state.type === 'transform') {
+        this.transformStack.pop();
+      } else if (state.clip === this.stateClip) {
+        this.stateClip = null;
+      }
+    }
+  }
+
+  private resetCanvasStats(): void {
+    this.canvasStats = {
       drawCalls: 0,
       batchedDrawCalls: 0,
       styleChanges: 0,
       transformChanges: 0,
       textureBinds: 0,
+      culledDrawCalls: 0,
       pixelsDrawn: 0,
-      frameTime: 0
+      frameTime: 0,
+      postProcessTime: 0,
+      postProcessPassTimes: {}
     };
     this.styleManager.resetStyleChangeCount();
     this.batchManager.resetBatchedDrawCallCount();
@@ -429,7 +1918,8 @@ export class CanvasRenderer extends BaseRenderer {
   private updateStatistics(): void {
     this.canvasStats.styleChanges = this.styleManager.getStyleChangeCount();
     this.canvasStats.batchedDrawCalls = this.batchManager.getBatchedDrawCallCount();
-    this.canvasStats.pixelsDrawn = this.canvas.width * this.canvas.height;
+    const size = this.getSurfaceSize();
+    this.canvasStats.pixelsDrawn = size.width * size.height;
   }
 
   // ===== Immediate Drawing Methods =====
@@ -454,29 +1944,39 @@ export class CanvasRenderer extends BaseRenderer {
     this.ctx.beginPath();
     this.ctx.arc(centerScreen.x, centerScreen.y, radiusPixels, 0, 2 * Math.PI);
 
-    if (style.fillColor) {
+    if (PaintCache.hasFill(style)) {
       this.styleManager.applyShapeStyle(style);
       this.ctx.fill();
     }
 
-    if (style.strokeColor) {
+    if (PaintCache.hasStroke(style)) {
       this.styleManager.applyShapeStyle(style);
       this.ctx.stroke();
     }
   }
 
   private drawRectImmediate(bounds: FixedRect, style: ShapeStyle): void {
-    const screenRect = this.coordinateSystem.worldToScreenRect(bounds);
-
     this.ctx.beginPath();
-    this.ctx.rect(screenRect.x, screenRect.y, screenRect.width, screenRect.height);
 
-    if (style.fillColor) {
+    if (this.coordinateSystem.hasViewRotation()) {
+      // Rotated views turn rectangles into general quads
+      const corners = this.coordinateSystem.worldToScreenQuad(bounds);
+      this.ctx.moveTo(corners[0].x, corners[0].y);
+      for (let i = 1; i < corners.length; i++) {
+        this.ctx.lineTo(corners[i].x, corners[i].y);
+      }
+      this.ctx.closePath();
+    } else {
+      const screenRect = this.coordinateSystem.worldToScreenRect(bounds);
+      this.ctx.rect(screenRect.x, screenRect.y, screenRect.width, screenRect.height);
+    }
+
+    if (PaintCache.hasFill(style)) {
       this.styleManager.applyShapeStyle(style);
       this.ctx.fill();
     }
 
-    if (style.strokeColor) {
+    if (PaintCache.hasStroke(style)) {
       this.styleManager.applyShapeStyle(style);
       this.ctx.stroke();
     }
@@ -497,68 +1997,259 @@ export class CanvasRenderer extends BaseRenderer {
 
     this.ctx.closePath();
 
-    if (style.fillColor) {
+    if (PaintCache.hasFill(style)) {
       this.styleManager.applyShapeStyle(style);
       this.ctx.fill();
     }
 
-    if (style.strokeColor) {
+    if (PaintCache.hasStroke(style)) {
       this.styleManager.applyShapeStyle(style);
       this.ctx.stroke();
     }
   }
 
   private drawEllipseImmediate(bounds: FixedRect, style: ShapeStyle): void {
-    const screenRect = this.coordinateSystem.worldToScreenRect(bounds);
-    const centerX = screenRect.x + screenRect.width / 2;
-    const centerY = screenRect.y + screenRect.height / 2;
-    const radiusX = screenRect.width / 2;
-    const radiusY = screenRect.height / 2;
+    const halfWidth = bounds.width.divide(new Fixed(2));
+    const halfHeight = bounds.height.divide(new Fixed(2));
+    const center = this.coordinateSystem.worldToScreen(
+      new FixedVector2(bounds.x.add(halfWidth), bounds.y.add(halfHeight))
+    );
+    const radiusX = this.coordinateSystem.worldToScreenDistance(halfWidth);
+    const radiusY = this.coordinateSystem.worldToScreenDistance(halfHeight);
 
     this.ctx.beginPath();
-    this.ctx.ellipse(centerX, centerY, radiusX, radiusY, 0, 0, 2 * Math.PI);
+    this.ctx.ellipse(
+      center.x,
+      center.y,
+      radiusX,
+      radiusY,
+      this.coordinateSystem.getScreenRotation(),
+      0,
+      2 * Math.PI
+    );
 
-    if (style.fillColor) {
+    if (PaintCache.hasFill(style)) {
       this.styleManager.applyShapeStyle(style);
       this.ctx.fill();
     }
 
-    if (style.strokeColor) {
+    if (PaintCache.hasStroke(style)) {
       this.styleManager.applyShapeStyle(style);
       this.ctx.stroke();
     }
   }
 
   private drawTextImmediate(text: string, position: FixedVector2, style: TextStyle): void {
-    // Text needs special handling for Y-axis flip
-    this.ctx.save();
+    const screenPos = this.coordinateSystem.worldToScreen(position);
+    const rotated = this.coordinateSystem.hasViewRotation();
 
-    // Flip Y-axis for text rendering
-    this.ctx.scale(1, -1);
+    // Set outside the save below so the style cache stays in step with the context
+    this.styleManager.applyShadow((style as CanvasTextStyle).shadow);
 
-    this.styleManager.applyTextStyle(style);
+    // Text is drawn upright in screen space and only turns with the camera
+    if (rotated) {
+      this.ctx.save();
+      this.applyViewRotation(screenPos);
+    }
 
-    const screenPos = this.coordinateSystem.worldToScreen(position);
+    const bitmapFont = this.getBitmapFontForStyle(style);
+    if (bitmapFont) {
+      this.drawBitmapText(bitmapFont, text, screenPos, style);
+    } else {
+      this.styleManager.applyTextStyle(style);
+      if (text.includes('\n')) {
+        this.drawMultilineText(text, screenPos, style);
+      } else {
+        this.ctx.fillText(text, screenPos.x, screenPos.y);
+      }
+    }
+
+    if (rotated) {
+      this.ctx.restore();
+    }
+  }
 
-    // Note: Y coordinate is negated due to the scale(-1) above
-    this.ctx.fillText(text, screenPos.x, -screenPos.y);
+  private drawBitmapText(font: CanvasBitmapFont, text: string, screenPos: ScreenPoint, style: TextStyle): void {
+    const alpha = this.ctx.globalAlpha;
+    this.ctx.globalAlpha = alpha * style.color.a;
+    this.styleManager.applyShadow((style as CanvasTextStyle).shadow);
 
-    this.ctx.restore();
+    // Snap to whole pixels so glyphs stay crisp
+    font.draw(
+      this.ctx,
+      text,
+      Math.round(screenPos.x),
+      Math.round(screenPos.y),
+      style.fontSize.toNumber() / font.size,
+      style.textAlign || 'start',
+      style.textBaseline || 'alphabetic',
+      page => this.tintCache.getTinted(page, style.color)
+    );
+
+    this.ctx.globalAlpha = alpha;
   }
 
-  private drawTextureImmediate(texture: CanvasTexture, position: FixedVector2, style?: TextureStyle): void {
-    const screenPos = this.coordinateSystem.worldToScreen(position);
+  /**
+   * Draw system font text line by line; the baseline applies to the whole block
+   * 逐行绘制系统字体文本；基线作用于整个文本块
+   */
+  private drawMultilineText(text: string, screenPos: ScreenPoint, style: TextStyle): void {
+    const lines = text.split(/\r?\n/);
+    const lineHeight = this.getLineHeight(style, DEFAULT_TEXT_LAYOUT_OPTIONS);
+    const blockOffset = (lines.length - 1) * lineHeight;
+
+    let y = screenPos.y;
+    if (style.textBaseline === 'middle') {
+      y -= blockOffset / 2;
+    } else if (style.textBaseline === 'bottom' || style.textBaseline === 'ideographic') {
+      y -= blockOffset;
+    }
 
-    this.ctx.save();
+    for (const line of lines) {
+      this.ctx.fillText(line, screenPos.x, y);
+      y += lineHeight;
+    }
+  }
 
-    // Apply texture style if provided
-    if (style) {
-      this.applyTextureStyle(style, screenPos, texture);
+  /**
+   * Draw one laid-out line with its top-left corner at x/y in the current space
+   * 在当前空间中以x/y为左上角绘制一行已布局的文本
+   */
+  private drawLayoutLine(
+    text: string,
+    x: number,
+    y: number,
+    style: TextStyle,
+    bitmapFont: CanvasBitmapFont | undefined,
+    letterSpacing: number
+  ): void {
+    const pieces = letterSpacing !== 0
+      ? TextLayout.getCharacterOffsets(text, this.getTextMeasure(style, bitmapFont), letterSpacing)
+      : [{ text, x: 0 }];
+
+    for (const piece of pieces) {
+      if (bitmapFont) {
+        this.drawBitmapText(bitmapFont, piece.text, { x: x + piece.x, y }, { ...style, textAlign: 'left', textBaseline: 'top' });
+      } else {
+        this.ctx.fillText(piece.text, x + piece.x, y);
+      }
+    }
+  }
+
+  /**
+   * Lay out text in pixels at pixelsPerUnit
+   * 以pixelsPerUnit为比例按像素布局文本
+   */
+  private layoutText(
+    text: string,
+    style: TextStyle,
+    options: TextLayoutOptions,
+    maxLines: number = Infinity
+  ): TextLayoutResult {
+    const ppu = this.config.pixelsPerUnit;
+    const bitmapFont = this.getBitmapFontForStyle(style);
+
+    return TextLayout.layout(text, this.getTextMeasure(style, bitmapFont), {
+      maxWidth: options.maxWidth ? options.maxWidth.toNumber() * ppu : Infinity,
+      lineHeight: this.getLineHeight(style, options, bitmapFont),
+      letterSpacing: options.letterSpacing ? options.letterSpacing.toNumber() * ppu : 0,
+      maxLines: Math.min(options.maxLines ?? Infinity, maxLines),
+      wrap: options.wrap,
+      ellipsis: options.ellipsis
+    });
+  }
+
+  /**
+   * Lay out rich text runs in pixels at pixelsPerUnit
+   * 以pixelsPerUnit为比例按像素布局富文本片段
+   */
+  private layoutRichText(runs: RichTextRun[], style: TextStyle, options: TextLayoutOptions): RichTextLayoutResult {
+    const bitmapFont = this.getBitmapFontForStyle(style);
+
+    return RichText.layout(runs, {
+      baseFontSize: style.fontSize.toNumber(),
+      maxWidth: options.maxWidth ? options.maxWidth.toNumber() * this.config.pixelsPerUnit : Infinity,
+      lineHeight: options.lineHeight ?? DEFAULT_LINE_HEIGHT,
+      maxLines: options.maxLines ?? Infinity,
+      wrap: options.wrap,
+      measure: (text, run) => this.getTextMeasure(this.getRunStyle(style, run), bitmapFont)(text),
+      getIconSize: (name, fontSize) => {
+        const icon = this.textIcons.get(name);
+        return icon ? { width: (fontSize * icon.width) / icon.height, height: fontSize } : null;
+      }
+    });
+  }
+
+  /**
+   * Base text style overridden by the styles of a rich text run
+   * 被富文本片段样式覆盖的基础文本样式
+   */
+  private getRunStyle(style: TextStyle, run: RichTextTextRun): TextStyle {
+    const runStyle: CanvasTextStyle = { ...style };
+    if (run.color) {
+      // A colored run is drawn in its own color, not the base paint
+      runStyle.color = run.color;
+      delete runStyle.paint;
+    }
+    if (run.fontSize !== null) {
+      runStyle.fontSize = new Fixed(run.fontSize);
+    }
+    if (run.bold) {
+      runStyle.fontWeight = 'bold';
+    }
+    if (run.italic) {
+      runStyle.fontStyle = 'italic';
+    }
+    return runStyle;
+  }
+
+  private getTextMeasure(style: TextStyle, bitmapFont: CanvasBitmapFont | undefined): TextMeasureFunction {
+    if (bitmapFont) {
+      const scale = style.fontSize.toNumber() / bitmapFont.size;
+      return line => bitmapFont.measureLine(line) * scale;
     }
 
-    // Draw texture
-    this.ctx.drawImage(texture.source, screenPos.x, screenPos.y);
+    this.styleManager.applyTextStyle(style);
+    return line => this.ctx.measureText(line).width;
+  }
+
+  private getLineHeight(
+    style: TextStyle,
+    options: TextLayoutOptions,
+    bitmapFont: CanvasBitmapFont | undefined = this.getBitmapFontForStyle(style)
+  ): number {
+    const fontSize = style.fontSize.toNumber();
+    if (options.lineHeight !== undefined) {
+      return options.lineHeight * fontSize;
+    }
+    return bitmapFont ? bitmapFont.lineHeight * (fontSize / bitmapFont.size) : fontSize * DEFAULT_LINE_HEIGHT;
+  }
+
+  private getHorizontalAlign(style: TextStyle): TextHorizontalAlign {
+    switch (style.textAlign) {
+      case 'center':
+        return 'center';
+      case 'right':
+      case 'end':
+        return 'right';
+      default:
+        return 'left';
+    }
+  }
 
+  private getBitmapFontForStyle(style: TextStyle): CanvasBitmapFont | undefined {
+    return style.fontFamily ? this.bitmapFonts.get(style.fontFamily) : undefined;
+  }
+
+  private drawTextureImmediate(texture: CanvasTexture, position: FixedVector2, style?: TextureStyle): void {
+    const styled = this.getStyledTexture(texture, style);
+    const data: TextureDrawData = { texture: styled, image: this.getTextureSource(styled, style), position };
+    if (style) {
+      data.style = style;
+    }
+
+    this.ctx.save();
+    this.drawTextureCommand(data);
     this.ctx.restore();
   }
 
@@ -568,37 +2259,239 @@ export class CanvasRenderer extends BaseRenderer {
     destRect: FixedRect,
     style?: TextureStyle
   ): void {
-    const destScreenRect = this.coordinateSystem.worldToScreenRect(destRect);
+    const styled = this.getStyledTexture(texture, style);
+    const data: TextureDrawData = {
+      texture: styled,
+      image: this.getTextureSource(styled, style),
+      position: new FixedVector2(destRect.x, destRect.y),
+      sourceRect: {
+        x: sourceRect.x.toNumber(),
+        y: sourceRect.y.toNumber(),
+        width: sourceRect.width.toNumber(),
+        height: sourceRect.height.toNumber()
+      },
+      destRect: {
+        x: destRect.x.toNumber(),
+        y: destRect.y.toNumber(),
+        width: destRect.width.toNumber(),
+        height: destRect.height.toNumber()
+      }
+    };
+    if (style) {
+      data.style = style;
+    }
+
+    this.ctx.save();
+    this.drawTextureCommand(data);
+    this.ctx.restore();
+  }
+
+  /**
+   * Draw a whole texture or a region in the current context state
+   * 在当前上下文状态中绘制整个纹理或纹理区域
+   *
+   * Changes the transform and opacity; callers save and restore around it.
+   * 会修改变换和不透明度；调用方负责在前后保存和恢复状态。
+   */
+  private drawTextureCommand(data: TextureDrawData): void {
+    const texture = data.texture;
+    const image = data.image ?? texture.source;
+    this.noteTextureBind(image);
+    this.styleManager.overrideShadow(data.style ? (data.style as CanvasTextureStyle).shadow : undefined);
+    this.applyTextureFilter(data.style);
+
+    if (data.destRect && data.sourceRect) {
+      const dest = data.destRect;
+      const destScreenRect = this.getOrientedScreenRect(
+        new FixedRect(new Fixed(dest.x), new Fixed(dest.y), new Fixed(dest.width), new Fixed(dest.height))
+      );
+
+      // Work in texture-local space with the origin at the destination corner
+      this.ctx.translate(destScreenRect.x, destScreenRect.y);
+      this.applyViewRotation({ x: 0, y: 0 });
+
+      if (data.style) {
+        this.applyTextureStyle(data.style, destScreenRect.width, destScreenRect.height);
+      }
+
+      texture.drawRegion(
+        this.ctx,
+        image,
+        data.sourceRect.x,
+        data.sourceRect.y,
+        data.sourceRect.width,
+        data.sourceRect.height,
+        0,
+        0,
+        destScreenRect.width,
+        destScreenRect.height
+      );
+      return;
+    }
+
+    const screenPos = this.coordinateSystem.worldToScreen(data.position);
+
+    // Work in texture-local space with the origin at the draw position
+    this.ctx.translate(screenPos.x, screenPos.y);
+    this.applyViewRotation({ x: 0, y: 0 });
+
+    if (data.style) {
+      this.applyTextureStyle(data.style, texture.width, texture.height);
+    }
+
+    texture.draw(this.ctx, image, 0, 0, texture.width, texture.height);
+  }
+
+  private drawNineSliceImmediate(
+    texture: CanvasTexture,
+    bounds: FixedRect,
+    insets: NineSliceInsets,
+    options: NineSliceOptions,
+    style?: TextureStyle
+  ): void {
+    const destScreenRect = this.getOrientedScreenRect(bounds);
+
+    // Screen pixels per texture pixel: textures are authored at pixelsPerUnit
+    const texelScale = this.coordinateSystem.getPixelScale() / this.coordinateSystem.getCameraInfo().pixelsPerUnit;
 
     this.ctx.save();
+    this.styleManager.overrideShadow(undefined);
+    this.applyTextureFilter(style);
+    this.ctx.translate(destScreenRect.x, destScreenRect.y);
+    this.applyViewRotation({ x: 0, y: 0 });
 
-    // Apply texture style if provided
     if (style) {
-      this.applyTextureStyle(style, { x: destScreenRect.x, y: destScreenRect.y }, texture);
-    }
-
-    // Draw texture region
-    this.ctx.drawImage(
-      texture.source,
-      sourceRect.x.toNumber(),
-      sourceRect.y.toNumber(),
-      sourceRect.width.toNumber(),
-      sourceRect.height.toNumber(),
-      destScreenRect.x,
-      destScreenRect.y,
+      if (style.tint) {
+        this.ctx.globalAlpha *= style.tint.a;
+      }
+      if (style.opacity !== undefined) {
+        this.ctx.globalAlpha *= style.opacity;
+      }
+    }
+
+    const styled = this.getStyledTexture(texture, style);
+    const image = this.getTextureSource(styled, style);
+    this.noteTextureBind(image);
+    NineSlice.draw(
+      this.ctx,
+      styled,
+      image,
+      0,
+      0,
       destScreenRect.width,
-      destScreenRect.height
+      destScreenRect.height,
+      insets,
+      options,
+      texelScale
     );
 
     this.ctx.restore();
   }
 
-  private applyTextureStyle(style: TextureStyle, position: { x: number; y: number }, texture: CanvasTexture): void {
-    // Apply tint if specified
+  /**
+   * Get screen rectangle of a world rectangle before view rotation is applied
+   * 获取应用视图旋转之前的世界矩形的屏幕矩形
+   *
+   * The x/y pair is the screen position of the world top-left corner, so that
+   * rotating around it with applyViewRotation lands on the rotated quad.
+   * x/y为世界左上角的屏幕位置，围绕它调用applyViewRotation即可得到旋转后的四边形。
+   */
+  private getOrientedScreenRect(worldRect: FixedRect): {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  } {
+    if (!this.coordinateSystem.hasViewRotation()) {
+      return this.coordinateSystem.worldToScreenRect(worldRect);
+    }
+
+    const corners = this.coordinateSystem.worldToScreenQuad(worldRect);
+    return {
+      x: corners[0].x,
+      y: corners[0].y,
+      width: Math.hypot(corners[1].x - corners[0].x, corners[1].y - corners[0].y),
+      height: Math.hypot(corners[3].x - corners[0].x, corners[3].y - corners[0].y)
+    };
+  }
+
+  /**
+   * Count a texture bind when drawing switches to a different image source
+   * 绘制切换到不同图像源时统计一次纹理绑定
+   */
+  private noteTextureBind(image: CanvasImageSourceType): void {
+    if (image !== this.boundTextureSource) {
+      this.boundTextureSource = image;
+      this.canvasStats.textureBinds++;
+    }
+  }
+
+  /**
+   * Get texture to draw for a style, a tinted copy when the style asks for it
+   * 获取按样式绘制的纹理，样式需要着色时为着色副本
+   *
+   * Atlas regions tint only their own frame, never the whole atlas.
+   * 图集区域只对自身帧着色，不会对整个图集着色。
+   */
+  private getStyledTexture(texture: CanvasTexture, style?: TextureStyle): CanvasTexture {
+    return style && style.tint ? this.tintCache.getTintedTexture(texture, style.tint) : texture;
+  }
+
+  /**
+   * Get image to draw for a styled texture, filtered where the context cannot filter
+   * 获取按样式绘制的纹理图像，上下文不支持滤镜时使用滤镜副本
+   */
+  private getTextureSource(texture: CanvasTexture, style?: TextureStyle): CanvasImageSourceType {
+    let source = texture.source;
+
+    // Contexts without filter support draw a filtered copy instead
+    const filter = style ? (style as CanvasTextureStyle).filter : undefined;
+    if (filter && !FilterProcessor.isSupported(this.ctx)) {
+      // Textures are authored at pixelsPerUnit, so that many texels make one world unit of blur
+      const base = texture.baseTexture;
+      source = this.filterProcessor.getFiltered(
+        source,
+        base.width,
+        base.height,
+        base.version,
+        filter,
+        this.coordinateSystem.getCameraInfo().pixelsPerUnit
+      );
+    }
+    return source;
+  }
+
+  /**
+   * Set the filter of a texture draw on a context that filters natively
+   * 在原生支持滤镜的上下文上设置纹理绘制的滤镜
+   */
+  private applyTextureFilter(style?: TextureStyle): void {
+    if (!FilterProcessor.isSupported(this.ctx)) return;
+
+    const filter = style ? (style as CanvasTextureStyle).filter : undefined;
+    const css = filter ? FilterProcessor.toCss(filter, this.getFilterBlurScale()) : 'none';
+    // Texture groups draw one after another inside a single save
+    if (css !== 'none' || this.ctx.filter !== 'none') {
+      this.ctx.filter = css;
+    }
+  }
+
+  /**
+   * Get device pixels per world unit of filter blur
+   * 获取滤镜模糊每世界单位对应的设备像素
+   */
+  private getFilterBlurScale(): number {
+    return this.coordinateSystem.getPixelScale() * this.coordinateSystem.getDevicePixelRatio();
+  }
+
+  /**
+   * Apply texture style in texture-local space (origin at the draw position)
+   * 在纹理局部空间中应用纹理样式（原点位于绘制位置）
+   */
+  private applyTextureStyle(style: TextureStyle, width: number, height: number): void {
+    // Tint color is baked by the tint cache; its alpha scales opacity
     if (style.tint) {
-      // For Canvas, tinting requires creating a temporary canvas or using composite operations
-      // This is a simplified implementation
-      this.ctx.globalAlpha = style.tint.a;
+      this.ctx.globalAlpha *= style.tint.a;
     }
 
     // Apply opacity
@@ -606,37 +2499,173 @@ export class CanvasRenderer extends BaseRenderer {
       this.ctx.globalAlpha *= style.opacity;
     }
 
+    // Apply rotation (counter-clockwise in world space, so negated for screen space)
+    if (style.rotation && !style.rotation.equals(Fixed.ZERO)) {
+      this.ctx.rotate(-style.rotation.toNumber());
+    }
+
     // Apply scale
     if (style.scale) {
       this.ctx.scale(style.scale.x.toNumber(), style.scale.y.toNumber());
     }
 
-    // Apply rotation
-    if (style.rotation && !style.rotation.equals(Fixed.ZERO)) {
-      this.ctx.translate(position.x, position.y);
-      this.ctx.rotate(style.rotation.toNumber());
-      this.ctx.translate(-position.x, -position.y);
-    }
-
     // Apply anchor offset
     if (style.anchor) {
-      const offsetX = texture.width * style.anchor.x.toNumber();
-      const offsetY = texture.height * style.anchor.y.toNumber();
+      const offsetX = width * style.anchor.x.toNumber();
+      const offsetY = height * style.anchor.y.toNumber();
       this.ctx.translate(-offsetX, -offsetY);
     }
 
-    // Apply flip
+    // Apply flip within the texture's box
     if (style.flipX || style.flipY) {
-      const scaleX = style.flipX ? -1 : 1;
-      const scaleY = style.flipY ? -1 : 1;
-      this.ctx.scale(scaleX, scaleY);
+      this.ctx.translate(style.flipX ? width : 0, style.flipY ? height : 0);
+      this.ctx.scale(style.flipX ? -1 : 1, style.flipY ? -1 : 1);
+    }
+  }
 
-      if (style.flipX) {
-        this.ctx.translate(-texture.width, 0);
-      }
-      if (style.flipY) {
-        this.ctx.translate(0, -texture.height);
+  // ===== View Culling =====
+  // 视图剔除
+
+  /**
+   * Check a screen-space box against the visible area, counting culled calls
+   * 检查屏幕空间包围盒是否与可见区域相交，并统计被剔除的调用
+   *
+   * The box is first taken through the pushed transforms so that the test
+   * matches where the primitive actually lands.
+   * 包围盒会先经过已压入的变换，使检测结果与图元的实际位置一致。
+   */
+  private isScreenBoxVisible(minX: number, minY: number, maxX: number, maxY: number): boolean {
+    if (this.transformStack.length > 0) {
+      const m = this.getCurrentScreenTransform();
+      const xs = [minX, maxX, maxX, minX];
+      const ys = [minY, minY, maxY, maxY];
+      minX = Infinity;
+      minY = Infinity;
+      maxX = -Infinity;
+      maxY = -Infinity;
+      for (let i = 0; i < 4; i++) {
+        const x = m.a * xs[i] + m.c * ys[i] + m.e;
+        const y = m.b * xs[i] + m.d * ys[i] + m.f;
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
       }
     }
+
+    const area = this.coordinateSystem.getScreenArea();
+    if (maxX < area.x || minX > area.x + area.width || maxY < area.y || minY > area.y + area.height) {
+      this.canvasStats.culledDrawCalls++;
+      return false;
+    }
+    return true;
+  }
+
+  private isScreenCircleVisible(center: ScreenPoint, radius: number): boolean {
+    return this.isScreenBoxVisible(center.x - radius, center.y - radius, center.x + radius, center.y + radius);
+  }
+
+  private isWorldRectVisible(worldRect: FixedRect, margin: number): boolean {
+    const rect = this.coordinateSystem.worldToScreenRect(worldRect);
+    return this.isScreenBoxVisible(
+      rect.x - margin,
+      rect.y - margin,
+      rect.x + rect.width + margin,
+      rect.y + rect.height + margin
+    );
+  }
+
+  private isWorldPointsVisible(points: FixedVector2[], margin: number): boolean {
+    if (points.length === 0) {
+      return true;
+    }
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const point of points) {
+      const screen = this.coordinateSystem.worldToScreen(point);
+      minX = Math.min(minX, screen.x);
+      minY = Math.min(minY, screen.y);
+      maxX = Math.max(maxX, screen.x);
+      maxY = Math.max(maxY, screen.y);
+    }
+    return this.isScreenBoxVisible(minX - margin, minY - margin, maxX + margin, maxY + margin);
+  }
+
+  /**
+   * Cull text by a generous estimate of one em per character around its anchor
+   * 以锚点为中心、每个字符一个em的宽松估计剔除文本
+   */
+  private isTextVisible(text: string, position: FixedVector2, style: TextStyle): boolean {
+    const fontSize = style.fontSize.toNumber();
+    const lines = text.split('\n');
+    const longest = lines.reduce((max, line) => Math.max(max, line.length), 0);
+    const radius = Math.hypot(longest * fontSize, (lines.length + 1) * fontSize * DEFAULT_LINE_HEIGHT) +
+      this.styleManager.getShadowMargin((style as CanvasTextStyle).shadow);
+    return this.isScreenCircleVisible(this.coordinateSystem.worldToScreen(position), radius);
+  }
+
+  /**
+   * Cull a texture drawn from a screen origin, covering any style rotation
+   * 剔除从屏幕原点绘制的纹理，覆盖样式旋转的所有情况
+   */
+  private isTextureBoxVisible(origin: ScreenPoint, width: number, height: number, style?: TextureStyle): boolean {
+    let scaleX = 1;
+    let scaleY = 1;
+    let anchorX = 0;
+    let anchorY = 0;
+    if (style && style.scale) {
+      scaleX = Math.abs(style.scale.x.toNumber());
+      scaleY = Math.abs(style.scale.y.toNumber());
+    }
+    if (style && style.anchor) {
+      anchorX = style.anchor.x.toNumber();
+      anchorY = style.anchor.y.toNumber();
+    }
+
+    // Farthest corner from the origin after anchoring and scaling
+    const extentX = width * Math.max(Math.abs(anchorX), Math.abs(1 - anchorX)) * scaleX;
+    const extentY = height * Math.max(Math.abs(anchorY), Math.abs(1 - anchorY)) * scaleY;
+    return this.isScreenCircleVisible(origin, Math.hypot(extentX, extentY) + this.getTextureEffectMargin(style));
+  }
+
+  /**
+   * Get how far shadows and blurs of a texture style reach past the texture, in screen pixels
+   * 获取纹理样式的阴影和模糊超出纹理的距离（屏幕像素）
+   */
+  private getTextureEffectMargin(style?: TextureStyle): number {
+    if (!style) return 0;
+    const effects = style as CanvasTextureStyle;
+    const blur = effects.filter ? FilterProcessor.getBlurExtent(effects.filter) * this.coordinateSystem.getPixelScale() : 0;
+    return this.styleManager.getShadowMargin(effects.shadow) + blur;
+  }
+
+  private getStrokeMargin(style: CanvasShapeStyle): number {
+    // One extra pixel covers antialiasing
+    const stroke = PaintCache.hasStroke(style) && style.strokeThickness ? style.strokeThickness.toNumber() / 2 + 1 : 1;
+    return stroke + this.styleManager.getShadowMargin(style.shadow);
+  }
+
+  /**
+   * Get accumulated screen-space matrix of the pushed transforms
+   * 获取已压入变换累积的屏幕空间矩阵
+   */
+  private getCurrentScreenTransform(): ScreenTransform {
+    return this.transformStack.length > 0
+      ? this.transformStack[this.transformStack.length - 1]
+      : { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+  }
+
+  private multiplyScreenTransforms(m: ScreenTransform, n: ScreenTransform): ScreenTransform {
+    return {
+      a: m.a * n.a + m.c * n.b,
+      b: m.b * n.a + m.d * n.b,
+      c: m.a * n.c + m.c * n.d,
+      d: m.b * n.c + m.d * n.d,
+      e: m.a * n.e + m.c * n.f + m.e,
+      f: m.b * n.e + m.d * n.f + m.f
+    };
   }
 }
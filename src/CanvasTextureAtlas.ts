@@ -0,0 +1,183 @@
+/**
+ * Texture atlas for Canvas renderer (TexturePacker / Aseprite JSON)
+ * Canvas渲染器的纹理图集（TexturePacker / Aseprite JSON）
+ */
+
+import { CanvasTexture, CanvasTextureRegion } from './types/CanvasTypes';
+import {
+  AtlasData,
+  AtlasFrameArrayEntry,
+  AtlasFrameData,
+  AtlasFrameTag
+} from './types/AtlasTypes';
+
+/**
+ * Texture atlas exposing named frames as texture regions
+ * 将命名帧暴露为纹理区域的纹理图集
+ */
+export class CanvasTextureAtlas {
+  public readonly texture: CanvasTexture;
+  private regions = new Map<string, CanvasTextureRegion>();
+  private frameTags = new Map<string, AtlasFrameTag>();
+
+  constructor(texture: CanvasTexture, data: AtlasData) {
+    this.texture = texture;
+    this.parseFrames(data);
+
+    if (data.meta && data.meta.frameTags) {
+      for (const tag of data.meta.frameTags) {
+        this.frameTags.set(tag.name, tag);
+      }
+    }
+  }
+
+  /**
+   * Load atlas JSON and its image from URLs
+   * 从URL加载图集JSON及其图像
+   *
+   * When imageUrl is omitted, meta.image is resolved relative to the JSON URL.
+   * 省略imageUrl时，meta.image将相对于JSON URL解析。
+   */
+  static async fromURL(jsonUrl: string, imageUrl?: string): Promise<CanvasTextureAtlas> {
+    const response = await fetch(jsonUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to load texture atlas: ${jsonUrl} (${response.status})`);
+    }
+    const data = (await response.json()) as AtlasData;
+
+    const image = imageUrl || CanvasTextureAtlas.resolveImageUrl(jsonUrl, data);
+    const texture = await CanvasTexture.fromURL(image);
+    return new CanvasTextureAtlas(texture, data);
+  }
+
+  /**
+   * Create atlas from already loaded JSON and texture
+   * 从已加载的JSON和纹理创建图集
+   */
+  static fromJSON(texture: CanvasTexture, data: AtlasData | string): CanvasTextureAtlas {
+    const parsed = typeof data === 'string' ? (JSON.parse(data) as AtlasData) : data;
+    return new CanvasTextureAtlas(texture, parsed);
+  }
+
+  /**
+   * Get frame region by name
+   * 根据名称获取帧区域
+   */
+  getRegion(name: string): CanvasTextureRegion | undefined {
+    return this.regions.get(name);
+  }
+
+  /**
+   * Check if a frame exists
+   * 检查帧是否存在
+   */
+  hasRegion(name: string): boolean {
+    return this.regions.has(name);
+  }
+
+  /**
+   * Get all frame names in file order
+   * 按文件顺序获取所有帧名称
+   */
+  getRegionNames(): string[] {
+    return Array.from(this.regions.keys());
+  }
+
+  /**
+   * Get frames in file order, optionally only those whose name starts with a prefix
+   * 按文件顺序获取帧，可选仅返回名称以指定前缀开头的帧
+   */
+  getRegions(prefix?: string): CanvasTextureRegion[] {
+    const regions: CanvasTextureRegion[] = [];
+    for (const [name, region] of this.regions) {
+      if (!prefix || name.startsWith(prefix)) {
+        regions.push(region);
+      }
+    }
+    return regions;
+  }
+
+  /**
+   * Get Aseprite frame tag by name
+   * 根据名称获取Aseprite帧标签
+   */
+  getFrameTag(name: string): AtlasFrameTag | undefined {
+    return this.frameTags.get(name);
+  }
+
+  /**
+   * Get all Aseprite frame tags
+   * 获取所有Aseprite帧标签
+   */
+  getFrameTags(): AtlasFrameTag[] {
+    return Array.from(this.frameTags.values());
+  }
+
+  /**
+   * Get frames covered by an Aseprite frame tag, in tag order
+   * 获取Aseprite帧标签覆盖的帧（按标签顺序）
+   */
+  getTagRegions(tagName: string): CanvasTextureRegion[] {
+    const tag = this.frameTags.get(tagName);
+    if (!tag) return [];
+
+    const all = Array.from(this.regions.values());
+    return all.slice(tag.from, tag.to + 1);
+  }
+
+  /**
+   * Parse hash or array frame layouts into regions
+   * 将哈希或数组帧布局解析为区域
+   */
+  private parseFrames(data: AtlasData): void {
+    if (Array.isArray(data.frames)) {
+      for (const entry of data.frames as AtlasFrameArrayEntry[]) {
+        this.addRegion(entry.filename, entry);
+      }
+    } else {
+      for (const name of Object.keys(data.frames)) {
+        this.addRegion(name, data.frames[name]);
+      }
+    }
+  }
+
+  /**
+   * Create region for a single frame entry
+   * 为单个帧条目创建区域
+   */
+  private addRegion(name: string, data: AtlasFrameData): void {
+    const frame = {
+      x: data.frame.x,
+      y: data.frame.y,
+      width: data.frame.w,
+      height: data.frame.h
+    };
+
+    const trimmed = data.trimmed === true && data.spriteSourceSize && data.sourceSize;
+    const region = new CanvasTextureRegion(this.texture, name, frame, {
+      rotated: data.rotated === true,
+      trimOffset: trimmed && data.spriteSourceSize
+        ? { x: data.spriteSourceSize.x, y: data.spriteSourceSize.y }
+        : { x: 0, y: 0 },
+      sourceWidth: trimmed && data.sourceSize ? data.sourceSize.w : frame.width,
+      sourceHeight: trimmed && data.sourceSize ? data.sourceSize.h : frame.height,
+      ...(data.pivot ? { pivot: data.pivot } : {}),
+      ...(data.duration !== undefined ? { duration: data.duration } : {})
+    });
+
+    this.regions.set(name, region);
+  }
+
+  /**
+   * Resolve meta.image relative to the JSON URL
+   * 相对于JSON URL解析meta.image
+   */
+  private static resolveImageUrl(jsonUrl: string, data: AtlasData): string {
+    if (!data.meta || !data.meta.image) {
+      throw new Error(`Texture atlas has no meta.image: ${jsonUrl}`);
+    }
+
+    const slash = jsonUrl.lastIndexOf('/');
+    return slash >= 0 ? jsonUrl.substring(0, slash + 1) + data.meta.image : data.meta.image;
+  }
+}
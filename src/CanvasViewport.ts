@@ -0,0 +1,140 @@
+/**
+ * Canvas viewport with its own camera
+ * 拥有独立相机的Canvas视口
+ */
+
+import { Color } from '@esengine/nova-ecs-render-core';
+
+import { CanvasViewportConfig, ScreenPoint } from './types/CanvasTypes';
+import { CoordinateSystem } from './utils/CoordinateSystem';
+
+/**
+ * Default viewport configuration
+ * 默认视口配置
+ */
+export const DEFAULT_VIEWPORT_CONFIG: Pick<CanvasViewportConfig, 'clip' | 'enabled'> = {
+  clip: true,
+  enabled: true
+};
+
+/**
+ * Sub-rectangle of a canvas rendered through its own camera
+ * 通过独立相机渲染的画布子矩形
+ *
+ * Used for split-screen and picture-in-picture views. Culling and visible
+ * bounds come from the viewport's own coordinate system.
+ * 用于分屏和画中画视图。剔除和可见边界来自视口自身的坐标系。
+ */
+export class CanvasViewport {
+  public readonly id: string;
+  public readonly coordinateSystem: CoordinateSystem;
+  private config: CanvasViewportConfig;
+
+  constructor(
+    id: string,
+    config: Pick<CanvasViewportConfig, 'x' | 'y' | 'width' | 'height'> & Partial<CanvasViewportConfig>,
+    pixelsPerUnit: number = 100,
+    devicePixelRatio: number = 1
+  ) {
+    this.id = id;
+    this.config = { ...DEFAULT_VIEWPORT_CONFIG, ...config };
+    this.coordinateSystem = new CoordinateSystem(
+      pixelsPerUnit,
+      { width: config.width, height: config.height },
+      devicePixelRatio
+    );
+    this.coordinateSystem.setScreenOffset({ x: config.x, y: config.y });
+
+    if (config.cameraPosition) {
+      this.coordinateSystem.setCameraPosition(config.cameraPosition);
+    }
+    if (config.cameraZoom) {
+      this.coordinateSystem.setCameraZoom(config.cameraZoom);
+    }
+    if (config.cameraRotation) {
+      this.coordinateSystem.setCameraRotation(config.cameraRotation);
+    }
+  }
+
+  get x(): number {
+    return this.config.x;
+  }
+
+  get y(): number {
+    return this.config.y;
+  }
+
+  get width(): number {
+    return this.config.width;
+  }
+
+  get height(): number {
+    return this.config.height;
+  }
+
+  get clip(): boolean {
+    return this.config.clip;
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  get backgroundColor(): Color | undefined {
+    return this.config.backgroundColor;
+  }
+
+  /**
+   * Move or resize the viewport
+   * 移动或调整视口尺寸
+   */
+  setRect(x: number, y: number, width: number, height: number): void {
+    this.config.x = x;
+    this.config.y = y;
+    this.config.width = width;
+    this.config.height = height;
+    this.coordinateSystem.setScreenOffset({ x, y });
+    this.coordinateSystem.setCanvasSize({ width, height });
+  }
+
+  /**
+   * Enable or disable the viewport
+   * 启用或禁用视口
+   */
+  setEnabled(enabled: boolean): void {
+    this.config.enabled = enabled;
+  }
+
+  /**
+   * Enable or disable clipping to the viewport rectangle
+   * 启用或禁用视口矩形裁剪
+   */
+  setClip(clip: boolean): void {
+    this.config.clip = clip;
+  }
+
+  /**
+   * Set background color, or null for none
+   * 设置背景颜色，传入null表示无背景
+   */
+  setBackgroundColor(color: Color | null): void {
+    if (color) {
+      this.config.backgroundColor = color;
+    } else {
+      delete this.config.backgroundColor;
+    }
+  }
+
+  /**
+   * Check if a canvas pixel lies inside the viewport (e.g. for input routing)
+   * 检查画布像素是否位于视口内（例如用于输入分发）
+   */
+  containsScreenPoint(point: ScreenPoint): boolean {
+    return (
+      point.x >= this.config.x &&
+      point.x < this.config.x + this.config.width &&
+      point.y >= this.config.y &&
+      point.y < this.config.y + this.config.height
+    );
+  }
+}
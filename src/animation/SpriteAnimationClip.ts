@@ -0,0 +1,151 @@
+/**
+ * Sprite animation clip
+ * 精灵动画片段
+ */
+
+import { Fixed } from '@esengine/nova-ecs-math';
+
+import { CanvasTexture } from '../types/CanvasTypes';
+import { AnimationFrame, AnimationPlaybackMode } from '../types/AnimationTypes';
+import { CanvasTextureAtlas } from '../CanvasTextureAtlas';
+
+/**
+ * Default frame duration for atlas frames without timing (100ms)
+ * 无时间信息的图集帧的默认帧时长（100毫秒）
+ */
+const DEFAULT_FRAME_DURATION_MS = 100;
+
+/**
+ * Sequence of timed frames with a playback mode and frame events
+ * 带有播放模式和帧事件的定时帧序列
+ */
+export class SpriteAnimationClip {
+  public readonly name: string;
+  public readonly frames: readonly AnimationFrame[];
+  public readonly mode: AnimationPlaybackMode;
+  private events = new Map<number, string[]>();
+
+  constructor(name: string, frames: AnimationFrame[], mode: AnimationPlaybackMode = 'loop') {
+    if (frames.length === 0) {
+      throw new Error(`Animation clip "${name}" has no frames`);
+    }
+    for (const frame of frames) {
+      if (!frame.duration.greaterThan(Fixed.ZERO)) {
+        throw new Error(`Animation clip "${name}" has a frame without positive duration`);
+      }
+    }
+
+    this.name = name;
+    this.frames = frames.slice();
+    this.mode = mode;
+  }
+
+  /**
+   * Create clip from textures sharing one frame duration
+   * 从共享相同帧时长的纹理创建片段
+   */
+  static fromTextures(
+    name: string,
+    textures: CanvasTexture[],
+    frameDuration: Fixed,
+    mode: AnimationPlaybackMode = 'loop'
+  ): SpriteAnimationClip {
+    return new SpriteAnimationClip(
+      name,
+      textures.map(texture => ({ texture, duration: frameDuration })),
+      mode
+    );
+  }
+
+  /**
+   * Create clip from an Aseprite frame tag, using per-frame durations
+   * 从Aseprite帧标签创建片段，使用每帧时长
+   *
+   * Reverse directions are baked into the frame order.
+   * 反向播放方向会直接体现在帧顺序中。
+   */
+  static fromAtlasTag(
+    atlas: CanvasTextureAtlas,
+    tagName: string,
+    mode?: AnimationPlaybackMode
+  ): SpriteAnimationClip {
+    const tag = atlas.getFrameTag(tagName);
+    if (!tag) {
+      throw new Error(`Frame tag not found in texture atlas: ${tagName}`);
+    }
+
+    const regions = atlas.getTagRegions(tagName);
+    if (tag.direction === 'reverse' || tag.direction === 'pingpong_reverse') {
+      regions.reverse();
+    }
+
+    const frames = regions.map(region => ({
+      texture: region as CanvasTexture,
+      duration: SpriteAnimationClip.millisecondsToSeconds(region.duration ?? DEFAULT_FRAME_DURATION_MS)
+    }));
+
+    const tagMode: AnimationPlaybackMode =
+      tag.direction === 'pingpong' || tag.direction === 'pingpong_reverse' ? 'pingpong' : 'loop';
+
+    return new SpriteAnimationClip(tagName, frames, mode ?? tagMode);
+  }
+
+  /**
+   * Create clip from atlas frames whose names start with a prefix
+   * 从名称以指定前缀开头的图集帧创建片段
+   */
+  static fromAtlasPrefix(
+    atlas: CanvasTextureAtlas,
+    prefix: string,
+    frameDuration: Fixed,
+    mode: AnimationPlaybackMode = 'loop'
+  ): SpriteAnimationClip {
+    return SpriteAnimationClip.fromTextures(prefix, atlas.getRegions(prefix), frameDuration, mode);
+  }
+
+  /**
+   * Register a named event raised when playback enters a frame
+   * 注册在播放进入某帧时触发的命名事件
+   */
+  addEvent(frameIndex: number, name: string): this {
+    if (frameIndex < 0 || frameIndex >= this.frames.length) {
+      throw new Error(`Frame index ${frameIndex} out of range for clip "${this.name}"`);
+    }
+
+    const names = this.events.get(frameIndex);
+    if (names) {
+      names.push(name);
+    } else {
+      this.events.set(frameIndex, [name]);
+    }
+    return this;
+  }
+
+  /**
+   * Get event names of a frame
+   * 获取某帧的事件名称
+   */
+  getEvents(frameIndex: number): readonly string[] {
+    return this.events.get(frameIndex) || [];
+  }
+
+  /**
+   * Get duration of one pass through all frames
+   * 获取遍历所有帧一次的时长
+   */
+  getTotalDuration(): Fixed {
+    let total = Fixed.ZERO;
+    for (const frame of this.frames) {
+      total = total.add(frame.duration);
+    }
+    return total;
+  }
+
+  /**
+   * Convert exporter milliseconds to fixed-point seconds
+   * 将导出工具的毫秒转换为定点秒
+   */
+  private static millisecondsToSeconds(milliseconds: number): Fixed {
+    return new Fixed(milliseconds).divide(new Fixed(1000));
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Sprite animation player
+ * 精灵动画播放器
+ */
+
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { TextureStyle } from '@esengine/nova-ecs-render-core';
+
+import { CanvasTexture } from '../types/CanvasTypes';
+import { AnimationEvent, AnimationEventListener } from '../types/AnimationTypes';
+import { SpriteAnimationClip } from './SpriteAnimationClip';
+import { CanvasRenderer } from '../CanvasRenderer';
+
+/**
+ * Plays animation clips using fixed-point time
+ * 使用定点时间播放动画片段
+ *
+ * Advancing only with Fixed delta time keeps playback deterministic, so the
+ * same inputs produce the same frames and events on every machine.
+ * 仅使用定点增量时间推进，保证播放的确定性，相同输入在任何机器上产生相同的帧和事件。
+ */
+export class SpriteAnimationPlayer {
+  private clip: SpriteAnimationClip | null = null;
+  private frameIndex: number = 0;
+  private direction: 1 | -1 = 1;
+  private elapsed: Fixed = Fixed.ZERO;
+  private speed: Fixed = Fixed.ONE;
+  private playing: boolean = false;
+  private finished: boolean = false;
+  private listeners: AnimationEventListener[] = [];
+
+  /**
+   * Start playing a clip
+   * 开始播放片段
+   *
+   * Playing the clip that is already active continues it unless restart is set.
+   * 播放已在播放的片段时会继续播放，除非设置了restart。
+   */
+  play(clip: SpriteAnimationClip, restart: boolean = false): void {
+    if (clip === this.clip && !restart && !this.finished) {
+      this.playing = true;
+      return;
+    }
+
+    this.clip = clip;
+    this.frameIndex = 0;
+    this.direction = 1;
+    this.elapsed = Fixed.ZERO;
+    this.playing = true;
+    this.finished = false;
+
+    this.emitFrameEvents();
+  }
+
+  /**
+   * Stop playback and rewind to the first frame
+   * 停止播放并回到第一帧
+   */
+  stop(): void {
+    this.playing = false;
+    this.finished = false;
+    this.frameIndex = 0;
+    this.direction = 1;
+    this.elapsed = Fixed.ZERO;
+  }
+
+  /**
+   * Pause playback on the current frame
+   * 在当前帧暂停播放
+   */
+  pause(): void {
+    this.playing = false;
+  }
+
+  /**
+   * Resume paused playback
+   * 恢复暂停的播放
+   */
+  resume(): void {
+    if (this.clip && !this.finished) {
+      this.playing = true;
+    }
+  }
+
+  /**
+   * Set playback speed multiplier (negative plays backwards)
+   * 设置播放速度倍率（负数为倒放）
+   */
+  setSpeed(speed: Fixed): void {
+    this.speed = speed;
+  }
+
+  /**
+   * Get playback speed multiplier
+   * 获取播放速度倍率
+   */
+  getSpeed(): Fixed {
+    return this.speed;
+  }
+
+  /**
+   * Jump to a frame without raising its events
+   * 跳转到某帧，不触发其事件
+   */
+  setFrame(frameIndex: number): void {
+    if (!this.clip) return;
+
+    this.frameIndex = Math.max(0, Math.min(frameIndex, this.clip.frames.length - 1));
+    this.elapsed = Fixed.ZERO;
+  }
+
+  /**
+   * Advance playback by a fixed-point delta time in seconds
+   * 按定点增量时间（秒）推进播放
+   */
+  update(deltaTime: Fixed): void {
+    if (!this.playing || !this.clip || this.speed.equals(Fixed.ZERO)) return;
+
+    const backwards = Fixed.ZERO.greaterThan(this.speed);
+    const step = backwards ? deltaTime.multiply(this.speed.negate()) : deltaTime.multiply(this.speed);
+    this.elapsed = this.elapsed.add(step);
+
+    // Consume whole frames; elapsed >= duration
+    while (this.playing && !this.clip.frames[this.frameIndex].duration.greaterThan(this.elapsed)) {
+      this.elapsed = this.elapsed.subtract(this.clip.frames[this.frameIndex].duration);
+      this.advanceFrame(backwards ? -this.direction : this.direction);
+    }
+  }
+
+  /**
+   * Get texture of the current frame
+   * 获取当前帧的纹理
+   */
+  getCurrentFrame(): CanvasTexture | null {
+    return this.clip ? this.clip.frames[this.frameIndex].texture : null;
+  }
+
+  /**
+   * Get current frame index
+   * 获取当前帧索引
+   */
+  getFrameIndex(): number {
+    return this.frameIndex;
+  }
+
+  /**
+   * Get active clip
+   * 获取当前片段
+   */
+  getClip(): SpriteAnimationClip | null {
+    return this.clip;
+  }
+
+  /**
+   * Check if playback is running
+   * 检查是否正在播放
+   */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Check if a once clip has reached its end
+   * 检查单次播放片段是否已结束
+   */
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Add listener for frame, loop and complete events
+   * 添加帧、循环和完成事件的监听器
+   */
+  addEventListener(listener: AnimationEventListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Remove event listener
+   * 移除事件监听器
+   */
+  removeEventListener(listener: AnimationEventListener): void {
+    const index = this.listeners.indexOf(listener);
+    if (index >= 0) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Draw current frame through a Canvas renderer
+   * 通过Canvas渲染器绘制当前帧
+   */
+  draw(renderer: CanvasRenderer, position: FixedVector2, style?: TextureStyle): void {
+    const frame = this.getCurrentFrame();
+    if (frame) {
+      renderer.drawTexture(frame, position, style);
+    }
+  }
+
+  /**
+   * Move to the next frame in the given direction according to the clip mode
+   * 根据片段模式按给定方向移动到下一帧
+   */
+  private advanceFrame(step: number): void {
+    const clip = this.clip as SpriteAnimationClip;
+    const lastIndex = clip.frames.length - 1;
+    const next = this.frameIndex + step;
+
+    if (next >= 0 && next <= lastIndex) {
+      this.frameIndex = next;
+      this.emitFrameEvents();
+      return;
+    }
+
+    switch (clip.mode) {
+      case 'loop':
+        this.frameIndex = next < 0 ? lastIndex : 0;
+        this.emit('loop', 'loop');
+        this.emitFrameEvents();
+        break;
+      case 'pingpong':
+        // Bounce back from the end; a single frame clip just stays put
+        this.direction = this.direction === 1 ? -1 : 1;
+        this.frameIndex = Math.max(0, Math.min(lastIndex, this.frameIndex - step));
+        this.emit('loop', 'loop');
+        this.emitFrameEvents();
+        break;
+      case 'once':
+        this.playing = false;
+        this.finished = true;
+        this.elapsed = Fixed.ZERO;
+        this.emit('complete', 'complete');
+        break;
+    }
+  }
+
+  /**
+   * Raise events registered on the current frame
+   * 触发当前帧上注册的事件
+   */
+  private emitFrameEvents(): void {
+    if (!this.clip) return;
+
+    for (const name of this.clip.getEvents(this.frameIndex)) {
+      this.emit('frame', name);
+    }
+  }
+
+  /**
+   * Notify listeners
+   * 通知监听器
+   */
+  private emit(type: AnimationEvent['type'], name: string): void {
+    if (!this.clip || this.listeners.length === 0) return;
+
+    const event: AnimationEvent = {
+      type,
+      name,
+      clip: this.clip.name,
+      frameIndex: this.frameIndex
+    };
+    for (const listener of this.listeners.slice()) {
+      listener(event);
+    }
+  }
+}
@@ -11,6 +11,24 @@
 export { CanvasRenderer } from './CanvasRenderer';
 export { CanvasDebugRenderer } from './CanvasDebugRenderer';
 export { CanvasPhysicsDebugRenderer } from './CanvasPhysicsDebugRenderer';
+export { CanvasRenderTarget, DEFAULT_RENDER_TARGET_CONFIG } from './CanvasRenderTarget';
+export { CanvasViewport, DEFAULT_VIEWPORT_CONFIG } from './CanvasViewport';
+export { CanvasRenderLayer, DEFAULT_RENDER_LAYER_CONFIG } from './CanvasRenderLayer';
+export { CanvasTextureAtlas } from './CanvasTextureAtlas';
+export { CanvasBitmapFont } from './CanvasBitmapFont';
+
+// ===== Animation =====
+// 动画
+
+export { SpriteAnimationClip } from './animation/SpriteAnimationClip';
+export { SpriteAnimationPlayer } from './animation/SpriteAnimationPlayer';
+
+// ===== Tilemap =====
+// 瓦片地图
+
+export { CanvasTilemap, DEFAULT_TILEMAP_CONFIG } from './tilemap/CanvasTilemap';
+export { CanvasTilemapLayer } from './tilemap/CanvasTilemapLayer';
+export { CanvasTileset } from './tilemap/CanvasTileset';
 
 // ===== Types and Interfaces =====
 // 类型和接口
@@ -18,7 +36,27 @@ export { CanvasPhysicsDebugRenderer } from './CanvasPhysicsDebugRenderer';
 export type {
   ScreenPoint,
   ScreenSize,
+  ScreenTransform,
+  ScreenBounds,
+  BatchOrdering,
   CanvasRendererConfig,
+  CanvasRenderTargetConfig,
+  CanvasViewportConfig,
+  CanvasRenderLayerConfig,
+  CanvasClipShape,
+  CanvasClipPathCommand,
+  CanvasMask,
+  CanvasRenderState,
+  CanvasImageSourceType,
+  NineSliceInsets,
+  NineSliceFillMode,
+  NineSliceOptions,
+  TextHorizontalAlign,
+  TextVerticalAlign,
+  TextLayoutOptions,
+  TextLayoutParams,
+  TextLayoutLine,
+  TextLayoutResult,
   DrawCommand,
   LineDrawData,
   CircleDrawData,
@@ -32,9 +70,88 @@ export type {
   HighDPIConfig
 } from './types/CanvasTypes';
 
+export type {
+  AtlasRect,
+  AtlasSize,
+  AtlasFrameData,
+  AtlasFrameArrayEntry,
+  AtlasFrameTag,
+  AtlasMetaData,
+  AtlasData
+} from './types/AtlasTypes';
+
+export type {
+  AnimationPlaybackMode,
+  AnimationFrame,
+  AnimationEvent,
+  AnimationEventListener
+} from './types/AnimationTypes';
+
+export type {
+  BitmapFontChar,
+  BitmapFontKerning,
+  BitmapFontData
+} from './types/BitmapFontTypes';
+
+export type {
+  RichTextTextRun,
+  RichTextIconRun,
+  RichTextRun,
+  RichTextPiece,
+  RichTextLine,
+  RichTextLayoutResult
+} from './types/RichTextTypes';
+
+export type {
+  GradientStop,
+  LinearGradientPaint,
+  RadialGradientPaint,
+  ConicGradientPaint,
+  GradientPaint,
+  PatternRepeat,
+  PatternPaint,
+  CanvasPaint,
+  CanvasShadow,
+  CanvasShapeStyle,
+  CanvasLineStyle,
+  CanvasTextStyle,
+  CanvasTextureStyle
+} from './types/PaintTypes';
+
+export type {
+  BlurFilter,
+  GrayscaleFilter,
+  BrightnessFilter,
+  HueRotateFilter,
+  CanvasFilterFunction,
+  CanvasFilter
+} from './types/FilterTypes';
+
+export type {
+  VignettePass,
+  ColorGradingPass,
+  PixelatePass,
+  ScanlinesPass,
+  ChromaticAberrationPass,
+  BloomPass,
+  PostProcessPass,
+  PostProcessPassType
+} from './types/PostProcessTypes';
+
+export type {
+  TiledAnimationFrame,
+  TiledTileData,
+  TiledTilesetData,
+  TiledLayerData,
+  TiledMapData,
+  TileRef,
+  CanvasTilemapConfig
+} from './types/TilemapTypes';
+
 export {
   DEFAULT_CANVAS_CONFIG,
   CanvasTexture,
+  CanvasTextureRegion,
   CoordinateSystem as CanvasCoordinateSystem
 } from './types/CanvasTypes';
 
@@ -43,7 +160,25 @@ export {
 
 export { CoordinateSystem } from './utils/CoordinateSystem';
 export { StyleManager } from './utils/StyleManager';
+export { StyleInterner } from './utils/StyleInterner';
+export { PaintCache } from './utils/PaintCache';
+export type { PaintSpace } from './utils/PaintCache';
+export { FilterProcessor } from './utils/FilterProcessor';
+export { PostProcessPipeline } from './utils/PostProcessPipeline';
 export { BatchManager } from './utils/BatchManager';
+export { OffscreenSurface } from './utils/OffscreenSurface';
+export { TintCache } from './utils/TintCache';
+export { NineSlice, DEFAULT_NINE_SLICE_OPTIONS } from './utils/NineSlice';
+export { TextLayout, DEFAULT_TEXT_LAYOUT_OPTIONS, DEFAULT_LINE_HEIGHT } from './utils/TextLayout';
+export type { TextMeasureFunction } from './utils/TextLayout';
+export { RichText } from './utils/RichText';
+export type { RichTextLayoutParams } from './utils/RichText';
+export { BatchGrouper } from './utils/BatchGrouper';
+export type { BatchItem, BatchItemGroup } from './utils/BatchGrouper';
+export { DrawQueue } from './utils/DrawQueue';
+export type { DrawQueueLayer, DrawQueueEntry } from './utils/DrawQueue';
+export { SaveStack } from './utils/SaveStack';
+export type { SavedState, SaveStackContext } from './utils/SaveStack';
 
 // ===== Re-export Core Dependencies =====
 // 重新导出核心依赖
@@ -0,0 +1,348 @@
+/**
+ * Tilemap loaded from Tiled JSON
+ * 从Tiled JSON加载的瓦片地图
+ */
+
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+
+import { CanvasTexture } from '../types/CanvasTypes';
+import {
+  CanvasTilemapConfig,
+  TiledLayerData,
+  TiledMapData,
+  TiledTilesetData,
+  TileRef
+} from '../types/TilemapTypes';
+import { CanvasTileset } from './CanvasTileset';
+import { CanvasTilemapLayer } from './CanvasTilemapLayer';
+import { CanvasRenderer } from '../CanvasRenderer';
+
+/**
+ * Default tilemap configuration
+ * 默认瓦片地图配置
+ */
+export const DEFAULT_TILEMAP_CONFIG: CanvasTilemapConfig = {
+  chunkSize: 16,
+  pixelsPerUnit: 100,
+  useOffscreenCanvas: true
+};
+
+/**
+ * Orthogonal tilemap drawn from cached chunks
+ * 使用缓存分块绘制的正交瓦片地图
+ *
+ * The map's top-left corner sits at its world position and rows grow
+ * downwards (towards negative world Y). Only chunks intersecting the visible
+ * bounds of the renderer's camera are drawn.
+ * 地图左上角位于其世界位置，行向下增长（朝世界Y轴负方向）。仅绘制与渲染器相机可见范围相交的分块。
+ */
+export class CanvasTilemap {
+  public readonly width: number;
+  public readonly height: number;
+  public readonly tileWidth: number;
+  public readonly tileHeight: number;
+  public readonly tilesets: readonly CanvasTileset[];
+  public readonly layers: readonly CanvasTilemapLayer[];
+  private position: FixedVector2 = FixedVector2.ZERO;
+  private elapsed: Fixed = Fixed.ZERO;
+  private config: CanvasTilemapConfig;
+
+  /**
+   * @param textures - Tileset textures keyed by tileset name
+   */
+  constructor(
+    data: TiledMapData,
+    textures: Record<string, CanvasTexture>,
+    config: Partial<CanvasTilemapConfig> = {}
+  ) {
+    if (data.orientation && data.orientation !== 'orthogonal') {
+      throw new Error(`Unsupported tilemap orientation: ${data.orientation}`);
+    }
+    if (data.infinite) {
+      throw new Error('Infinite tilemaps are not supported');
+    }
+
+    this.config = { ...DEFAULT_TILEMAP_CONFIG, ...config };
+    this.width = data.width;
+    this.height = data.height;
+    this.tileWidth = data.tilewidth;
+    this.tileHeight = data.tileheight;
+
+    this.tilesets = data.tilesets.map(tileset => {
+      const texture = textures[tileset.name ?? ''];
+      if (!texture) {
+        throw new Error(`Missing texture for tileset: ${tileset.name ?? tileset.firstgid}`);
+      }
+      return new CanvasTileset(tileset, texture);
+    });
+
+    const layers: CanvasTilemapLayer[] = [];
+    this.collectLayers(data.layers, true, 1, 0, 0, layers);
+    this.layers = layers;
+  }
+
+  /**
+   * Load map JSON, external tilesets and tileset images from URLs
+   * 从URL加载地图JSON、外部图块集和图块集图像
+   *
+   * Relative paths are resolved against the file that references them.
+   * 相对路径相对于引用它们的文件进行解析。
+   */
+  static async fromURL(mapUrl: string, config: Partial<CanvasTilemapConfig> = {}): Promise<CanvasTilemap> {
+    const data = await CanvasTilemap.fetchJSON<TiledMapData>(mapUrl);
+    const textures: Record<string, CanvasTexture> = {};
+
+    const tilesets: TiledTilesetData[] = [];
+    for (const entry of data.tilesets) {
+      let tileset = entry;
+      let baseUrl = mapUrl;
+      if (entry.source) {
+        baseUrl = CanvasTilemap.resolveUrl(mapUrl, entry.source);
+        const external = await CanvasTilemap.fetchJSON<TiledTilesetData>(baseUrl);
+        tileset = { ...external, firstgid: entry.firstgid };
+        delete tileset.source;
+      }
+      if (!tileset.image) {
+        throw new Error(`Tileset has no image: ${tileset.name ?? tileset.firstgid}`);
+      }
+
+      // Tiled does not require unique tileset names; fall back to the first gid
+      const name = tileset.name && !textures[tileset.name] ? tileset.name : `#${tileset.firstgid}`;
+      tileset = { ...tileset, name };
+      textures[name] = await CanvasTexture.fromURL(CanvasTilemap.resolveUrl(baseUrl, tileset.image as string));
+      tilesets.push(tileset);
+    }
+
+    return new CanvasTilemap({ ...data, tilesets }, textures, config);
+  }
+
+  /**
+   * Create tilemap from already loaded JSON and textures
+   * 从已加载的JSON和纹理创建瓦片地图
+   */
+  static fromJSON(
+    data: TiledMapData | string,
+    textures: Record<string, CanvasTexture>,
+    config: Partial<CanvasTilemapConfig> = {}
+  ): CanvasTilemap {
+    const parsed = typeof data === 'string' ? (JSON.parse(data) as TiledMapData) : data;
+    return new CanvasTilemap(parsed, textures, config);
+  }
+
+  /**
+   * Get first layer with a name
+   * 获取指定名称的第一个图层
+   */
+  getLayer(name: string): CanvasTilemapLayer | undefined {
+    return this.layers.find(layer => layer.name === name);
+  }
+
+  /**
+   * Set world position of the map's top-left corner
+   * 设置地图左上角的世界位置
+   */
+  setPosition(position: FixedVector2): void {
+    this.position = position;
+  }
+
+  /**
+   * Get world position of the map's top-left corner
+   * 获取地图左上角的世界位置
+   */
+  getPosition(): FixedVector2 {
+    return this.position;
+  }
+
+  /**
+   * Get world size of one tile
+   * 获取单个瓦片的世界尺寸
+   */
+  getTileWorldSize(): FixedVector2 {
+    return new FixedVector2(
+      new Fixed(this.tileWidth / this.config.pixelsPerUnit),
+      new Fixed(this.tileHeight / this.config.pixelsPerUnit)
+    );
+  }
+
+  /**
+   * Convert world position to tile cell (may be outside the map)
+   * 将世界坐标转换为瓦片单元格（可能超出地图）
+   */
+  worldToTile(worldPos: FixedVector2): { column: number; row: number } {
+    const pixelX = (worldPos.x.toNumber() - this.position.x.toNumber()) * this.config.pixelsPerUnit;
+    const pixelY = (this.position.y.toNumber() - worldPos.y.toNumber()) * this.config.pixelsPerUnit;
+    return {
+      column: Math.floor(pixelX / this.tileWidth),
+      row: Math.floor(pixelY / this.tileHeight)
+    };
+  }
+
+  /**
+   * Get world rectangle covered by a tile cell
+   * 获取瓦片单元格覆盖的世界矩形
+   */
+  tileToWorldRect(column: number, row: number): FixedRect {
+    const ppu = this.config.pixelsPerUnit;
+    const width = this.tileWidth / ppu;
+    const height = this.tileHeight / ppu;
+    return new FixedRect(
+      new Fixed(this.position.x.toNumber() + column * width),
+      new Fixed(this.position.y.toNumber() - (row + 1) * height),
+      new Fixed(width),
+      new Fixed(height)
+    );
+  }
+
+  /**
+   * Set tile on a layer; only the affected chunk is redrawn
+   * 设置图层上的瓦片；只重绘受影响的分块
+   */
+  setTile(layerName: string, column: number, row: number, tile: TileRef | number | null): void {
+    const layer = this.getLayer(layerName);
+    if (!layer) {
+      throw new Error(`Tile layer not found: ${layerName}`);
+    }
+    layer.setTile(column, row, tile);
+  }
+
+  /**
+   * Advance tile animations by a fixed-point delta time in seconds
+   * 按定点增量时间（秒）推进瓦片动画
+   */
+  update(deltaTime: Fixed): void {
+    this.elapsed = this.elapsed.add(deltaTime);
+    const timeMs = Math.floor(this.elapsed.multiply(new Fixed(1000)).toNumber());
+
+    for (const layer of this.layers) {
+      layer.setAnimationTime(timeMs);
+    }
+  }
+
+  /**
+   * Draw visible chunks of all visible layers
+   * 绘制所有可见图层的可见分块
+   */
+  draw(renderer: CanvasRenderer): void {
+    const bounds = renderer.getCoordinateSystem().getVisibleBounds();
+    const ppu = this.config.pixelsPerUnit;
+    const originX = this.position.x.toNumber();
+    const originY = this.position.y.toNumber();
+
+    for (const layer of this.layers) {
+      if (!layer.visible || layer.opacity <= 0) continue;
+
+      // Visible area in layer pixels (Y down)
+      const left = (bounds.left - originX) * ppu - layer.offsetX;
+      const right = (bounds.right - originX) * ppu - layer.offsetX;
+      const top = (originY - bounds.top) * ppu - layer.offsetY;
+      const bottom = (originY - bounds.bottom) * ppu - layer.offsetY;
+
+      const chunkWidth = layer.chunkSize * layer.tileWidth;
+      const chunkHeight = layer.chunkSize * layer.tileHeight;
+      const firstColumn = Math.max(0, Math.floor(left / chunkWidth));
+      const lastColumn = Math.min(layer.chunkColumns - 1, Math.floor(right / chunkWidth));
+      const firstRow = Math.max(0, Math.floor(top / chunkHeight));
+      const lastRow = Math.min(layer.chunkRows - 1, Math.floor(bottom / chunkHeight));
+
+      const style = layer.opacity < 1 ? { opacity: layer.opacity } : undefined;
+
+      for (let chunkRow = firstRow; chunkRow <= lastRow; chunkRow++) {
+        for (let chunkColumn = firstColumn; chunkColumn <= lastColumn; chunkColumn++) {
+          const texture = layer.getChunkTexture(chunkColumn, chunkRow);
+          if (!texture) continue;
+
+          const size = layer.getChunkPixelSize(chunkColumn, chunkRow);
+          const pixelX = layer.offsetX + chunkColumn * chunkWidth;
+          const pixelY = layer.offsetY + chunkRow * chunkHeight;
+
+          renderer.drawTextureRegion(
+            texture,
+            new FixedRect(Fixed.ZERO, Fixed.ZERO, new Fixed(size.width), new Fixed(size.height)),
+            new FixedRect(
+              new Fixed(originX + pixelX / ppu),
+              new Fixed(originY - (pixelY + size.height) / ppu),
+              new Fixed(size.width / ppu),
+              new Fixed(size.height / ppu)
+            ),
+            style
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Redraw every chunk on next use (e.g. after tileset pixels changed)
+   * 在下次使用时重绘所有分块（例如图块集像素改变后）
+   */
+  invalidate(): void {
+    for (const layer of this.layers) {
+      layer.invalidate();
+    }
+  }
+
+  /**
+   * Release chunk canvases
+   * 释放分块画布
+   */
+  dispose(): void {
+    for (const layer of this.layers) {
+      layer.dispose();
+    }
+  }
+
+  /**
+   * Flatten tile layers, inheriting visibility, opacity and offsets from groups
+   * 展平瓦片图层，从图层组继承可见性、不透明度和偏移
+   */
+  private collectLayers(
+    source: TiledLayerData[],
+    visible: boolean,
+    opacity: number,
+    offsetX: number,
+    offsetY: number,
+    target: CanvasTilemapLayer[]
+  ): void {
+    for (const data of source) {
+      const layerVisible = visible && data.visible !== false;
+      const layerOpacity = opacity * (data.opacity ?? 1);
+      const layerOffsetX = offsetX + (data.offsetx ?? 0);
+      const layerOffsetY = offsetY + (data.offsety ?? 0);
+
+      if (data.type === 'group') {
+        this.collectLayers(data.layers ?? [], layerVisible, layerOpacity, layerOffsetX, layerOffsetY, target);
+        continue;
+      }
+      if (data.type !== 'tilelayer') continue;
+
+      const layer = new CanvasTilemapLayer(
+        data.name,
+        data.width ?? this.width,
+        data.height ?? this.height,
+        CanvasTilemapLayer.decodeLayerData(data),
+        this.tilesets,
+        this.tileWidth,
+        this.tileHeight,
+        this.config
+      );
+      layer.visible = layerVisible;
+      layer.opacity = layerOpacity;
+      layer.offsetX = layerOffsetX;
+      layer.offsetY = layerOffsetY;
+      target.push(layer);
+    }
+  }
+
+  private static async fetchJSON<T>(url: string): Promise<T> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load tilemap file: ${url} (${response.status})`);
+    }
+    return (await response.json()) as T;
+  }
+
+  private static resolveUrl(baseUrl: string, path: string): string {
+    const slash = baseUrl.lastIndexOf('/');
+    return slash >= 0 ? baseUrl.substring(0, slash + 1) + path : path;
+  }
+}
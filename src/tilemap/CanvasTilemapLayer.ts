@@ -0,0 +1,410 @@
+/**
+ * Tile layer with chunked render caches
+ * 带分块渲染缓存的瓦片图层
+ */
+
+/// <reference lib="dom" />
+
+import { CanvasTexture } from '../types/CanvasTypes';
+import { CanvasTilemapConfig, TiledLayerData, TileRef } from '../types/TilemapTypes';
+import { OffscreenSurface } from '../utils/OffscreenSurface';
+import { CanvasTileset } from './CanvasTileset';
+
+// Tiled stores flip flags in the three highest bits of a global tile id
+const FLIPPED_HORIZONTALLY_FLAG = 0x80000000;
+const FLIPPED_VERTICALLY_FLAG = 0x40000000;
+const FLIPPED_DIAGONALLY_FLAG = 0x20000000;
+const GID_MASK = 0x1fffffff;
+
+/**
+ * Pre-rendered block of tiles
+ * 预渲染的瓦片块
+ */
+interface TilemapChunk {
+  surface: OffscreenSurface | null;
+  texture: CanvasTexture | null;
+  dirty: boolean;
+  empty: boolean;
+  /** Animated tiles in the chunk, as tileset and local id pairs */
+  animatedTiles: Array<{ tileset: CanvasTileset; localId: number }>;
+  /** Animation time the chunk was rendered at */
+  renderedTime: number;
+}
+
+/**
+ * Grid of tiles rendered in cached chunks
+ * 以缓存分块渲染的瓦片网格
+ *
+ * Each chunk is drawn once into an off-screen canvas and redrawn only when a
+ * tile inside it changes or one of its animated tiles switches frame.
+ * 每个分块只绘制一次到离屏画布，仅当其中的瓦片改变或其动画瓦片切换帧时才重新绘制。
+ */
+export class CanvasTilemapLayer {
+  public readonly name: string;
+  public readonly width: number;
+  public readonly height: number;
+  public readonly tileWidth: number;
+  public readonly tileHeight: number;
+  public readonly chunkSize: number;
+  public visible: boolean = true;
+  public opacity: number = 1;
+  /** Layer offset in tile pixels */
+  public offsetX: number = 0;
+  public offsetY: number = 0;
+
+  private tiles: Uint32Array;
+  private tilesets: readonly CanvasTileset[];
+  private chunks: TilemapChunk[] = [];
+  private chunksX: number;
+  private chunksY: number;
+  private animationTime: number = 0;
+  private useOffscreenCanvas: boolean;
+
+  constructor(
+    name: string,
+    width: number,
+    height: number,
+    tiles: ArrayLike<number>,
+    tilesets: readonly CanvasTileset[],
+    tileWidth: number,
+    tileHeight: number,
+    config: CanvasTilemapConfig
+  ) {
+    if (tiles.length !== width * height) {
+      throw new Error(`Tile layer "${name}" has ${tiles.length} tiles, expected ${width * height}`);
+    }
+
+    this.name = name;
+    this.width = width;
+    this.height = height;
+    this.tileWidth = tileWidth;
+    this.tileHeight = tileHeight;
+    this.chunkSize = Math.max(1, Math.floor(config.chunkSize));
+    this.useOffscreenCanvas = config.useOffscreenCanvas;
+    this.tiles = new Uint32Array(tiles);
+    // Look up tilesets from the highest first gid down
+    this.tilesets = tilesets.slice().sort((a, b) => b.firstGid - a.firstGid);
+
+    this.chunksX = Math.ceil(width / this.chunkSize);
+    this.chunksY = Math.ceil(height / this.chunkSize);
+    for (let i = 0; i < this.chunksX * this.chunksY; i++) {
+      this.chunks.push({
+        surface: null,
+        texture: null,
+        dirty: true,
+        empty: false,
+        animatedTiles: [],
+        renderedTime: 0
+      });
+    }
+  }
+
+  /**
+   * Decode tile data of a Tiled layer (CSV array or uncompressed base64)
+   * 解码Tiled图层的瓦片数据（CSV数组或未压缩的base64）
+   */
+  static decodeLayerData(layer: TiledLayerData): number[] {
+    const data = layer.data;
+    if (data === undefined) {
+      return [];
+    }
+    if (Array.isArray(data)) {
+      return data;
+    }
+    if (layer.compression) {
+      throw new Error(`Compressed tile layer data is not supported: ${layer.compression} (layer "${layer.name}")`);
+    }
+
+    // Little-endian unsigned 32-bit ids
+    const binary = atob(data.trim());
+    const ids: number[] = [];
+    for (let i = 0; i + 3 < binary.length; i += 4) {
+      ids.push(
+        (binary.charCodeAt(i) |
+          (binary.charCodeAt(i + 1) << 8) |
+          (binary.charCodeAt(i + 2) << 16) |
+          (binary.charCodeAt(i + 3) << 24)) >>> 0
+      );
+    }
+    return ids;
+  }
+
+  /**
+   * Split a raw tile id into global id and flip flags
+   * 将原始瓦片ID拆分为全局ID和翻转标志
+   */
+  static decodeTile(rawId: number): TileRef {
+    return {
+      gid: (rawId & GID_MASK) >>> 0,
+      flipHorizontal: (rawId & FLIPPED_HORIZONTALLY_FLAG) !== 0,
+      flipVertical: (rawId & FLIPPED_VERTICALLY_FLAG) !== 0,
+      flipDiagonal: (rawId & FLIPPED_DIAGONALLY_FLAG) !== 0
+    };
+  }
+
+  /**
+   * Combine global id and flip flags into a raw tile id
+   * 将全局ID和翻转标志组合为原始瓦片ID
+   */
+  static encodeTile(tile: TileRef): number {
+    return (
+      ((tile.gid & GID_MASK) |
+        (tile.flipHorizontal ? FLIPPED_HORIZONTALLY_FLAG : 0) |
+        (tile.flipVertical ? FLIPPED_VERTICALLY_FLAG : 0) |
+        (tile.flipDiagonal ? FLIPPED_DIAGONALLY_FLAG : 0)) >>> 0
+    );
+  }
+
+  /**
+   * Get tile at a cell, or null outside the layer or for an empty cell
+   * 获取单元格中的瓦片，超出图层或为空时返回null
+   */
+  getTile(column: number, row: number): TileRef | null {
+    if (!this.isInside(column, row)) {
+      return null;
+    }
+
+    const rawId = this.tiles[row * this.width + column];
+    return rawId === 0 ? null : CanvasTilemapLayer.decodeTile(rawId);
+  }
+
+  /**
+   * Set tile at a cell (gid 0 or null clears it); only its chunk is redrawn
+   * 设置单元格中的瓦片（gid为0或null表示清除）；只重绘其所在分块
+   */
+  setTile(column: number, row: number, tile: TileRef | number | null): void {
+    if (!this.isInside(column, row)) {
+      throw new Error(`Tile ${column},${row} is outside layer "${this.name}"`);
+    }
+
+    const rawId = tile === null ? 0 : typeof tile === 'number' ? tile >>> 0 : CanvasTilemapLayer.encodeTile(tile);
+    const index = row * this.width + column;
+    if (this.tiles[index] === rawId) {
+      return;
+    }
+
+    this.tiles[index] = rawId;
+    this.chunks[this.getChunkIndex(Math.floor(column / this.chunkSize), Math.floor(row / this.chunkSize))].dirty = true;
+  }
+
+  /**
+   * Number of chunk columns
+   * 分块列数
+   */
+  get chunkColumns(): number {
+    return this.chunksX;
+  }
+
+  /**
+   * Number of chunk rows
+   * 分块行数
+   */
+  get chunkRows(): number {
+    return this.chunksY;
+  }
+
+  /**
+   * Get pixel size of a chunk (edge chunks may be smaller)
+   * 获取分块的像素尺寸（边缘分块可能更小）
+   */
+  getChunkPixelSize(chunkColumn: number, chunkRow: number): { width: number; height: number } {
+    const columns = Math.min(this.chunkSize, this.width - chunkColumn * this.chunkSize);
+    const rows = Math.min(this.chunkSize, this.height - chunkRow * this.chunkSize);
+    return { width: columns * this.tileWidth, height: rows * this.tileHeight };
+  }
+
+  /**
+   * Check if a chunk needs to be redrawn before its next use
+   * 检查分块在下次使用前是否需要重绘
+   */
+  isChunkDirty(chunkColumn: number, chunkRow: number): boolean {
+    const chunk = this.chunks[this.getChunkIndex(chunkColumn, chunkRow)];
+    return chunk.dirty || this.hasAnimationChanged(chunk);
+  }
+
+  /**
+   * Get cached texture of a chunk, redrawing it if needed; null for an empty chunk
+   * 获取分块的缓存纹理，必要时重绘；空分块返回null
+   */
+  getChunkTexture(chunkColumn: number, chunkRow: number): CanvasTexture | null {
+    const chunk = this.chunks[this.getChunkIndex(chunkColumn, chunkRow)];
+    if (chunk.dirty || this.hasAnimationChanged(chunk)) {
+      this.renderChunk(chunk, chunkColumn, chunkRow);
+    }
+    return chunk.empty ? null : chunk.texture;
+  }
+
+  /**
+   * Set animation clock in milliseconds; chunks with changed frames redraw lazily
+   * 设置动画时钟（毫秒）；帧发生变化的分块会延迟重绘
+   */
+  setAnimationTime(timeMs: number): void {
+    this.animationTime = timeMs;
+  }
+
+  /**
+   * Mark every chunk for redraw (e.g. after tileset pixels changed)
+   * 标记所有分块需要重绘（例如图块集像素改变后）
+   */
+  invalidate(): void {
+    for (const chunk of this.chunks) {
+      chunk.dirty = true;
+    }
+  }
+
+  /**
+   * Release chunk canvases
+   * 释放分块画布
+   */
+  dispose(): void {
+    for (const chunk of this.chunks) {
+      chunk.surface = null;
+      chunk.texture = null;
+      chunk.dirty = true;
+    }
+  }
+
+  private isInside(column: number, row: number): boolean {
+    return column >= 0 && row >= 0 && column < this.width && row < this.height;
+  }
+
+  private getChunkIndex(chunkColumn: number, chunkRow: number): number {
+    if (chunkColumn < 0 || chunkRow < 0 || chunkColumn >= this.chunksX || chunkRow >= this.chunksY) {
+      throw new Error(`Chunk ${chunkColumn},${chunkRow} is outside layer "${this.name}"`);
+    }
+    return chunkRow * this.chunksX + chunkColumn;
+  }
+
+  /**
+   * Check if any animated tile of a chunk shows another frame than when rendered
+   * 检查分块中是否有动画瓦片显示的帧与渲染时不同
+   */
+  private hasAnimationChanged(chunk: TilemapChunk): boolean {
+    for (const { tileset, localId } of chunk.animatedTiles) {
+      if (
+        tileset.getAnimatedTileId(localId, chunk.renderedTime) !==
+        tileset.getAnimatedTileId(localId, this.animationTime)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Draw all tiles of a chunk into its off-screen canvas
+   * 将分块的所有瓦片绘制到其离屏画布中
+   *
+   * Tiles taller or wider than the grid are bottom-aligned like in Tiled and
+   * are cut off at the chunk border.
+   * 比网格更高或更宽的瓦片像Tiled一样底部对齐，并在分块边界处被裁剪。
+   */
+  private renderChunk(chunk: TilemapChunk, chunkColumn: number, chunkRow: number): void {
+    const size = this.getChunkPixelSize(chunkColumn, chunkRow);
+    const startColumn = chunkColumn * this.chunkSize;
+    const startRow = chunkRow * this.chunkSize;
+    const endColumn = Math.min(startColumn + this.chunkSize, this.width);
+    const endRow = Math.min(startRow + this.chunkSize, this.height);
+
+    chunk.dirty = false;
+    chunk.renderedTime = this.animationTime;
+    chunk.animatedTiles = [];
+    chunk.empty = true;
+
+    for (let row = startRow; row < endRow && chunk.empty; row++) {
+      for (let column = startColumn; column < endColumn; column++) {
+        if (this.tiles[row * this.width + column] !== 0) {
+          chunk.empty = false;
+          break;
+        }
+      }
+    }
+    if (chunk.empty) {
+      return;
+    }
+
+    if (!chunk.surface) {
+      chunk.surface = new OffscreenSurface(size.width, size.height, this.useOffscreenCanvas);
+      chunk.texture = new CanvasTexture(chunk.surface.canvas);
+    } else {
+      chunk.surface.clear();
+    }
+
+    const ctx = chunk.surface.ctx;
+    for (let row = startRow; row < endRow; row++) {
+      for (let column = startColumn; column < endColumn; column++) {
+        const rawId = this.tiles[row * this.width + column];
+        if (rawId === 0) continue;
+
+        this.drawTile(
+          ctx,
+          chunk,
+          CanvasTilemapLayer.decodeTile(rawId),
+          (column - startColumn) * this.tileWidth,
+          (row - startRow) * this.tileHeight
+        );
+      }
+    }
+
+    (chunk.texture as CanvasTexture).markDirty();
+  }
+
+  /**
+   * Draw one tile into a chunk canvas with its flips applied
+   * 将单个瓦片应用翻转后绘制到分块画布中
+   */
+  private drawTile(
+    ctx: CanvasRenderingContext2D,
+    chunk: TilemapChunk,
+    tile: TileRef,
+    cellX: number,
+    cellY: number
+  ): void {
+    const tileset = this.findTileset(tile.gid);
+    if (!tileset) return;
+
+    let localId = tile.gid - tileset.firstGid;
+    if (tileset.isAnimated(localId)) {
+      chunk.animatedTiles.push({ tileset, localId });
+      localId = tileset.getAnimatedTileId(localId, this.animationTime);
+    }
+
+    const source = tileset.getSourceRect(localId);
+    const x = cellX;
+    const y = cellY + this.tileHeight - source.height;
+    const texture = tileset.texture;
+
+    if (!tile.flipHorizontal && !tile.flipVertical && !tile.flipDiagonal) {
+      texture.drawRegion(
+        ctx, texture.source,
+        source.x, source.y, source.width, source.height,
+        x, y, source.width, source.height
+      );
+      return;
+    }
+
+    // Flip around the tile center; the diagonal flip comes first
+    ctx.save();
+    ctx.translate(x + source.width / 2, y + source.height / 2);
+    ctx.scale(tile.flipHorizontal ? -1 : 1, tile.flipVertical ? -1 : 1);
+    if (tile.flipDiagonal) {
+      ctx.rotate(Math.PI / 2);
+      ctx.scale(1, -1);
+    }
+    texture.drawRegion(
+      ctx, texture.source,
+      source.x, source.y, source.width, source.height,
+      -source.width / 2, -source.height / 2, source.width, source.height
+    );
+    ctx.restore();
+  }
+
+  private findTileset(gid: number): CanvasTileset | undefined {
+    for (const tileset of this.tilesets) {
+      if (gid >= tileset.firstGid) {
+        return tileset.containsGid(gid) ? tileset : undefined;
+      }
+    }
+    return undefined;
+  }
+}
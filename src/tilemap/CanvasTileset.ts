@@ -0,0 +1,121 @@
+/**
+ * Tileset for tilemaps
+ * 瓦片地图图块集
+ */
+
+import { CanvasTexture } from '../types/CanvasTypes';
+import { TiledAnimationFrame, TiledTilesetData } from '../types/TilemapTypes';
+
+/**
+ * Tile animation with precomputed total duration
+ * 预先计算总时长的瓦片动画
+ */
+interface TileAnimation {
+  frames: TiledAnimationFrame[];
+  totalDuration: number;
+}
+
+/**
+ * Grid of equally sized tiles cut from one texture
+ * 从单张纹理切分的等尺寸瓦片网格
+ */
+export class CanvasTileset {
+  public readonly name: string;
+  public readonly firstGid: number;
+  public readonly texture: CanvasTexture;
+  public readonly tileWidth: number;
+  public readonly tileHeight: number;
+  public readonly tileCount: number;
+  public readonly columns: number;
+  public readonly margin: number;
+  public readonly spacing: number;
+  private animations = new Map<number, TileAnimation>();
+
+  constructor(data: TiledTilesetData, texture: CanvasTexture) {
+    if (data.source) {
+      throw new Error(`External tileset must be resolved before use: ${data.source}`);
+    }
+    if (!data.tilewidth || !data.tileheight) {
+      throw new Error(`Tileset "${data.name ?? data.firstgid}" has no tile size`);
+    }
+
+    this.name = data.name ?? '';
+    this.firstGid = data.firstgid;
+    this.texture = texture;
+    this.tileWidth = data.tilewidth;
+    this.tileHeight = data.tileheight;
+    this.margin = data.margin ?? 0;
+    this.spacing = data.spacing ?? 0;
+    this.columns = data.columns || Math.max(
+      1,
+      Math.floor((texture.width - this.margin * 2 + this.spacing) / (this.tileWidth + this.spacing))
+    );
+    this.tileCount = data.tilecount ?? this.columns * Math.max(
+      1,
+      Math.floor((texture.height - this.margin * 2 + this.spacing) / (this.tileHeight + this.spacing))
+    );
+
+    for (const tile of data.tiles ?? []) {
+      if (tile.animation && tile.animation.length > 0) {
+        const totalDuration = tile.animation.reduce((sum, frame) => sum + frame.duration, 0);
+        if (totalDuration > 0) {
+          this.animations.set(tile.id, { frames: tile.animation, totalDuration });
+        }
+      }
+    }
+  }
+
+  /**
+   * Check if a global tile id belongs to this tileset
+   * 检查全局瓦片ID是否属于此图块集
+   */
+  containsGid(gid: number): boolean {
+    return gid >= this.firstGid && gid < this.firstGid + this.tileCount;
+  }
+
+  /**
+   * Get pixel area of a tile in the tileset texture
+   * 获取瓦片在图块集纹理中的像素区域
+   */
+  getSourceRect(localId: number): { x: number; y: number; width: number; height: number } {
+    const column = localId % this.columns;
+    const row = Math.floor(localId / this.columns);
+    return {
+      x: this.margin + column * (this.tileWidth + this.spacing),
+      y: this.margin + row * (this.tileHeight + this.spacing),
+      width: this.tileWidth,
+      height: this.tileHeight
+    };
+  }
+
+  /**
+   * Check if a tile is animated
+   * 检查瓦片是否为动画瓦片
+   */
+  isAnimated(localId: number): boolean {
+    return this.animations.has(localId);
+  }
+
+  /**
+   * Get tile shown by an animated tile at a time in milliseconds
+   * 获取动画瓦片在指定时间（毫秒）显示的瓦片
+   *
+   * Non-animated tiles return their own id.
+   * 非动画瓦片返回其自身ID。
+   */
+  getAnimatedTileId(localId: number, timeMs: number): number {
+    const animation = this.animations.get(localId);
+    if (!animation) {
+      return localId;
+    }
+
+    let time = timeMs % animation.totalDuration;
+    for (const frame of animation.frames) {
+      if (time < frame.duration) {
+        return frame.tileid;
+      }
+      time -= frame.duration;
+    }
+    return animation.frames[animation.frames.length - 1].tileid;
+  }
+}
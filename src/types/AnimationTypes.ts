@@ -0,0 +1,45 @@
+/**
+ * Sprite animation types
+ * 精灵动画类型
+ */
+
+import { Fixed } from '@esengine/nova-ecs-math';
+import { CanvasTexture } from './CanvasTypes';
+
+/**
+ * Playback mode of an animation clip
+ * 动画片段的播放模式
+ */
+export type AnimationPlaybackMode = 'loop' | 'pingpong' | 'once';
+
+/**
+ * Single animation frame
+ * 单个动画帧
+ */
+export interface AnimationFrame {
+  /** Texture or atlas region shown during this frame */
+  texture: CanvasTexture;
+  /** Frame duration in seconds */
+  duration: Fixed;
+}
+
+/**
+ * Event raised by an animation player
+ * 动画播放器触发的事件
+ */
+export interface AnimationEvent {
+  /** 'frame' for clip frame events, 'loop' when a cycle restarts, 'complete' when a once clip ends */
+  type: 'frame' | 'loop' | 'complete';
+  /** Event name for frame events, otherwise the event type */
+  name: string;
+  /** Clip name */
+  clip: string;
+  /** Frame index the event belongs to */
+  frameIndex: number;
+}
+
+/**
+ * Animation event listener
+ * 动画事件监听器
+ */
+export type AnimationEventListener = (event: AnimationEvent) => void;
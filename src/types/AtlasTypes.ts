@@ -0,0 +1,85 @@
+/**
+ * Texture atlas data formats (TexturePacker / Aseprite JSON)
+ * 纹理图集数据格式（TexturePacker / Aseprite JSON）
+ */
+
+/**
+ * Rectangle as written by atlas exporters
+ * 图集导出工具写出的矩形
+ */
+export interface AtlasRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Size as written by atlas exporters
+ * 图集导出工具写出的尺寸
+ */
+export interface AtlasSize {
+  w: number;
+  h: number;
+}
+
+/**
+ * Single frame entry
+ * 单个帧条目
+ */
+export interface AtlasFrameData {
+  /** Frame area in the atlas image, in unrotated sprite orientation */
+  frame: AtlasRect;
+  /** Frame is stored rotated 90 degrees clockwise */
+  rotated?: boolean;
+  /** Transparent margins were trimmed away */
+  trimmed?: boolean;
+  /** Position and size of the trimmed content inside the original sprite */
+  spriteSourceSize?: AtlasRect;
+  /** Size of the original, untrimmed sprite */
+  sourceSize?: AtlasSize;
+  /** Normalized pivot point (TexturePacker) */
+  pivot?: { x: number; y: number };
+  /** Frame duration in milliseconds (Aseprite) */
+  duration?: number;
+}
+
+/**
+ * Frame entry in array-style exports
+ * 数组格式导出中的帧条目
+ */
+export interface AtlasFrameArrayEntry extends AtlasFrameData {
+  filename: string;
+}
+
+/**
+ * Aseprite frame tag (named animation range)
+ * Aseprite帧标签（命名的动画范围）
+ */
+export interface AtlasFrameTag {
+  name: string;
+  from: number;
+  to: number;
+  direction: 'forward' | 'reverse' | 'pingpong' | 'pingpong_reverse';
+}
+
+/**
+ * Atlas metadata
+ * 图集元数据
+ */
+export interface AtlasMetaData {
+  image?: string;
+  size?: AtlasSize;
+  scale?: string | number;
+  frameTags?: AtlasFrameTag[];
+  app?: string;
+}
+
+/**
+ * Atlas JSON in hash or array layout
+ * 哈希或数组布局的图集JSON
+ */
+export interface AtlasData {
+  frames: Record<string, AtlasFrameData> | AtlasFrameArrayEntry[];
+  meta?: AtlasMetaData;
+}
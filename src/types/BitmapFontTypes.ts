@@ -0,0 +1,54 @@
+/**
+ * Bitmap font (AngelCode BMFont) data
+ * 位图字体（AngelCode BMFont）数据
+ */
+
+/**
+ * Glyph of a bitmap font
+ * 位图字体的字形
+ */
+export interface BitmapFontChar {
+  /** Unicode code point */
+  id: number;
+  /** Glyph area in its page texture */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Offset from the pen position to the glyph's top-left corner */
+  xoffset: number;
+  yoffset: number;
+  /** Pen advance after the glyph */
+  xadvance: number;
+  /** Page texture index */
+  page: number;
+}
+
+/**
+ * Kerning pair
+ * 字距调整对
+ */
+export interface BitmapFontKerning {
+  first: number;
+  second: number;
+  amount: number;
+}
+
+/**
+ * Bitmap font description, independent of the file format it came from
+ * 位图字体描述，与其来源文件格式无关
+ */
+export interface BitmapFontData {
+  /** Font face name */
+  face: string;
+  /** Size the glyphs were rendered at, in pixels */
+  size: number;
+  /** Distance between lines in pixels */
+  lineHeight: number;
+  /** Distance from the top of a line to the baseline in pixels */
+  base: number;
+  /** Page image file names by page index */
+  pages: string[];
+  chars: BitmapFontChar[];
+  kernings: BitmapFontKerning[];
+}
@@ -5,8 +5,10 @@
 
 /// <reference lib="dom" />
 
-import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
-import { Color } from '@esengine/nova-ecs-render-core';
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { BlendMode, Color, RenderState, TextureStyle } from '@esengine/nova-ecs-render-core';
+import { CanvasFilter } from './FilterTypes';
+import { PostProcessPass, PostProcessPassType } from './PostProcessTypes';
 
 /**
  * Screen coordinates (pixels)
@@ -26,6 +28,43 @@ export interface ScreenSize {
   height: number;
 }
 
+/**
+ * 2D affine transform in Canvas setTransform order
+ * Canvas setTransform顺序的2D仿射变换
+ *
+ * x' = a * x + c * y + e, y' = b * x + d * y + f
+ */
+export interface ScreenTransform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+/**
+ * Axis-aligned box in screen pixels
+ * 屏幕像素中的轴对齐包围盒
+ */
+export interface ScreenBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * How the batch manager may merge compatible commands
+ * 批量管理器合并兼容命令的方式
+ *
+ * - 'adjacent': only consecutive commands, exactly keeping call order
+ * - 'non-overlapping': also earlier commands, unless a command drawn in
+ *   between overlaps; output still matches unbatched drawing
+ * - 'unordered': every command with the same style, which may reorder overlapping draws
+ */
+export type BatchOrdering = 'adjacent' | 'non-overlapping' | 'unordered';
+
 /**
  * Canvas renderer configuration
  * Canvas渲染器配置
@@ -45,12 +84,46 @@ export interface CanvasRendererConfig {
   
   /** Maximum batch size (default: 1000) */
   maxBatchSize: number;
+
+  /**
+   * Which batched commands may be merged (default: 'non-overlapping').
+   * Earlier versions merged every command with the same style; use 'unordered' for that.
+   * 可合并哪些批量命令（默认：'non-overlapping'）。早期版本会合并所有相同样式的命令；如需该行为请使用'unordered'。
+   */
+  batchOrdering: BatchOrdering;
   
   /** Background color (default: transparent) */
   backgroundColor?: Color;
   
   /** Enable antialiasing (default: true) */
   enableAntialiasing: boolean;
+
+  /** Maximum number of cached tinted textures (default: 256) */
+  tintCacheSize: number;
+
+  /** Skip draw calls that fall outside the visible screen area (default: true) */
+  enableCulling: boolean;
+
+  /** Full-frame passes run in order before the frame is shown (default: none) */
+  postProcessing: PostProcessPass[];
+}
+
+/**
+ * Render target configuration
+ * 渲染目标配置
+ */
+export interface CanvasRenderTargetConfig {
+  /** Pixels per world unit (default: renderer's pixelsPerUnit) */
+  pixelsPerUnit: number;
+
+  /** Use OffscreenCanvas when available (default: true) */
+  useOffscreenCanvas: boolean;
+
+  /** Enable antialiasing (default: true) */
+  enableAntialiasing: boolean;
+
+  /** Enable style caching for performance (default: true) */
+  enableStyleCaching: boolean;
 }
 
 /**
@@ -63,7 +136,105 @@ export const DEFAULT_CANVAS_CONFIG: CanvasRendererConfig = {
   enableStyleCaching: true,
   enableBatchRendering: true,
   maxBatchSize: 1000,
-  enableAntialiasing: true
+  batchOrdering: 'non-overlapping',
+  enableAntialiasing: true,
+  tintCacheSize: 256,
+  enableCulling: true,
+  postProcessing: []
+};
+
+/**
+ * Viewport configuration (sub-rectangle of the canvas with its own camera)
+ * 视口配置（画布的子矩形，拥有独立相机）
+ */
+export interface CanvasViewportConfig {
+  /** Left edge in canvas pixels */
+  x: number;
+
+  /** Top edge in canvas pixels */
+  y: number;
+
+  /** Width in canvas pixels */
+  width: number;
+
+  /** Height in canvas pixels */
+  height: number;
+
+  /** Clip drawing to the viewport rectangle (default: true) */
+  clip: boolean;
+
+  /** Render this viewport in renderViewports (default: true) */
+  enabled: boolean;
+
+  /** Background color filled when the viewport begins (default: none) */
+  backgroundColor?: Color;
+
+  /** Initial camera position (default: origin) */
+  cameraPosition?: FixedVector2;
+
+  /** Initial camera zoom (default: 1) */
+  cameraZoom?: Fixed;
+
+  /** Initial camera rotation in radians (default: 0) */
+  cameraRotation?: Fixed;
+}
+
+/**
+ * Render layer configuration
+ * 渲染层配置
+ */
+export interface CanvasRenderLayerConfig {
+  /** Layers with a lower order are drawn first (default: 0) */
+  order: number;
+
+  /** Draw the layer's queued commands (default: true) */
+  visible: boolean;
+
+  /** Multiplies the opacity of every draw on the layer (default: 1) */
+  opacity: number;
+
+  /** Blend mode for the layer's draws, or null to keep each draw's own (default: null) */
+  blendMode: BlendMode | null;
+}
+
+/**
+ * Path command of a clip shape, in world coordinates
+ * 裁剪形状的路径命令（世界坐标）
+ */
+export type CanvasClipPathCommand =
+  | { type: 'moveTo'; point: FixedVector2 }
+  | { type: 'lineTo'; point: FixedVector2 }
+  | { type: 'quadraticCurveTo'; control: FixedVector2; point: FixedVector2 }
+  | { type: 'bezierCurveTo'; control1: FixedVector2; control2: FixedVector2; point: FixedVector2 }
+  | { type: 'closePath' };
+
+/**
+ * Region that limits drawing, in world coordinates
+ * 限制绘制的区域（世界坐标）
+ */
+export type CanvasClipShape =
+  | { type: 'rect'; bounds: FixedRect }
+  | { type: 'circle'; center: FixedVector2; radius: Fixed }
+  | { type: 'polygon'; vertices: FixedVector2[] }
+  | { type: 'path'; commands: CanvasClipPathCommand[] };
+
+/**
+ * Alpha source that masked drawing shows through
+ * 遮罩绘制所透过的Alpha来源
+ */
+export type CanvasMask =
+  | { type: 'texture'; texture: CanvasTexture; bounds: FixedRect }
+  | { type: 'shape'; shape: CanvasClipShape; fillRule?: CanvasFillRule };
+
+/**
+ * Render state with access to every Canvas composite operation, and filters
+ * 可使用所有Canvas合成操作和滤镜的渲染状态
+ */
+export type CanvasRenderState = RenderState & {
+  /** Used instead of blendMode, e.g. 'difference', 'hue' or 'destination-out' to erase; unknown names fall back to blendMode */
+  compositeOperation?: GlobalCompositeOperation;
+  /** Filters applied to everything drawn under this state, as one image */
+  filter?: CanvasFilter;
 };
 
 /**
@@ -74,6 +245,10 @@ export interface DrawCommand {
   type: 'line' | 'circle' | 'rect' | 'polygon' | 'text' | 'texture';
   data: unknown;
   style: unknown;
+  /** Screen area the command may touch, or null when unknown */
+  bounds: ScreenBounds | null;
+  /** Pushed transforms in effect when the command was added */
+  transform: ScreenTransform;
 }
 
 /**
@@ -128,6 +303,7 @@ export interface TextDrawData {
  */
 export interface TextureDrawData {
   texture: CanvasTexture;
+  /** World position of the texture origin; for region draws, the destination corner */
   position: FixedVector2;
   sourceRect?: {
     x: number;
@@ -135,28 +311,97 @@ export interface TextureDrawData {
     width: number;
     height: number;
   };
+  /** World rectangle a region is drawn into */
   destRect?: {
     x: number;
     y: number;
     width: number;
     height: number;
   };
+  /** Pixels to draw when not the texture source itself, e.g. a tinted copy */
+  image?: CanvasImageSourceType;
+  style?: TextureStyle;
 }
 
+/**
+ * Image sources a Canvas texture can wrap
+ * Canvas纹理可包装的图像源
+ */
+export type CanvasImageSourceType =
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | ImageBitmap
+  | OffscreenCanvas;
+
 /**
  * Canvas texture implementation
  * Canvas纹理实现
  */
 export class CanvasTexture {
-  public readonly width: number;
-  public readonly height: number;
   public readonly isLoaded: boolean = true;
-  public readonly source: HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+  public readonly source: CanvasImageSourceType;
+  private textureWidth: number;
+  private textureHeight: number;
+  private contentVersion: number = 0;
 
-  constructor(source: HTMLImageElement | HTMLCanvasElement | ImageBitmap) {
+  constructor(
+    source: CanvasImageSourceType,
+    width: number = source.width,
+    height: number = source.height
+  ) {
     this.source = source;
-    this.width = source.width;
-    this.height = source.height;
+    this.textureWidth = width;
+    this.textureHeight = height;
+  }
+
+  /**
+   * Texture width in pixels
+   * 纹理宽度（像素）
+   */
+  get width(): number {
+    return this.textureWidth;
+  }
+
+  /**
+   * Texture height in pixels
+   * 纹理高度（像素）
+   */
+  get height(): number {
+    return this.textureHeight;
+  }
+
+  /**
+   * Change the size after the source was resized in place (e.g. a render target canvas)
+   * 在源被原地调整尺寸后（如渲染目标画布）更改纹理尺寸
+   */
+  setSize(width: number, height: number): void {
+    this.textureWidth = width;
+    this.textureHeight = height;
+    this.markDirty();
+  }
+
+  /**
+   * Texture owning the pixels (itself, or the atlas of a region)
+   * 拥有像素的纹理（自身，或区域所属的图集）
+   */
+  get baseTexture(): CanvasTexture {
+    return this;
+  }
+
+  /**
+   * Content version, bumped whenever the source pixels change
+   * 内容版本，源像素变化时递增
+   */
+  get version(): number {
+    return this.contentVersion;
+  }
+
+  /**
+   * Mark source pixels as changed so derived caches (e.g. tints) are rebuilt
+   * 标记源像素已更改，使派生缓存（如着色）重新生成
+   */
+  markDirty(): void {
+    this.contentVersion++;
   }
 
   /**
@@ -187,6 +432,274 @@ export class CanvasTexture {
   static fromImageBitmap(bitmap: ImageBitmap): CanvasTexture {
     return new CanvasTexture(bitmap);
   }
+
+  /**
+   * Draw the whole texture into a box
+   * 将整个纹理绘制到矩形框中
+   *
+   * The image argument replaces the base texture's pixels, e.g. with a tinted copy.
+   * image参数用于替换基础纹理的像素，例如着色副本。
+   */
+  draw(
+    ctx: CanvasRenderingContext2D,
+    image: CanvasImageSourceType,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    this.drawRegion(ctx, image, 0, 0, this.width, this.height, x, y, width, height);
+  }
+
+  /**
+   * Draw part of the texture, given in texture pixels, into a box
+   * 将纹理的一部分（以纹理像素表示）绘制到矩形框中
+   */
+  drawRegion(
+    ctx: CanvasRenderingContext2D,
+    image: CanvasImageSourceType,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number
+  ): void {
+    ctx.drawImage(image, sx, sy, sw, sh, dx, dy, dw, dh);
+  }
+}
+
+/**
+ * Named region of a texture atlas, with trimming and rotation undone on draw
+ * 纹理图集中的命名区域，绘制时还原裁剪和旋转
+ *
+ * Width and height are the original sprite size before trimming, so anchors
+ * and flips behave as if the sprite were a standalone image.
+ * 宽高为裁剪前的原始精灵尺寸，因此锚点和翻转的行为与独立图像一致。
+ */
+export class CanvasTextureRegion extends CanvasTexture {
+  public readonly name: string;
+  public readonly atlasTexture: CanvasTexture;
+  /** Content area in the atlas image, in unrotated sprite orientation */
+  public readonly frame: { x: number; y: number; width: number; height: number };
+  /** Content is stored rotated 90 degrees clockwise in the atlas */
+  public readonly rotated: boolean;
+  /** Offset of the trimmed content inside the original sprite */
+  public readonly trimOffset: ScreenPoint;
+  /** Normalized pivot suggested by the exporter */
+  public readonly pivot: { x: number; y: number } | null;
+  /** Frame duration in milliseconds, when provided by the exporter */
+  public readonly duration: number | null;
+
+  constructor(
+    atlasTexture: CanvasTexture,
+    name: string,
+    frame: { x: number; y: number; width: number; height: number },
+    options: {
+      rotated?: boolean;
+      trimOffset?: ScreenPoint;
+      sourceWidth?: number;
+      sourceHeight?: number;
+      pivot?: { x: number; y: number };
+      duration?: number;
+    } = {}
+  ) {
+    super(
+      atlasTexture.source,
+      options.sourceWidth ?? frame.width,
+      options.sourceHeight ?? frame.height
+    );
+    this.atlasTexture = atlasTexture;
+    this.name = name;
+    this.frame = frame;
+    this.rotated = options.rotated ?? false;
+    this.trimOffset = options.trimOffset ?? { x: 0, y: 0 };
+    this.pivot = options.pivot ?? null;
+    this.duration = options.duration ?? null;
+  }
+
+  get baseTexture(): CanvasTexture {
+    return this.atlasTexture.baseTexture;
+  }
+
+  drawRegion(
+    ctx: CanvasRenderingContext2D,
+    image: CanvasImageSourceType,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number
+  ): void {
+    if (sw <= 0 || sh <= 0) return;
+
+    // Clamp the requested area to the trimmed content; the rest is transparent
+    const left = Math.max(sx, this.trimOffset.x);
+    const top = Math.max(sy, this.trimOffset.y);
+    const right = Math.min(sx + sw, this.trimOffset.x + this.frame.width);
+    const bottom = Math.min(sy + sh, this.trimOffset.y + this.frame.height);
+    if (right <= left || bottom <= top) return;
+
+    const scaleX = dw / sw;
+    const scaleY = dh / sh;
+    const destX = dx + (left - sx) * scaleX;
+    const destY = dy + (top - sy) * scaleY;
+    const destWidth = (right - left) * scaleX;
+    const destHeight = (bottom - top) * scaleY;
+
+    // Area relative to the content's top-left corner
+    const localX = left - this.trimOffset.x;
+    const localY = top - this.trimOffset.y;
+    const localWidth = right - left;
+    const localHeight = bottom - top;
+
+    if (!this.rotated) {
+      ctx.drawImage(
+        image,
+        this.frame.x + localX,
+        this.frame.y + localY,
+        localWidth,
+        localHeight,
+        destX,
+        destY,
+        destWidth,
+        destHeight
+      );
+      return;
+    }
+
+    // Clockwise-rotated content: sprite point (px, py) is stored at (h - py, px)
+    const atlasX = this.frame.x + (this.frame.height - (localY + localHeight));
+    const atlasY = this.frame.y + localX;
+
+    ctx.save();
+    ctx.translate(destX, destY + destHeight);
+    ctx.rotate(-Math.PI / 2);
+    ctx.drawImage(image, atlasX, atlasY, localHeight, localWidth, 0, 0, destHeight, destWidth);
+    ctx.restore();
+  }
+}
+
+/**
+ * Nine-slice border insets in texture pixels
+ * 九宫格边框内边距（纹理像素）
+ */
+export interface NineSliceInsets {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * How nine-slice edges and center fill their area
+ * 九宫格边缘和中心填充区域的方式
+ */
+export type NineSliceFillMode = 'stretch' | 'tile';
+
+/**
+ * Nine-slice drawing options
+ * 九宫格绘制选项
+ */
+export interface NineSliceOptions {
+  /** Fill mode of the center (default: 'stretch') */
+  centerMode: NineSliceFillMode;
+
+  /** Fill mode of the edges (default: 'stretch') */
+  edgeMode: NineSliceFillMode;
+
+  /** Scale of borders relative to one texture pixel per screen pixel at zoom 1 (default: 1) */
+  borderScale: number;
+
+  /** Draw the center slice (default: true) */
+  drawCenter: boolean;
+}
+
+/**
+ * Horizontal alignment of text lines inside a layout box
+ * 布局框内文本行的水平对齐方式
+ */
+export type TextHorizontalAlign = 'left' | 'center' | 'right';
+
+/**
+ * Vertical alignment of a text block inside a layout box
+ * 布局框内文本块的垂直对齐方式
+ */
+export type TextVerticalAlign = 'top' | 'middle' | 'bottom';
+
+/**
+ * Text layout options
+ * 文本布局选项
+ */
+export interface TextLayoutOptions {
+  /** Maximum line width in world units (default: box width for text boxes, otherwise unlimited) */
+  maxWidth?: Fixed;
+
+  /** Wrap lines longer than maxWidth at spaces, breaking long words (default: true) */
+  wrap: boolean;
+
+  /** Line height as a multiple of the font size (default: 1.2, or the bitmap font's line height) */
+  lineHeight?: number;
+
+  /** Extra space between characters in world units (default: 0) */
+  letterSpacing?: Fixed;
+
+  /** Horizontal alignment (default: derived from the text style's textAlign) */
+  horizontalAlign?: TextHorizontalAlign;
+
+  /** Vertical alignment inside a text box (default: 'top') */
+  verticalAlign: TextVerticalAlign;
+
+  /** Text appended to truncated lines, or null to cut without a marker (default: '…') */
+  ellipsis: string | null;
+
+  /** Maximum number of lines; text boxes also stop at their height (default: unlimited) */
+  maxLines?: number;
+}
+
+/**
+ * Text layout parameters in pixels
+ * 以像素为单位的文本布局参数
+ */
+export interface TextLayoutParams {
+  /** Maximum line width (Infinity for none) */
+  maxWidth: number;
+  lineHeight: number;
+  letterSpacing: number;
+  /** Maximum number of lines (Infinity for none) */
+  maxLines: number;
+  wrap: boolean;
+  ellipsis: string | null;
+}
+
+/**
+ * Single laid-out line
+ * 单个已布局的文本行
+ */
+export interface TextLayoutLine {
+  text: string;
+  /** Line width in pixels including letter spacing */
+  width: number;
+}
+
+/**
+ * Result of laying out a text block
+ * 文本块布局结果
+ */
+export interface TextLayoutResult {
+  lines: TextLayoutLine[];
+  /** Width of the widest line in pixels */
+  width: number;
+  /** Height of all lines in pixels */
+  height: number;
+  lineHeight: number;
+  /** Lines were dropped or shortened to fit */
+  truncated: boolean;
 }
 
 /**
@@ -194,16 +707,21 @@ export class CanvasTexture {
  * 样式缓存条目
  */
 export interface StyleCacheEntry {
-  strokeStyle?: string;
-  fillStyle?: string;
+  strokeStyle?: string | CanvasGradient | CanvasPattern;
+  fillStyle?: string | CanvasGradient | CanvasPattern;
   lineWidth?: number;
   lineCap?: CanvasLineCap;
   lineJoin?: CanvasLineJoin;
+  lineDash?: number[];
   font?: string;
   textAlign?: CanvasTextAlign;
   textBaseline?: CanvasTextBaseline;
   globalAlpha?: number;
   globalCompositeOperation?: GlobalCompositeOperation;
+  shadowColor?: string;
+  shadowBlur?: number;
+  shadowOffsetX?: number;
+  shadowOffsetY?: number;
 }
 
 /**
@@ -225,12 +743,20 @@ export interface VisibleBounds {
  */
 export interface CanvasRenderStats {
   drawCalls: number;
+  /** Context fill, stroke and draw calls made while executing batches */
   batchedDrawCalls: number;
   styleChanges: number;
   transformChanges: number;
+  /** Switches between texture sources while drawing */
   textureBinds: number;
+  /** Draw calls skipped by view culling */
+  culledDrawCalls: number;
   pixelsDrawn: number;
   frameTime: number;
+  /** Milliseconds spent in post-processing passes */
+  postProcessTime: number;
+  /** Milliseconds spent in each type of post-processing pass */
+  postProcessPassTimes: Partial<Record<PostProcessPassType, number>>;
 }
 
 /**
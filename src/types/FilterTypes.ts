@@ -0,0 +1,58 @@
+/**
+ * Filter types: CSS-style filter functions applied to drawn pixels
+ * 滤镜类型：应用于绘制像素的CSS风格滤镜函数
+ */
+
+import { Fixed } from '@esengine/nova-ecs-math';
+
+/**
+ * Gaussian blur
+ * 高斯模糊
+ */
+export interface BlurFilter {
+  type: 'blur';
+  /** Standard deviation in world units, so the blur follows camera zoom */
+  radius: Fixed;
+}
+
+/**
+ * Conversion towards gray
+ * 向灰度转换
+ */
+export interface GrayscaleFilter {
+  type: 'grayscale';
+  /** 0 leaves colors unchanged, 1 is fully gray */
+  amount: number;
+}
+
+/**
+ * Linear brightness scaling
+ * 线性亮度缩放
+ */
+export interface BrightnessFilter {
+  type: 'brightness';
+  /** 1 leaves colors unchanged, 0 is black, above 1 brightens */
+  amount: number;
+}
+
+/**
+ * Rotation of hues around the color wheel
+ * 沿色轮旋转色相
+ */
+export interface HueRotateFilter {
+  type: 'hue-rotate';
+  /** Angle in radians */
+  angle: Fixed;
+}
+
+/**
+ * Single filter function
+ * 单个滤镜函数
+ */
+export type CanvasFilterFunction = BlurFilter | GrayscaleFilter | BrightnessFilter | HueRotateFilter;
+
+/**
+ * Filter functions applied in order, like a CSS filter list
+ * 按顺序应用的滤镜函数，与CSS滤镜列表相同
+ */
+export type CanvasFilter = CanvasFilterFunction[];
@@ -0,0 +1,145 @@
+/**
+ * Paint types: gradients and patterns used in place of solid colors, and shadows
+ * 绘制类型：代替纯色使用的渐变和图案，以及阴影
+ */
+
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { Color, LineStyle, ShapeStyle, TextStyle, TextureStyle } from '@esengine/nova-ecs-render-core';
+import { CanvasTexture } from './CanvasTypes';
+import { CanvasFilter } from './FilterTypes';
+
+/**
+ * Color at a position along a gradient
+ * 渐变上某个位置的颜色
+ */
+export interface GradientStop {
+  /** Position from 0 (start) to 1 (end) */
+  offset: number;
+  color: Color;
+}
+
+/**
+ * Gradient along a line, in world coordinates
+ * 沿直线的渐变（世界坐标）
+ */
+export interface LinearGradientPaint {
+  type: 'linear-gradient';
+  start: FixedVector2;
+  end: FixedVector2;
+  stops: GradientStop[];
+}
+
+/**
+ * Gradient between two circles, in world coordinates
+ * 两个圆之间的渐变（世界坐标）
+ */
+export interface RadialGradientPaint {
+  type: 'radial-gradient';
+  /** Center of the outer circle, where the last stop is reached */
+  center: FixedVector2;
+  radius: Fixed;
+  /** Center of the inner circle (default: center) */
+  innerCenter?: FixedVector2;
+  /** Radius of the inner circle, where the first stop is (default: 0) */
+  innerRadius?: Fixed;
+  stops: GradientStop[];
+}
+
+/**
+ * Gradient sweeping around a point, in world coordinates
+ * 围绕一点扫过的渐变（世界坐标）
+ */
+export interface ConicGradientPaint {
+  type: 'conic-gradient';
+  center: FixedVector2;
+  /** World angle of the first stop in radians; the sweep runs clockwise on screen */
+  angle: Fixed;
+  stops: GradientStop[];
+}
+
+/**
+ * Gradient paint
+ * 渐变绘制
+ */
+export type GradientPaint = LinearGradientPaint | RadialGradientPaint | ConicGradientPaint;
+
+/**
+ * Directions a pattern tile repeats in
+ * 图案图块的重复方向
+ */
+export type PatternRepeat = 'repeat' | 'repeat-x' | 'repeat-y' | 'no-repeat';
+
+/**
+ * Texture repeated across the filled area, locked to world coordinates
+ * 在填充区域内重复的纹理，锁定在世界坐标中
+ */
+export interface PatternPaint {
+  type: 'pattern';
+  texture: CanvasTexture;
+  /** How the tile repeats (default: 'repeat') */
+  repeat?: PatternRepeat;
+  /** World position of the tile's top-left corner (default: origin) */
+  offset?: FixedVector2;
+  /** World size of one texture pixel (default: 1 / pixelsPerUnit on both axes) */
+  scale?: FixedVector2;
+  /** Counter-clockwise rotation of the tiles in radians (default: 0) */
+  rotation?: Fixed;
+}
+
+/**
+ * Paint used in place of a solid color
+ * 代替纯色使用的绘制
+ */
+export type CanvasPaint = GradientPaint | PatternPaint;
+
+/**
+ * Drop shadow or glow cast behind a draw
+ * 绘制在图形后方的投影或发光
+ *
+ * Blur and offset are in world units, so they follow camera zoom. A shadow
+ * without an offset spreads evenly around the shape as a glow.
+ * 模糊和偏移以世界单位表示，因此随相机缩放变化。没有偏移的阴影会均匀分布在形状周围，形成发光效果。
+ */
+export interface CanvasShadow {
+  color: Color;
+  /** Blur radius (default: 0, a hard shadow) */
+  blur?: Fixed;
+  /** Shadow position relative to the shape, Y up (default: none) */
+  offset?: FixedVector2;
+}
+
+/**
+ * Shape style whose fill and stroke can be paints; a paint overrides the color
+ * 填充和描边可使用绘制的形状样式；绘制优先于颜色
+ */
+export type CanvasShapeStyle = ShapeStyle & {
+  fillPaint?: CanvasPaint;
+  strokePaint?: CanvasPaint;
+  shadow?: CanvasShadow;
+};
+
+/**
+ * Line style whose stroke can be a paint; the paint overrides the color
+ * 描边可使用绘制的线条样式；绘制优先于颜色
+ */
+export type CanvasLineStyle = LineStyle & {
+  paint?: CanvasPaint;
+};
+
+/**
+ * Text style whose fill can be a paint; the paint overrides the color
+ * 填充可使用绘制的文本样式；绘制优先于颜色
+ */
+export type CanvasTextStyle = TextStyle & {
+  paint?: CanvasPaint;
+  shadow?: CanvasShadow;
+};
+
+/**
+ * Texture style that can cast a shadow and be filtered
+ * 可投射阴影并可应用滤镜的纹理样式
+ */
+export type CanvasTextureStyle = TextureStyle & {
+  shadow?: CanvasShadow;
+  filter?: CanvasFilter;
+};
@@ -0,0 +1,113 @@
+/**
+ * Post-processing types: full-frame passes run before the frame is presented
+ * 后期处理类型：在呈现帧之前运行的全帧处理阶段
+ */
+
+import { Color } from '@esengine/nova-ecs-render-core';
+import { CanvasTexture } from './CanvasTypes';
+
+/**
+ * Settings shared by every pass
+ * 所有处理阶段共享的设置
+ */
+interface PostProcessPassBase {
+  /** Run this pass (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * Darkened frame edges
+ * 变暗的画面边缘
+ */
+export interface VignettePass extends PostProcessPassBase {
+  type: 'vignette';
+  /** Opacity of the color at the corners, 0 to 1 (default: 0.5) */
+  strength?: number;
+  /** Fraction of the center-to-corner distance left untouched (default: 0.5) */
+  radius?: number;
+  /** Color the edges fade to (default: black) */
+  color?: Color;
+}
+
+/**
+ * Color grading through a lookup table
+ * 通过查找表进行调色
+ *
+ * The table is a strip of size x size squares, one per blue level from left
+ * to right, with red along x and green along y inside each square (e.g.
+ * 256 x 16 for 16 levels). Grading runs on pixels and is the costliest pass.
+ * 查找表是一条由size x size方块组成的条带，从左到右每个方块对应一个蓝色级别，方块内x方向为红色、y方向为绿色
+ * （例如16个级别为256 x 16）。调色在像素上运行，是开销最大的处理阶段。
+ */
+export interface ColorGradingPass extends PostProcessPassBase {
+  type: 'color-grading';
+  lut: CanvasTexture;
+  /** Blend between the original (0) and graded (1) colors (default: 1) */
+  intensity?: number;
+}
+
+/**
+ * Frame drawn with large square pixels
+ * 以大方块像素绘制画面
+ */
+export interface PixelatePass extends PostProcessPassBase {
+  type: 'pixelate';
+  /** Width of each block in device pixels (default: 4) */
+  size?: number;
+}
+
+/**
+ * Dark horizontal lines like a CRT screen
+ * 类似CRT屏幕的深色水平线
+ */
+export interface ScanlinesPass extends PostProcessPassBase {
+  type: 'scanlines';
+  /** Distance between lines in device pixels (default: 3) */
+  spacing?: number;
+  /** Height of each line in device pixels (default: 1) */
+  thickness?: number;
+  /** Opacity of the lines, 0 to 1 (default: 0.3) */
+  strength?: number;
+}
+
+/**
+ * Red and blue channels pulled apart sideways
+ * 红色和蓝色通道横向分离
+ */
+export interface ChromaticAberrationPass extends PostProcessPassBase {
+  type: 'chromatic-aberration';
+  /** Shift of the red (left) and blue (right) channels in device pixels (default: 2) */
+  offset?: number;
+}
+
+/**
+ * Glow around bright areas, blurred at reduced resolution
+ * 在降低的分辨率下模糊得到的明亮区域光晕
+ */
+export interface BloomPass extends PostProcessPassBase {
+  type: 'bloom';
+  /** Channel level, 0 to 1, above which colors glow (default: 0.7) */
+  threshold?: number;
+  /** Strength of the glow (default: 0.8) */
+  intensity?: number;
+  /** Resolution divisor the glow is blurred at; larger spreads further (default: 8) */
+  downsample?: number;
+}
+
+/**
+ * Full-frame post-processing pass
+ * 全帧后期处理阶段
+ */
+export type PostProcessPass =
+  | VignettePass
+  | ColorGradingPass
+  | PixelatePass
+  | ScanlinesPass
+  | ChromaticAberrationPass
+  | BloomPass;
+
+/**
+ * Kind of post-processing pass
+ * 后期处理阶段的种类
+ */
+export type PostProcessPassType = PostProcessPass['type'];
@@ -0,0 +1,79 @@
+/**
+ * Rich text types
+ * 富文本类型
+ */
+
+import { Color } from '@esengine/nova-ecs-render-core';
+
+/**
+ * Styled text run parsed from markup; unset fields inherit the base text style
+ * 从标记解析出的带样式文本片段；未设置的字段继承基础文本样式
+ */
+export interface RichTextTextRun {
+  type: 'text';
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  color: Color | null;
+  /** Font size in pixels */
+  fontSize: number | null;
+}
+
+/**
+ * Inline icon parsed from markup
+ * 从标记解析出的内联图标
+ */
+export interface RichTextIconRun {
+  type: 'icon';
+  /** Registered icon name */
+  name: string;
+  /** Font size in pixels at the icon's position, used to size it */
+  fontSize: number | null;
+}
+
+/**
+ * Run of rich text
+ * 富文本片段
+ */
+export type RichTextRun = RichTextTextRun | RichTextIconRun;
+
+/**
+ * Part of a run placed on a line
+ * 放置在行上的片段部分
+ */
+export interface RichTextPiece {
+  run: RichTextRun;
+  /** Text of the piece (empty for icons) */
+  text: string;
+  /** Left edge relative to the line start, in pixels */
+  x: number;
+  width: number;
+  /** Height above the baseline, in pixels */
+  ascent: number;
+}
+
+/**
+ * Laid-out line of rich text
+ * 已布局的富文本行
+ */
+export interface RichTextLine {
+  pieces: RichTextPiece[];
+  width: number;
+  height: number;
+  /** Top edge relative to the block top, in pixels */
+  top: number;
+  /** Baseline relative to the line top, in pixels */
+  baseline: number;
+}
+
+/**
+ * Result of laying out rich text
+ * 富文本布局结果
+ */
+export interface RichTextLayoutResult {
+  lines: RichTextLine[];
+  width: number;
+  height: number;
+  /** Lines were dropped to fit */
+  truncated: boolean;
+}
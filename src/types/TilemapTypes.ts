@@ -0,0 +1,113 @@
+/**
+ * Tilemap types and Tiled JSON map format
+ * 瓦片地图类型和Tiled JSON地图格式
+ */
+
+/**
+ * Tile animation frame as written by Tiled
+ * Tiled写出的瓦片动画帧
+ */
+export interface TiledAnimationFrame {
+  /** Local tile id inside the tileset */
+  tileid: number;
+  /** Frame duration in milliseconds */
+  duration: number;
+}
+
+/**
+ * Per-tile data of a tileset
+ * 图块集中的单个瓦片数据
+ */
+export interface TiledTileData {
+  /** Local tile id inside the tileset */
+  id: number;
+  animation?: TiledAnimationFrame[];
+}
+
+/**
+ * Tileset entry of a map (embedded, or a reference to an external tileset)
+ * 地图中的图块集条目（内嵌或引用外部图块集）
+ */
+export interface TiledTilesetData {
+  /** First global tile id of this tileset */
+  firstgid: number;
+  /** Path of an external tileset file */
+  source?: string;
+  name?: string;
+  image?: string;
+  imagewidth?: number;
+  imageheight?: number;
+  tilewidth?: number;
+  tileheight?: number;
+  tilecount?: number;
+  columns?: number;
+  margin?: number;
+  spacing?: number;
+  tiles?: TiledTileData[];
+}
+
+/**
+ * Layer of a map; only tile layers and groups are rendered
+ * 地图图层；仅渲染瓦片图层和图层组
+ */
+export interface TiledLayerData {
+  type: 'tilelayer' | 'objectgroup' | 'imagelayer' | 'group';
+  name: string;
+  width?: number;
+  height?: number;
+  /** Global tile ids with flip flags in the high bits, row by row */
+  data?: number[] | string;
+  /** 'csv' (plain array) or 'base64' */
+  encoding?: 'csv' | 'base64';
+  /** Compression of base64 data (not supported) */
+  compression?: string;
+  visible?: boolean;
+  opacity?: number;
+  offsetx?: number;
+  offsety?: number;
+  /** Child layers of a group */
+  layers?: TiledLayerData[];
+}
+
+/**
+ * Tiled JSON map
+ * Tiled JSON地图
+ */
+export interface TiledMapData {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  orientation?: string;
+  infinite?: boolean;
+  layers: TiledLayerData[];
+  tilesets: TiledTilesetData[];
+}
+
+/**
+ * Tile reference decoded from a global tile id
+ * 从全局瓦片ID解码的瓦片引用
+ */
+export interface TileRef {
+  /** Global tile id without flip flags (0 for an empty cell) */
+  gid: number;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  /** Flipped over the anti-diagonal (swaps x and y before other flips) */
+  flipDiagonal: boolean;
+}
+
+/**
+ * Tilemap configuration
+ * 瓦片地图配置
+ */
+export interface CanvasTilemapConfig {
+  /** Chunk size in tiles along each axis (default: 16) */
+  chunkSize: number;
+
+  /** Tile pixels per world unit (default: 100) */
+  pixelsPerUnit: number;
+
+  /** Prefer OffscreenCanvas for chunk caches (default: true) */
+  useOffscreenCanvas: boolean;
+}
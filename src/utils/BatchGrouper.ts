@@ -0,0 +1,113 @@
+/**
+ * Groups batch commands without breaking painter's order
+ * 在不破坏画家顺序的前提下对批量命令分组
+ */
+
+import { BatchOrdering, ScreenBounds } from '../types/CanvasTypes';
+
+/**
+ * Command to group, with its compatibility key and screen bounds
+ * 待分组的命令，包含兼容键和屏幕边界
+ */
+export interface BatchItem<T> {
+  /** Commands with equal keys can be drawn together */
+  key: string;
+  /** Screen area the command may touch, or null when unknown (overlaps everything) */
+  bounds: ScreenBounds | null;
+  value: T;
+}
+
+/**
+ * Group of compatible commands, drawn together in submission order
+ * 一组兼容命令，按提交顺序一起绘制
+ */
+export interface BatchItemGroup<T> {
+  key: string;
+  items: T[];
+  /** Union of the items' bounds, or null when one is unknown */
+  bounds: ScreenBounds | null;
+}
+
+/**
+ * Splits a list of commands into groups that are drawn one after another
+ * 将命令列表拆分为依次绘制的组
+ *
+ * A command joins the latest group with its key only if that cannot change
+ * what ends up on screen: in 'adjacent' mode the group must be the last one,
+ * in 'non-overlapping' mode no group drawn after it may overlap the command.
+ * 命令仅在不会改变屏幕结果时才加入具有相同键的最新组：'adjacent'模式下该组必须是最后一组，
+ * 'non-overlapping'模式下其后绘制的组都不能与该命令重叠。
+ */
+export class BatchGrouper {
+  /**
+   * Group items for drawing
+   * 对条目进行分组以便绘制
+   */
+  static group<T>(items: Array<BatchItem<T>>, ordering: BatchOrdering): Array<BatchItemGroup<T>> {
+    const groups: Array<BatchItemGroup<T>> = [];
+    const latestGroup = new Map<string, number>();
+
+    for (const item of items) {
+      const index = latestGroup.get(item.key);
+      let target = index !== undefined && BatchGrouper.canJoin(groups, index, item, ordering)
+        ? groups[index]
+        : undefined;
+
+      if (target) {
+        target.items.push(item.value);
+        target.bounds = BatchGrouper.union(target.bounds, item.bounds);
+      } else {
+        target = { key: item.key, items: [item.value], bounds: item.bounds };
+        groups.push(target);
+        latestGroup.set(item.key, groups.length - 1);
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Check whether two boxes overlap; touching edges count as overlapping
+   * 检查两个包围盒是否重叠；边缘相接也视为重叠
+   */
+  static overlaps(a: ScreenBounds | null, b: ScreenBounds | null): boolean {
+    if (!a || !b) {
+      return true;
+    }
+    return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+  }
+
+  private static canJoin<T>(
+    groups: Array<BatchItemGroup<T>>,
+    index: number,
+    item: BatchItem<T>,
+    ordering: BatchOrdering
+  ): boolean {
+    switch (ordering) {
+      case 'unordered':
+        return true;
+      case 'adjacent':
+        return index === groups.length - 1;
+      default:
+        // Joining moves the item before every later group
+        for (let i = index + 1; i < groups.length; i++) {
+          if (BatchGrouper.overlaps(groups[i].bounds, item.bounds)) {
+            return false;
+          }
+        }
+        return true;
+    }
+  }
+
+  private static union(a: ScreenBounds | null, b: ScreenBounds | null): ScreenBounds | null {
+    if (!a || !b) {
+      return null;
+    }
+    return {
+      minX: Math.min(a.minX, b.minX),
+      minY: Math.min(a.minY, b.minY),
+      maxX: Math.max(a.maxX, b.maxX),
+      maxY: Math.max(a.maxY, b.maxY)
+    };
+  }
+}
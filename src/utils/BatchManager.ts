@@ -5,9 +5,11 @@
 
 import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
 import {
+  Color,
   LineStyle,
   ShapeStyle,
-  TextStyle
+  TextStyle,
+  TextureStyle
 } from '@esengine/nova-ecs-render-core';
 import {
   DrawCommand,
@@ -15,10 +17,22 @@ import {
   CircleDrawData,
   RectDrawData,
   PolygonDrawData,
-  TextDrawData
+  TextDrawData,
+  TextureDrawData,
+  CanvasTexture,
+  CanvasImageSourceType,
+  BatchOrdering,
+  ScreenBounds,
+  ScreenPoint,
+  ScreenTransform
 } from '../types/CanvasTypes';
+import { CanvasLineStyle, CanvasPaint, CanvasShapeStyle, CanvasTextStyle, CanvasTextureStyle } from '../types/PaintTypes';
 import { StyleManager } from './StyleManager';
+import { PaintCache } from './PaintCache';
+import { FilterProcessor } from './FilterProcessor';
 import { CoordinateSystem } from './CoordinateSystem';
+import { BatchGrouper } from './BatchGrouper';
+import { DEFAULT_LINE_HEIGHT } from './TextLayout';
 
 /**
  * Batch group for similar draw commands
@@ -27,6 +41,7 @@ import { CoordinateSystem } from './CoordinateSystem';
 interface BatchGroup {
   type: DrawCommand['type'];
   style: unknown;
+  transform: ScreenTransform;
   commands: DrawCommand[];
 }
 
@@ -40,19 +55,38 @@ export class BatchManager {
   private coordinateSystem: CoordinateSystem;
   private batchCommands: DrawCommand[] = [];
   private maxBatchSize: number;
+  private ordering: BatchOrdering;
   private batchingEnabled: boolean = false;
   private batchedDrawCallCount: number = 0;
+  private sourceIds = new WeakMap<object, number>();
+  private nextSourceId: number = 0;
 
   constructor(
     ctx: CanvasRenderingContext2D,
     styleManager: StyleManager,
     coordinateSystem: CoordinateSystem,
-    maxBatchSize: number = 1000
+    maxBatchSize: number = 1000,
+    ordering: BatchOrdering = 'non-overlapping'
   ) {
     this.ctx = ctx;
     this.styleManager = styleManager;
     this.coordinateSystem = coordinateSystem;
     this.maxBatchSize = maxBatchSize;
+    this.ordering = ordering;
+  }
+
+  /**
+   * Switch the context, styles and coordinate system used for batched draws
+   * 切换批量绘制使用的上下文、样式和坐标系
+   */
+  setContext(
+    ctx: CanvasRenderingContext2D,
+    styleManager: StyleManager,
+    coordinateSystem: CoordinateSystem
+  ): void {
+    this.ctx = ctx;
+    this.styleManager = styleManager;
+    this.coordinateSystem = coordinateSystem;
   }
 
   /**
@@ -101,7 +135,8 @@ export class BatchManager {
     this.addCommand({
       type: 'line',
       data: { start, end } as LineDrawData,
-      style
+      style,
+      bounds: this.getPointsBounds([start, end], style.thickness.toNumber() / 2 + 1)
     });
   }
 
@@ -115,10 +150,15 @@ export class BatchManager {
       return;
     }
 
+    const screenCenter = this.coordinateSystem.worldToScreen(center);
     this.addCommand({
       type: 'circle',
       data: { center, radius } as CircleDrawData,
-      style
+      style,
+      bounds: this.getCircleBounds(
+        screenCenter,
+        this.coordinateSystem.worldToScreenDistance(radius) + this.getStrokeMargin(style)
+      )
     });
   }
 
@@ -132,10 +172,18 @@ export class BatchManager {
       return;
     }
 
+    const screenRect = this.coordinateSystem.worldToScreenRect(bounds);
+    const margin = this.getStrokeMargin(style);
     this.addCommand({
       type: 'rect',
       data: { x: bounds.x, y: bounds.y, width: bounds.width, height: bounds.height } as RectDrawData,
-      style
+      style,
+      bounds: {
+        minX: screenRect.x - margin,
+        minY: screenRect.y - margin,
+        maxX: screenRect.x + screenRect.width + margin,
+        maxY: screenRect.y + screenRect.height + margin
+      }
     });
   }
 
@@ -152,7 +200,8 @@ export class BatchManager {
     this.addCommand({
       type: 'polygon',
       data: { vertices } as PolygonDrawData,
-      style
+      style,
+      bounds: this.getPointsBounds(vertices, this.getStrokeMargin(style))
     });
   }
 
@@ -166,13 +215,72 @@ export class BatchManager {
       return;
     }
 
+    // One em per character around the anchor covers any alignment
+    const fontSize = style.fontSize.toNumber();
+    const lines = text.split('\n');
+    const longest = lines.reduce((max, line) => Math.max(max, line.length), 0);
     this.addCommand({
       type: 'text',
       data: { text, position } as TextDrawData,
-      style
+      style,
+      bounds: this.getCircleBounds(
+        this.coordinateSystem.worldToScreen(position),
+        Math.hypot(longest * fontSize, (lines.length + 1) * fontSize * DEFAULT_LINE_HEIGHT) +
+          this.styleManager.getShadowMargin((style as CanvasTextStyle).shadow)
+      )
     });
   }
 
+  /**
+   * Add whole-texture command to batch
+   * 添加整个纹理的绘制命令到批次
+   *
+   * @param image - Pixels to draw: the texture source or a tinted copy of it
+   */
+  addTexture(texture: CanvasTexture, image: CanvasImageSourceType, position: FixedVector2, style?: TextureStyle): void {
+    const data: TextureDrawData = { texture, image, position };
+    if (style) {
+      data.style = style;
+    }
+    this.addTextureCommand(data);
+  }
+
+  /**
+   * Add texture region command to batch
+   * 添加纹理区域绘制命令到批次
+   *
+   * @param image - Pixels to draw: the texture source or a tinted copy of it
+   */
+  addTextureRegion(
+    texture: CanvasTexture,
+    image: CanvasImageSourceType,
+    sourceRect: FixedRect,
+    destRect: FixedRect,
+    style?: TextureStyle
+  ): void {
+    const data: TextureDrawData = {
+      texture,
+      image,
+      position: new FixedVector2(destRect.x, destRect.y),
+      sourceRect: {
+        x: sourceRect.x.toNumber(),
+        y: sourceRect.y.toNumber(),
+        width: sourceRect.width.toNumber(),
+        height: sourceRect.height.toNumber()
+      },
+      destRect: {
+        x: destRect.x.toNumber(),
+        y: destRect.y.toNumber(),
+        width: destRect.width.toNumber(),
+        height: destRect.height.toNumber()
+      }
+    };
+    if (style) {
+      data.style = style;
+    }
+    this.addTextureCommand(data);
+  }
+
   /**
    * Get batched draw call count
    * 获取批量绘制调用次数
@@ -189,12 +297,33 @@ export class BatchManager {
     this.batchedDrawCallCount = 0;
   }
 
+  private addTextureCommand(data: TextureDrawData): void {
+    if (!this.batchingEnabled) {
+      this.ctx.save();
+      this.drawTextureCommand(data);
+      this.ctx.restore();
+      return;
+    }
+
+    this.addCommand({
+      type: 'texture',
+      data,
+      style: data.style,
+      bounds: this.getTextureBounds(data)
+    });
+  }
+
   /**
    * Add command to batch
    * 添加命令到批次
    */
-  private addCommand(command: DrawCommand): void {
-    this.batchCommands.push(command);
+  private addCommand(command: Omit<DrawCommand, 'transform'>): void {
+    const transform = this.getCurrentTransform();
+    this.batchCommands.push({
+      ...command,
+      bounds: command.bounds && this.transformBounds(command.bounds, transform),
+      transform
+    });
 
     // Auto-flush if batch is full
     if (this.batchCommands.length >= this.maxBatchSize) {
@@ -209,42 +338,40 @@ export class BatchManager {
   private executeBatch(): void {
     if (this.batchCommands.length === 0) return;
 
-    // Group commands by type and style for optimization
+    // Group commands by type, style and transform for optimization
     const groups = this.groupCommands(this.batchCommands);
 
+    // Commands may have been added under other transforms than the current one
+    this.ctx.save();
+    let transform: ScreenTransform | null = null;
     for (const group of groups) {
+      if (!transform || !this.isSameTransform(transform, group.transform)) {
+        transform = group.transform;
+        this.applyScreenTransform(transform);
+      }
       this.executeGroup(group);
     }
-
-    this.batchedDrawCallCount += groups.length;
+    this.ctx.restore();
+    this.styleManager.resetCache();
   }
 
   /**
-   * Group commands by type and style
-   * 按类型和样式分组命令
+   * Group commands by type and style without changing what is drawn on top
+   * 按类型和样式分组命令，且不改变绘制的覆盖关系
    */
   private groupCommands(commands: DrawCommand[]): BatchGroup[] {
-    const groups: BatchGroup[] = [];
-    const groupMap = new Map<string, BatchGroup>();
-
-    for (const command of commands) {
-      const key = this.getGroupKey(command);
-      let group = groupMap.get(key);
-
-      if (!group) {
-        group = {
-          type: command.type,
-          style: command.style,
-          commands: []
-        };
-        groups.push(group);
-        groupMap.set(key, group);
-      }
-
-      group.commands.push(command);
-    }
-
-    return groups;
+    const items = commands.map(command => ({
+      key: this.getGroupKey(command),
+      bounds: command.bounds,
+      value: command
+    }));
+
+    return BatchGrouper.group(items, this.ordering).map(group => ({
+      type: group.items[0].type,
+      style: group.items[0].style,
+      transform: group.items[0].transform,
+      commands: group.items
+    }));
   }
 
   /**
@@ -252,7 +379,125 @@ export class BatchManager {
    * 获取命令的分组键
    */
   private getGroupKey(command: DrawCommand): string {
-    return `${command.type}_${JSON.stringify(command.style)}`;
+    const t = command.transform;
+    const transformKey = `${t.a},${t.b},${t.c},${t.d},${t.e},${t.f}`;
+    if (command.type === 'texture') {
+      return `texture_${this.getTextureSourceId(command.data as TextureDrawData)}_${transformKey}`;
+    }
+    return `${command.type}_${this.styleManager.internStyle(command.style)}_${transformKey}`;
+  }
+
+  private isSameTransform(m: ScreenTransform, n: ScreenTransform): boolean {
+    return m.a === n.a && m.b === n.b && m.c === n.c && m.d === n.d && m.e === n.e && m.f === n.f;
+  }
+
+  /**
+   * Take screen bounds through a transform, keeping them axis-aligned
+   * 将屏幕边界经过变换，并保持轴对齐
+   */
+  private transformBounds(bounds: ScreenBounds, m: ScreenTransform): ScreenBounds {
+    if (m.a === 1 && m.b === 0 && m.c === 0 && m.d === 1 && m.e === 0 && m.f === 0) {
+      return bounds;
+    }
+
+    const xs = [bounds.minX, bounds.maxX, bounds.maxX, bounds.minX];
+    const ys = [bounds.minY, bounds.minY, bounds.maxY, bounds.maxY];
+    const result = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (let i = 0; i < 4; i++) {
+      const x = m.a * xs[i] + m.c * ys[i] + m.e;
+      const y = m.b * xs[i] + m.d * ys[i] + m.f;
+      result.minX = Math.min(result.minX, x);
+      result.minY = Math.min(result.minY, y);
+      result.maxX = Math.max(result.maxX, x);
+      result.maxY = Math.max(result.maxY, y);
+    }
+    return result;
+  }
+
+  /**
+   * Get a stable id of the pixels a texture command draws, for grouping
+   * 获取纹理命令所绘制像素的稳定ID，用于分组
+   */
+  private getTextureSourceId(data: TextureDrawData): number {
+    const image = data.image ?? data.texture.source;
+    let id = this.sourceIds.get(image);
+    if (id === undefined) {
+      id = this.nextSourceId++;
+      this.sourceIds.set(image, id);
+    }
+    return id;
+  }
+
+  /**
+   * Get screen bounds of world points, grown by a margin in pixels
+   * 获取世界点集的屏幕边界，并按像素边距扩展
+   */
+  private getPointsBounds(points: FixedVector2[], margin: number): ScreenBounds | null {
+    if (points.length === 0) {
+      return null;
+    }
+
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+    for (const point of points) {
+      const screen = this.coordinateSystem.worldToScreen(point);
+      bounds.minX = Math.min(bounds.minX, screen.x - margin);
+      bounds.minY = Math.min(bounds.minY, screen.y - margin);
+      bounds.maxX = Math.max(bounds.maxX, screen.x + margin);
+      bounds.maxY = Math.max(bounds.maxY, screen.y + margin);
+    }
+    return bounds;
+  }
+
+  private getCircleBounds(center: ScreenPoint, radius: number): ScreenBounds {
+    return {
+      minX: center.x - radius,
+      minY: center.y - radius,
+      maxX: center.x + radius,
+      maxY: center.y + radius
+    };
+  }
+
+  /**
+   * Bound a texture by the circle its box can sweep around the draw origin,
+   * covering any style rotation, scale and anchor
+   * 以纹理框围绕绘制原点可扫过的圆作为边界，覆盖任意样式旋转、缩放和锚点
+   */
+  private getTextureBounds(data: TextureDrawData): ScreenBounds {
+    let origin: ScreenPoint;
+    let width = data.texture.width;
+    let height = data.texture.height;
+    if (data.destRect) {
+      const dest = data.destRect;
+      const quad = this.coordinateSystem.worldToScreenQuad(
+        new FixedRect(new Fixed(dest.x), new Fixed(dest.y), new Fixed(dest.width), new Fixed(dest.height))
+      );
+      origin = quad[0];
+      width = Math.hypot(quad[1].x - quad[0].x, quad[1].y - quad[0].y);
+      height = Math.hypot(quad[3].x - quad[0].x, quad[3].y - quad[0].y);
+    } else {
+      origin = this.coordinateSystem.worldToScreen(data.position);
+    }
+
+    const style = data.style;
+    const scaleX = style && style.scale ? Math.abs(style.scale.x.toNumber()) : 1;
+    const scaleY = style && style.scale ? Math.abs(style.scale.y.toNumber()) : 1;
+    const anchorX = style && style.anchor ? style.anchor.x.toNumber() : 0;
+    const anchorY = style && style.anchor ? style.anchor.y.toNumber() : 0;
+
+    const extentX = width * Math.max(Math.abs(anchorX), Math.abs(1 - anchorX)) * scaleX;
+    const extentY = height * Math.max(Math.abs(anchorY), Math.abs(1 - anchorY)) * scaleY;
+    const effects = style as CanvasTextureStyle | undefined;
+    const shadow = effects ? this.styleManager.getShadowMargin(effects.shadow) : 0;
+    const blur = effects && effects.filter
+      ? FilterProcessor.getBlurExtent(effects.filter) * this.coordinateSystem.getPixelScale()
+      : 0;
+    return this.getCircleBounds(origin, Math.hypot(extentX, extentY) + 1 + shadow + blur);
+  }
+
+  private getStrokeMargin(style: CanvasShapeStyle): number {
+    // One extra pixel covers antialiasing
+    const stroke = PaintCache.hasStroke(style) && style.strokeThickness ? style.strokeThickness.toNumber() / 2 + 1 : 1;
+    return stroke + this.styleManager.getShadowMargin(style.shadow);
   }
 
   /**
@@ -276,6 +521,9 @@ export class BatchManager {
       case 'text':
         this.executeTextGroup(group);
         break;
+      case 'texture':
+        this.executeTextureGroup(group);
+        break;
     }
   }
 
@@ -284,19 +532,25 @@ export class BatchManager {
    * 执行线条组
    */
   private executeLineGroup(group: BatchGroup): void {
-    const style = group.style as LineStyle;
+    const style = group.style as CanvasLineStyle;
     this.styleManager.applyLineStyle(style);
 
-    this.ctx.beginPath();
-    for (const command of group.commands) {
-      const data = command.data as LineDrawData;
-      const start = this.coordinateSystem.worldToScreen(data.start);
-      const end = this.coordinateSystem.worldToScreen(data.end);
-
-      this.ctx.moveTo(start.x, start.y);
-      this.ctx.lineTo(end.x, end.y);
-    }
-    this.ctx.stroke();
+    this.executePathGroup(
+      group,
+      this.canMergeOverlaps(style.color, style.paint),
+      command => {
+        const data = command.data as LineDrawData;
+        const start = this.coordinateSystem.worldToScreen(data.start);
+        const end = this.coordinateSystem.worldToScreen(data.end);
+
+        this.ctx.moveTo(start.x, start.y);
+        this.ctx.lineTo(end.x, end.y);
+      },
+      () => {
+        this.ctx.stroke();
+        this.batchedDrawCallCount++;
+      }
+    );
   }
 
   /**
@@ -306,10 +560,15 @@ export class BatchManager {
   private executeCircleGroup(group: BatchGroup): void {
     const style = group.style as ShapeStyle;
 
-    for (const command of group.commands) {
+    this.executeShapeGroup(group, this.canMergeShapeOverlaps(style), command => {
       const data = command.data as CircleDrawData;
-      this.drawCircleImmediate(data.center, data.radius, style);
-    }
+      const center = this.coordinateSystem.worldToScreen(data.center);
+      const radius = this.coordinateSystem.worldToScreenDistance(data.radius);
+
+      // Start a new subpath so circles are not joined by lines
+      this.ctx.moveTo(center.x + radius, center.y);
+      this.ctx.arc(center.x, center.y, radius, 0, 2 * Math.PI);
+    });
   }
 
   /**
@@ -319,24 +578,46 @@ export class BatchManager {
   private executeRectGroup(group: BatchGroup): void {
     const style = group.style as ShapeStyle;
 
-    for (const command of group.commands) {
+    this.executeShapeGroup(group, this.canMergeShapeOverlaps(style), command => {
       const data = command.data as RectDrawData;
       const bounds = new FixedRect(data.x, data.y, data.width, data.height);
-      this.drawRectImmediate(bounds, style);
-    }
+
+      if (this.coordinateSystem.hasViewRotation()) {
+        // Rotated views turn rectangles into general quads
+        const corners = this.coordinateSystem.worldToScreenQuad(bounds);
+        this.ctx.moveTo(corners[0].x, corners[0].y);
+        for (let i = 1; i < corners.length; i++) {
+          this.ctx.lineTo(corners[i].x, corners[i].y);
+        }
+        this.ctx.closePath();
+      } else {
+        const screenRect = this.coordinateSystem.worldToScreenRect(bounds);
+        this.ctx.rect(screenRect.x, screenRect.y, screenRect.width, screenRect.height);
+      }
+    });
   }
 
   /**
    * Execute polygon group
    * 执行多边形组
+   *
+   * Overlapping polygons never share a path: with opposite windings the
+   * overlap would be left unfilled.
+   * 重叠的多边形不会共用路径：环绕方向相反时重叠区域将不会被填充。
    */
   private executePolygonGroup(group: BatchGroup): void {
-    const style = group.style as ShapeStyle;
-
-    for (const command of group.commands) {
-      const data = command.data as PolygonDrawData;
-      this.drawPolygonImmediate(data.vertices, style);
-    }
+    this.executeShapeGroup(group, false, command => {
+      const vertices = (command.data as PolygonDrawData).vertices;
+      if (vertices.length < 3) return;
+
+      const first = this.coordinateSystem.worldToScreen(vertices[0]);
+      this.ctx.moveTo(first.x, first.y);
+      for (let i = 1; i < vertices.length; i++) {
+        const point = this.coordinateSystem.worldToScreen(vertices[i]);
+        this.ctx.lineTo(point.x, point.y);
+      }
+      this.ctx.closePath();
+    });
   }
 
   /**
@@ -349,13 +630,115 @@ export class BatchManager {
     for (const command of group.commands) {
       const data = command.data as TextDrawData;
       this.drawTextImmediate(data.text, data.position, style);
+      this.batchedDrawCallCount++;
     }
   }
 
+  /**
+   * Fill and stroke the shapes of a group with one shared style
+   * 使用同一共享样式填充和描边一组形状
+   */
+  private executeShapeGroup(group: BatchGroup, mergeOverlaps: boolean, trace: (command: DrawCommand) => void): void {
+    const style = group.style as CanvasShapeStyle;
+    const fill = PaintCache.hasFill(style);
+    const stroke = PaintCache.hasStroke(style);
+    if (!fill && !stroke) return;
+    this.styleManager.applyShapeStyle(style);
+
+    this.executePathGroup(group, mergeOverlaps, trace, () => {
+      if (fill) {
+        this.ctx.fill();
+        this.batchedDrawCallCount++;
+      }
+      if (stroke) {
+        this.ctx.stroke();
+        this.batchedDrawCallCount++;
+      }
+    });
+  }
+
+  /**
+   * Trace commands into as few paths as possible, painting each path once
+   * 将命令描绘为尽可能少的路径，每条路径只绘制一次
+   *
+   * Shapes on one path are painted together. That looks the same as painting
+   * them one by one only where they don't overlap, so an overlapping shape
+   * starts a new path unless mergeOverlaps says overlaps are harmless.
+   * 同一路径上的形状会一起绘制，仅在互不重叠时才与逐个绘制的结果相同，
+   * 因此除非mergeOverlaps表明重叠无影响，重叠的形状会开始新路径。
+   *
+   * @param mergeOverlaps - Overlaps look the same either way, e.g. opaque fills only
+   */
+  private executePathGroup(
+    group: BatchGroup,
+    mergeOverlaps: boolean,
+    trace: (command: DrawCommand) => void,
+    paint: () => void
+  ): void {
+    let pathBounds: Array<ScreenBounds | null> = [];
+
+    this.ctx.beginPath();
+    for (const command of group.commands) {
+      if (!mergeOverlaps && pathBounds.some(bounds => BatchGrouper.overlaps(bounds, command.bounds))) {
+        paint();
+        this.ctx.beginPath();
+        pathBounds = [];
+      }
+      trace(command);
+      pathBounds.push(command.bounds);
+    }
+    paint();
+  }
+
+  /**
+   * Painting overlapping areas once or twice gives the same pixels
+   * 重叠区域绘制一次或两次得到相同的像素
+   */
+  private canMergeOverlaps(color: Color | undefined, paint?: CanvasPaint): boolean {
+    const opaque = paint ? PaintCache.isOpaque(paint) : !!color && color.a >= 1;
+    return opaque && this.ctx.globalAlpha >= 1 && this.ctx.globalCompositeOperation === 'source-over';
+  }
+
+  private canMergeShapeOverlaps(style: CanvasShapeStyle): boolean {
+    // A later shape's fill must cover an earlier shape's stroke, and shadows fall on earlier shapes
+    return !style.shadow && !PaintCache.hasStroke(style) && PaintCache.hasFill(style) && this.canMergeOverlaps(style.fillColor, style.fillPaint);
+  }
+
+  /**
+   * Execute texture group
+   * 执行纹理组
+   *
+   * Draws from one source share a single save/restore; each draw starts
+   * from the transform and opacity the group began with.
+   * 同一图像源的绘制共用一次save/restore；每次绘制都从该组开始时的变换和不透明度出发。
+   */
+  private executeTextureGroup(group: BatchGroup): void {
+    this.ctx.save();
+    const transform = this.ctx.getTransform();
+    const alpha = this.ctx.globalAlpha;
+
+    for (const command of group.commands) {
+      this.drawTextureCommand(command.data as TextureDrawData);
+      this.batchedDrawCallCount++;
+      this.ctx.setTransform(transform);
+      this.ctx.globalAlpha = alpha;
+    }
+
+    this.ctx.restore();
+  }
+
   // Immediate drawing methods - these will be set by the renderer
   public drawLineImmediate: (start: FixedVector2, end: FixedVector2, style: LineStyle) => void = () => {};
   public drawCircleImmediate: (center: FixedVector2, radius: Fixed, style: ShapeStyle) => void = () => {};
   public drawRectImmediate: (bounds: FixedRect, style: ShapeStyle) => void = () => {};
   public drawPolygonImmediate: (vertices: FixedVector2[], style: ShapeStyle) => void = () => {};
   public drawTextImmediate: (text: string, position: FixedVector2, style: TextStyle) => void = () => {};
+  /** Draws in the current context state; the caller saves and restores it */
+  public drawTextureCommand: (data: TextureDrawData) => void = () => {};
+
+  // Transform hooks - these will be set by the renderer
+  /** Screen-space matrix of the pushed transforms */
+  public getCurrentTransform: () => ScreenTransform = () => ({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 });
+  /** Replace the context transform with the frame's base transform followed by a matrix */
+  public applyScreenTransform: (transform: ScreenTransform) => void = () => {};
 }
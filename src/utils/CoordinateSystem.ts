@@ -3,8 +3,13 @@
  * 坐标系转换工具
  */
 
-import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
-import { ScreenPoint, ScreenSize, VisibleBounds } from '../types/CanvasTypes';
+import { Fixed, FixedVector2, FixedRect, FixedMatrix2x2 } from '@esengine/nova-ecs-math';
+import {
+  ScreenPoint,
+  ScreenSize,
+  ScreenTransform,
+  VisibleBounds
+} from '../types/CanvasTypes';
 
 /**
  * Coordinate system manager for Canvas rendering
@@ -13,10 +18,18 @@ import { ScreenPoint, ScreenSize, VisibleBounds } from '../types/CanvasTypes';
 export class CoordinateSystem {
   private pixelsPerUnit: number;
   private canvasSize: ScreenSize;
+  private screenOffset: ScreenPoint = { x: 0, y: 0 };
   private cameraPosition: FixedVector2;
   private cameraZoom: Fixed;
+  private cameraRotation: Fixed;
+  private viewMatrix: FixedMatrix2x2 | null = null;
   private devicePixelRatio: number;
 
+  // Combined view matrix and camera rotation as numbers, plus its inverse
+  // 视图矩阵与相机旋转组合后的数值形式及其逆矩阵
+  private linear = { m00: 1, m01: 0, m10: 0, m11: 1 };
+  private inverseLinear = { m00: 1, m01: 0, m10: 0, m11: 1 };
+
   constructor(
     pixelsPerUnit: number = 100,
     canvasSize: ScreenSize = { width: 800, height: 600 },
@@ -26,6 +39,7 @@ export class CoordinateSystem {
     this.canvasSize = canvasSize;
     this.cameraPosition = FixedVector2.ZERO;
     this.cameraZoom = Fixed.ONE;
+    this.cameraRotation = Fixed.ZERO;
     this.devicePixelRatio = devicePixelRatio;
   }
 
@@ -37,6 +51,27 @@ export class CoordinateSystem {
     this.canvasSize = size;
   }
 
+  /**
+   * Update screen offset of the drawing area (e.g. a viewport inside the canvas)
+   * 更新绘制区域的屏幕偏移（例如画布内的视口）
+   */
+  setScreenOffset(offset: ScreenPoint): void {
+    this.screenOffset = offset;
+  }
+
+  /**
+   * Get drawing area in screen pixels
+   * 获取屏幕像素中的绘制区域
+   */
+  getScreenArea(): { x: number; y: number; width: number; height: number } {
+    return {
+      x: this.screenOffset.x,
+      y: this.screenOffset.y,
+      width: this.canvasSize.width,
+      height: this.canvasSize.height
+    };
+  }
+
   /**
    * Update camera position
    * 更新相机位置
@@ -53,6 +88,35 @@ export class CoordinateSystem {
     this.cameraZoom = zoom;
   }
 
+  /**
+   * Update camera rotation (radians, counter-clockwise)
+   * 更新相机旋转（弧度，逆时针）
+   */
+  setCameraRotation(rotation: Fixed): void {
+    this.cameraRotation = rotation;
+    this.updateLinearTransform();
+  }
+
+  /**
+   * Update view matrix applied after camera rotation
+   * 更新在相机旋转之后应用的视图矩阵
+   *
+   * The matrix maps camera-relative world vectors to view space, so it can
+   * rotate, scale or skew the view. Pass null to reset to identity.
+   * 该矩阵将相对于相机的世界向量映射到视图空间，可用于旋转、缩放或错切视图。传入null重置为单位矩阵。
+   *
+   * A singular matrix (zero determinant) cannot be undone by screenToWorld,
+   * so it is ignored with a console warning and the previous matrix stays in use.
+   * 奇异矩阵（行列式为零）无法被screenToWorld还原，因此会被忽略并输出控制台警告，继续使用之前的矩阵。
+   */
+  setViewMatrix(matrix: FixedMatrix2x2 | null): void {
+    const previous = this.viewMatrix;
+    this.viewMatrix = matrix;
+    if (!this.updateLinearTransform()) {
+      this.viewMatrix = previous;
+    }
+  }
+
   /**
    * Update pixels per unit
    * 更新每单位像素数
@@ -61,6 +125,14 @@ export class CoordinateSystem {
     this.pixelsPerUnit = pixelsPerUnit;
   }
 
+  /**
+   * Get pixels per world unit, without zoom
+   * 获取每世界单位的像素数（不含缩放）
+   */
+  getPixelsPerUnit(): number {
+    return this.pixelsPerUnit;
+  }
+
   /**
    * Update device pixel ratio
    * 更新设备像素比
@@ -81,13 +153,18 @@ export class CoordinateSystem {
       relative.y.multiply(this.cameraZoom)
     );
 
+    // Apply view matrix and camera rotation
+    const m = this.linear;
+    const viewX = scaled.x.toNumber();
+    const viewY = scaled.y.toNumber();
+
     // Convert to pixels
-    const pixelX = scaled.x.toNumber() * this.pixelsPerUnit;
-    const pixelY = scaled.y.toNumber() * this.pixelsPerUnit;
+    const pixelX = (m.m00 * viewX + m.m01 * viewY) * this.pixelsPerUnit;
+    const pixelY = (m.m10 * viewX + m.m11 * viewY) * this.pixelsPerUnit;
 
     // Convert to screen coordinates (origin at center, Y-axis up)
-    const screenX = pixelX + this.canvasSize.width / 2;
-    const screenY = this.canvasSize.height / 2 - pixelY; // Flip Y-axis
+    const screenX = this.screenOffset.x + pixelX + this.canvasSize.width / 2;
+    const screenY = this.screenOffset.y + this.canvasSize.height / 2 - pixelY; // Flip Y-axis
 
     return { x: screenX, y: screenY };
   }
@@ -98,12 +175,17 @@ export class CoordinateSystem {
    */
   screenToWorld(screenPos: ScreenPoint): FixedVector2 {
     // Convert from screen coordinates to pixels (origin at center, Y-axis up)
-    const pixelX = screenPos.x - this.canvasSize.width / 2;
-    const pixelY = this.canvasSize.height / 2 - screenPos.y; // Flip Y-axis
+    const pixelX = screenPos.x - this.screenOffset.x - this.canvasSize.width / 2;
+    const pixelY = this.screenOffset.y + this.canvasSize.height / 2 - screenPos.y; // Flip Y-axis
+
+    // Convert to view units
+    const viewX = pixelX / this.pixelsPerUnit;
+    const viewY = pixelY / this.pixelsPerUnit;
 
-    // Convert to world units
-    const worldX = pixelX / this.pixelsPerUnit;
-    const worldY = pixelY / this.pixelsPerUnit;
+    // Undo view matrix and camera rotation
+    const inv = this.inverseLinear;
+    const worldX = inv.m00 * viewX + inv.m01 * viewY;
+    const worldY = inv.m10 * viewX + inv.m11 * viewY;
 
     // Apply inverse camera transform
     const worldPos = new FixedVector2(
@@ -119,7 +201,7 @@ export class CoordinateSystem {
    * 将世界距离转换为屏幕像素
    */
   worldToScreenDistance(worldDistance: Fixed): number {
-    return worldDistance.toNumber() * this.pixelsPerUnit * this.cameraZoom.toNumber();
+    return worldDistance.toNumber() * this.getPixelScale();
   }
 
   /**
@@ -127,12 +209,26 @@ export class CoordinateSystem {
    * 将屏幕像素转换为世界距离
    */
   screenToWorldDistance(screenPixels: number): Fixed {
-    return new Fixed(screenPixels / (this.pixelsPerUnit * this.cameraZoom.toNumber()));
+    return new Fixed(screenPixels / this.getPixelScale());
+  }
+
+  /**
+   * Get screen pixels per world unit, including zoom and view matrix scale
+   * 获取每世界单位的屏幕像素数，包含缩放和视图矩阵的缩放
+   */
+  getPixelScale(): number {
+    const m = this.linear;
+    const determinant = Math.abs(m.m00 * m.m11 - m.m01 * m.m10);
+    return this.pixelsPerUnit * this.cameraZoom.toNumber() * Math.sqrt(determinant);
   }
 
   /**
    * Convert world rectangle to screen rectangle
    * 将世界矩形转换为屏幕矩形
+   *
+   * When the view is rotated or skewed this is the screen-aligned bounding
+   * box of the transformed rectangle; use worldToScreenQuad for the exact corners.
+   * 当视图被旋转或错切时，返回变换后矩形的屏幕对齐包围盒；精确角点请使用worldToScreenQuad。
    */
   worldToScreenRect(worldRect: FixedRect): {
     x: number;
@@ -140,35 +236,129 @@ export class CoordinateSystem {
     width: number;
     height: number;
   } {
-    const topLeft = this.worldToScreen(new FixedVector2(worldRect.x, worldRect.y.add(worldRect.height)));
-    const bottomRight = this.worldToScreen(new FixedVector2(worldRect.x.add(worldRect.width), worldRect.y));
+    const corners = this.worldToScreenQuad(worldRect);
+    let minX = corners[0].x;
+    let minY = corners[0].y;
+    let maxX = corners[0].x;
+    let maxY = corners[0].y;
+
+    for (let i = 1; i < corners.length; i++) {
+      minX = Math.min(minX, corners[i].x);
+      minY = Math.min(minY, corners[i].y);
+      maxX = Math.max(maxX, corners[i].x);
+      maxY = Math.max(maxY, corners[i].y);
+    }
 
     return {
-      x: topLeft.x,
-      y: topLeft.y,
-      width: bottomRight.x - topLeft.x,
-      height: bottomRight.y - topLeft.y
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY
     };
   }
 
+  /**
+   * Convert world rectangle to its four screen corners
+   * 将世界矩形转换为四个屏幕角点
+   *
+   * Corners are ordered top-left, top-right, bottom-right, bottom-left in world space.
+   * 角点按世界空间中的左上、右上、右下、左下顺序排列。
+   */
+  worldToScreenQuad(worldRect: FixedRect): ScreenPoint[] {
+    const left = worldRect.x;
+    const right = worldRect.x.add(worldRect.width);
+    const bottom = worldRect.y;
+    const top = worldRect.y.add(worldRect.height);
+
+    return [
+      this.worldToScreen(new FixedVector2(left, top)),
+      this.worldToScreen(new FixedVector2(right, top)),
+      this.worldToScreen(new FixedVector2(right, bottom)),
+      this.worldToScreen(new FixedVector2(left, bottom))
+    ];
+  }
+
+  /**
+   * Check if the view is rotated or skewed
+   * 检查视图是否被旋转或错切
+   */
+  hasViewRotation(): boolean {
+    const m = this.linear;
+    return m.m01 !== 0 || m.m10 !== 0;
+  }
+
+  /**
+   * Get world-to-screen affine transform
+   * 获取世界到屏幕的仿射变换
+   */
+  getWorldToScreenTransform(): ScreenTransform {
+    const m = this.linear;
+    const scale = this.pixelsPerUnit * this.cameraZoom.toNumber();
+    const origin = this.worldToScreen(FixedVector2.ZERO);
+
+    // Screen Y points down, so the second row is negated
+    return {
+      a: m.m00 * scale,
+      b: -m.m10 * scale,
+      c: m.m01 * scale,
+      d: -m.m11 * scale,
+      e: origin.x,
+      f: origin.y
+    };
+  }
+
+  /**
+   * Get screen-space rotation of the world X axis (radians, clockwise on screen)
+   * 获取世界X轴在屏幕空间中的旋转（弧度，屏幕上顺时针）
+   *
+   * Used to orient screen-aligned content such as textures and text so that
+   * they turn together with the camera.
+   * 用于定向纹理和文本等屏幕对齐内容，使其随相机一起旋转。
+   */
+  getScreenRotation(): number {
+    return Math.atan2(-this.linear.m10, this.linear.m00);
+  }
+
   /**
    * Get visible world bounds
    * 获取可见的世界边界
+   *
+   * Under rotation this is the world-aligned bounding box of the screen.
+   * 旋转时返回屏幕在世界空间中的轴对齐包围盒。
    */
   getVisibleBounds(): VisibleBounds {
-    const topLeft = this.screenToWorld({ x: 0, y: 0 });
-    const bottomRight = this.screenToWorld({
-      x: this.canvasSize.width,
-      y: this.canvasSize.height
-    });
+    const left = this.screenOffset.x;
+    const top = this.screenOffset.y;
+    const right = left + this.canvasSize.width;
+    const bottom = top + this.canvasSize.height;
+    const corners = [
+      this.screenToWorld({ x: left, y: top }),
+      this.screenToWorld({ x: right, y: top }),
+      this.screenToWorld({ x: right, y: bottom }),
+      this.screenToWorld({ x: left, y: bottom })
+    ];
+
+    let minX = corners[0].x.toNumber();
+    let maxX = minX;
+    let minY = corners[0].y.toNumber();
+    let maxY = minY;
+
+    for (let i = 1; i < corners.length; i++) {
+      const x = corners[i].x.toNumber();
+      const y = corners[i].y.toNumber();
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
 
     return {
-      left: topLeft.x.toNumber(),
-      right: bottomRight.x.toNumber(),
-      top: topLeft.y.toNumber(),
-      bottom: bottomRight.y.toNumber(),
-      width: bottomRight.x.subtract(topLeft.x).toNumber(),
-      height: topLeft.y.subtract(bottomRight.y).toNumber()
+      left: minX,
+      right: maxX,
+      top: maxY,
+      bottom: minY,
+      width: maxX - minX,
+      height: maxY - minY
     };
   }
 
@@ -180,11 +370,13 @@ export class CoordinateSystem {
     const screenPos = this.worldToScreen(worldPos);
     const marginPixels = this.worldToScreenDistance(margin);
 
+    const area = this.getScreenArea();
+
     return (
-      screenPos.x >= -marginPixels &&
-      screenPos.x <= this.canvasSize.width + marginPixels &&
-      screenPos.y >= -marginPixels &&
-      screenPos.y <= this.canvasSize.height + marginPixels
+      screenPos.x >= area.x - marginPixels &&
+      screenPos.x <= area.x + area.width + marginPixels &&
+      screenPos.y >= area.y - marginPixels &&
+      screenPos.y <= area.y + area.height + marginPixels
     );
   }
 
@@ -196,11 +388,13 @@ export class CoordinateSystem {
     const screenRect = this.worldToScreenRect(worldRect);
     const marginPixels = this.worldToScreenDistance(margin);
 
+    const area = this.getScreenArea();
+
     return (
-      screenRect.x + screenRect.width >= -marginPixels &&
-      screenRect.x <= this.canvasSize.width + marginPixels &&
-      screenRect.y + screenRect.height >= -marginPixels &&
-      screenRect.y <= this.canvasSize.height + marginPixels
+      screenRect.x + screenRect.width >= area.x - marginPixels &&
+      screenRect.x <= area.x + area.width + marginPixels &&
+      screenRect.y + screenRect.height >= area.y - marginPixels &&
+      screenRect.y <= area.y + area.height + marginPixels
     );
   }
 
@@ -211,17 +405,29 @@ export class CoordinateSystem {
   getCameraInfo(): {
     position: FixedVector2;
     zoom: Fixed;
+    rotation: Fixed;
+    viewMatrix: FixedMatrix2x2 | null;
     pixelsPerUnit: number;
     visibleBounds: VisibleBounds;
   } {
     return {
       position: this.cameraPosition,
       zoom: this.cameraZoom,
+      rotation: this.cameraRotation,
+      viewMatrix: this.viewMatrix,
       pixelsPerUnit: this.pixelsPerUnit,
       visibleBounds: this.getVisibleBounds()
     };
   }
 
+  /**
+   * Get device pixel ratio
+   * 获取设备像素比
+   */
+  getDevicePixelRatio(): number {
+    return this.devicePixelRatio;
+  }
+
   /**
    * Apply high DPI scaling
    * 应用高DPI缩放
@@ -245,4 +451,50 @@ export class CoordinateSystem {
     // Update canvas size
     this.setCanvasSize({ width: rect.width, height: rect.height });
   }
+
+  /**
+   * Recompute combined view matrix and camera rotation
+   * 重新计算组合的视图矩阵和相机旋转
+   *
+   * @returns False when the combination is singular and was left unchanged
+   */
+  private updateLinearTransform(): boolean {
+    // Rotating the camera counter-clockwise turns the world clockwise
+    const angle = this.cameraRotation.toNumber();
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    let m00 = cos;
+    let m01 = sin;
+    let m10 = -sin;
+    let m11 = cos;
+
+    if (this.viewMatrix) {
+      const v00 = this.viewMatrix.m00.toNumber();
+      const v01 = this.viewMatrix.m01.toNumber();
+      const v10 = this.viewMatrix.m10.toNumber();
+      const v11 = this.viewMatrix.m11.toNumber();
+
+      m00 = v00 * cos - v01 * sin;
+      m01 = v00 * sin + v01 * cos;
+      m10 = v10 * cos - v11 * sin;
+      m11 = v10 * sin + v11 * cos;
+    }
+
+    const determinant = m00 * m11 - m01 * m10;
+    if (determinant === 0) {
+      // eslint-disable-next-line no-console
+      console.warn('Singular view matrix ignored by Canvas coordinate system');
+      return false;
+    }
+
+    this.linear = { m00, m01, m10, m11 };
+    this.inverseLinear = {
+      m00: m11 / determinant,
+      m01: -m01 / determinant,
+      m10: -m10 / determinant,
+      m11: m00 / determinant
+    };
+    return true;
+  }
 }
@@ -0,0 +1,73 @@
+/**
+ * Layered draw queue with stable sorting
+ * 稳定排序的分层绘制队列
+ */
+
+/**
+ * Anything with a draw order, such as a render layer
+ * 具有绘制顺序的对象，例如渲染层
+ */
+export interface DrawQueueLayer {
+  readonly order: number;
+}
+
+/**
+ * Queued command with its sort keys
+ * 带排序键的队列命令
+ */
+export interface DrawQueueEntry<TLayer extends DrawQueueLayer, TCommand> {
+  layer: TLayer;
+  /** Order within the layer; lower keys are drawn first */
+  sortKey: number;
+  /** Submission index, keeps equal keys in call order */
+  sequence: number;
+  command: TCommand;
+}
+
+/**
+ * Collects commands during a frame and hands them out sorted by layer order,
+ * sort key and submission order
+ * 在帧内收集命令，并按图层顺序、排序键和提交顺序输出
+ *
+ * Layer order is read when the queue is drained, so reordering a layer
+ * affects draws that were already submitted.
+ * 图层顺序在取出队列时读取，因此调整图层顺序也会影响已提交的绘制。
+ */
+export class DrawQueue<TLayer extends DrawQueueLayer, TCommand> {
+  private entries: Array<DrawQueueEntry<TLayer, TCommand>> = [];
+
+  get length(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Add a command
+   * 添加命令
+   */
+  push(layer: TLayer, sortKey: number, command: TCommand): void {
+    this.entries.push({ layer, sortKey, sequence: this.entries.length, command });
+  }
+
+  /**
+   * Remove and return all commands in draw order
+   * 按绘制顺序移除并返回所有命令
+   */
+  drain(): Array<DrawQueueEntry<TLayer, TCommand>> {
+    const entries = this.entries;
+    this.entries = [];
+
+    return entries.sort((a, b) =>
+      a.layer.order - b.layer.order ||
+      a.sortKey - b.sortKey ||
+      a.sequence - b.sequence
+    );
+  }
+
+  /**
+   * Drop all commands
+   * 丢弃所有命令
+   */
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
@@ -0,0 +1,333 @@
+/**
+ * CSS-style filters for Canvas, with an ImageData fallback
+ * Canvas的CSS风格滤镜，带有ImageData回退实现
+ */
+
+/// <reference lib="dom" />
+
+import { CanvasImageSourceType } from '../types/CanvasTypes';
+import { CanvasFilter } from '../types/FilterTypes';
+import { StyleInterner } from './StyleInterner';
+import { OffscreenSurface } from './OffscreenSurface';
+
+/**
+ * Filtered copy of an image
+ * 图像的滤镜副本
+ */
+interface FilteredCopy {
+  version: number;
+  surface: OffscreenSurface;
+}
+
+/**
+ * Box blurs run per axis to approximate a Gaussian
+ * 每个轴上近似高斯模糊所运行的盒式模糊次数
+ */
+const BOX_BLUR_PASSES = 3;
+
+/**
+ * Turns filter lists into `ctx.filter` strings, or applies them to pixels
+ * where the context has no `filter` (e.g. node-canvas)
+ * 将滤镜列表转换为`ctx.filter`字符串，或在上下文不支持`filter`时（如node-canvas）直接作用于像素
+ *
+ * Blur radii are in world units and are turned into pixels with a blur scale.
+ * Like shadows, `ctx.filter` lengths ignore the context transform, so the
+ * scale is in device pixels per world unit.
+ * 模糊半径以世界单位表示，并通过模糊缩放转换为像素。与阴影一样，`ctx.filter`中的长度不受上下文变换影响，
+ * 因此缩放以每世界单位的设备像素计。
+ */
+export class FilterProcessor {
+  private interner: StyleInterner;
+  private epoch: number;
+  private copies = new WeakMap<object, Map<string, FilteredCopy>>();
+  private maxCopiesPerImage: number;
+
+  /**
+   * @param interner - Interner giving equal filters the same id
+   * @param maxCopiesPerImage - Filtered copies kept per image before its copies are dropped
+   */
+  constructor(interner: StyleInterner = StyleInterner.shared, maxCopiesPerImage: number = 8) {
+    this.interner = interner;
+    this.epoch = interner.epoch;
+    this.maxCopiesPerImage = maxCopiesPerImage;
+  }
+
+  /**
+   * Check whether a context filters draws itself
+   * 检查上下文是否自身支持绘制滤镜
+   */
+  static isSupported(ctx: CanvasRenderingContext2D): boolean {
+    return typeof (ctx as { filter?: unknown }).filter === 'string';
+  }
+
+  /**
+   * Build a `ctx.filter` string
+   * 构建`ctx.filter`字符串
+   *
+   * @param blurScale - Pixels per world unit of blur radius
+   */
+  static toCss(filter: CanvasFilter, blurScale: number): string {
+    if (filter.length === 0) return 'none';
+
+    return filter.map(step => {
+      switch (step.type) {
+        case 'blur': return `blur(${step.radius.toNumber() * blurScale}px)`;
+        case 'grayscale': return `grayscale(${step.amount})`;
+        case 'brightness': return `brightness(${step.amount})`;
+        case 'hue-rotate': return `hue-rotate(${step.angle.toNumber()}rad)`;
+      }
+    }).join(' ');
+  }
+
+  /**
+   * Get how far blurs spread pixels, in world units
+   * 获取模糊扩散像素的距离（世界单位）
+   */
+  static getBlurExtent(filter: CanvasFilter): number {
+    // Three standard deviations cover the visible part of a Gaussian
+    let extent = 0;
+    for (const step of filter) {
+      if (step.type === 'blur') {
+        extent += step.radius.toNumber() * 3;
+      }
+    }
+    return extent;
+  }
+
+  /**
+   * Apply filters to pixels in place
+   * 原地将滤镜应用于像素
+   *
+   * @param blurScale - Pixels per world unit of blur radius
+   */
+  static apply(image: ImageData, filter: CanvasFilter, blurScale: number): void {
+    for (const step of filter) {
+      switch (step.type) {
+        case 'blur':
+          FilterProcessor.blur(image, step.radius.toNumber() * blurScale);
+          break;
+        case 'grayscale': {
+          // Color matrices from the Filter Effects specification
+          const s = 1 - Math.min(1, Math.max(0, step.amount));
+          FilterProcessor.applyColorMatrix(image, [
+            0.2126 + 0.7874 * s, 0.7152 - 0.7152 * s, 0.0722 - 0.0722 * s,
+            0.2126 - 0.2126 * s, 0.7152 + 0.2848 * s, 0.0722 - 0.0722 * s,
+            0.2126 - 0.2126 * s, 0.7152 - 0.7152 * s, 0.0722 + 0.9278 * s
+          ]);
+          break;
+        }
+        case 'brightness': {
+          const b = Math.max(0, step.amount);
+          FilterProcessor.applyColorMatrix(image, [b, 0, 0, 0, b, 0, 0, 0, b]);
+          break;
+        }
+        case 'hue-rotate': {
+          const cos = Math.cos(step.angle.toNumber());
+          const sin = Math.sin(step.angle.toNumber());
+          FilterProcessor.applyColorMatrix(image, [
+            0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+            0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+            0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072
+          ]);
+          break;
+        }
+      }
+    }
+  }
+
+  /**
+   * Apply filters to everything drawn on a surface
+   * 将滤镜应用于表面上已绘制的全部内容
+   */
+  static applyToSurface(surface: OffscreenSurface, filter: CanvasFilter, blurScale: number): void {
+    const image = surface.ctx.getImageData(0, 0, surface.width, surface.height);
+    FilterProcessor.apply(image, filter, blurScale);
+    surface.ctx.putImageData(image, 0, 0);
+  }
+
+  /**
+   * Get a filtered copy of an image, made once per image content and filter
+   * 获取图像的滤镜副本，每种图像内容和滤镜只生成一次
+   *
+   * Blurs stop at the image edges, and atlas pages blur across their regions.
+   * 模糊在图像边缘处截止，图集页面的模糊会跨越其中的区域。
+   *
+   * @param version - Content version of the image; a new version rebuilds the copy
+   * @param blurScale - Image pixels per world unit of blur radius
+   */
+  getFiltered(
+    image: CanvasImageSourceType,
+    width: number,
+    height: number,
+    version: number,
+    filter: CanvasFilter,
+    blurScale: number
+  ): CanvasImageSourceType {
+    if (filter.length === 0) return image;
+
+    if (this.epoch !== this.interner.epoch) {
+      this.copies = new WeakMap();
+      this.epoch = this.interner.epoch;
+    }
+
+    let copies = this.copies.get(image);
+    if (!copies) {
+      copies = new Map();
+      this.copies.set(image, copies);
+    }
+
+    const key = `${this.interner.intern(filter)}|${blurScale}`;
+    let copy = copies.get(key);
+    if (!copy || copy.version !== version) {
+      if (!copy && copies.size >= this.maxCopiesPerImage) {
+        copies.clear();
+      }
+
+      let surface: OffscreenSurface;
+      if (!copy) {
+        surface = new OffscreenSurface(width, height);
+      } else {
+        // The image may have been resized along with its new content
+        surface = copy.surface;
+        if (surface.width !== Math.max(1, Math.ceil(width)) || surface.height !== Math.max(1, Math.ceil(height))) {
+          surface.resize(width, height);
+        } else {
+          surface.clear();
+        }
+      }
+      surface.ctx.drawImage(image, 0, 0);
+      FilterProcessor.applyToSurface(surface, filter, blurScale);
+      copy = { version, surface };
+      copies.set(key, copy);
+    }
+    return copy.surface.canvas;
+  }
+
+  /**
+   * Drop all filtered copies
+   * 丢弃所有滤镜副本
+   */
+  clear(): void {
+    this.copies = new WeakMap();
+  }
+
+  /**
+   * Multiply the colors of every pixel by a row-major 3x3 matrix
+   * 用按行排列的3x3矩阵乘以每个像素的颜色
+   */
+  private static applyColorMatrix(image: ImageData, m: number[]): void {
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+      const r = data[i];
+      const g = data[i + 1];
+      const b = data[i + 2];
+      // Uint8ClampedArray clamps and rounds on write
+      data[i] = m[0] * r + m[1] * g + m[2] * b;
+      data[i + 1] = m[3] * r + m[4] * g + m[5] * b;
+      data[i + 2] = m[6] * r + m[7] * g + m[8] * b;
+    }
+  }
+
+  /**
+   * Gaussian blur approximated by repeated box blurs
+   * 通过多次盒式模糊近似高斯模糊
+   *
+   * Colors are blurred premultiplied so transparent pixels don't darken edges;
+   * pixels outside the image count as transparent.
+   * 颜色以预乘形式模糊，避免透明像素使边缘变暗；图像外的像素视为透明。
+   */
+  private static blur(image: ImageData, sigma: number): void {
+    if (sigma <= 0) return;
+
+    const { width, height, data } = image;
+    const pixels = new Float32Array(data.length);
+    for (let i = 0; i < data.length; i += 4) {
+      const alpha = data[i + 3] / 255;
+      pixels[i] = data[i] * alpha;
+      pixels[i + 1] = data[i + 1] * alpha;
+      pixels[i + 2] = data[i + 2] * alpha;
+      pixels[i + 3] = data[i + 3];
+    }
+
+    const scratch = new Float32Array(data.length);
+    for (const size of FilterProcessor.getBoxSizes(sigma)) {
+      const radius = (size - 1) / 2;
+      if (radius === 0) continue;
+      FilterProcessor.boxBlur(pixels, scratch, width, height, radius, true);
+      FilterProcessor.boxBlur(scratch, pixels, width, height, radius, false);
+    }
+
+    for (let i = 0; i < data.length; i += 4) {
+      const alpha = pixels[i + 3];
+      const unpremultiply = alpha > 0 ? 255 / alpha : 0;
+      data[i] = pixels[i] * unpremultiply;
+      data[i + 1] = pixels[i + 1] * unpremultiply;
+      data[i + 2] = pixels[i + 2] * unpremultiply;
+      data[i + 3] = alpha;
+    }
+  }
+
+  /**
+   * Odd box widths whose repeated blurs match a Gaussian's standard deviation
+   * 重复模糊后与高斯标准差匹配的奇数盒宽
+   */
+  private static getBoxSizes(sigma: number): number[] {
+    const n = BOX_BLUR_PASSES;
+    const ideal = Math.sqrt((12 * sigma * sigma) / n + 1);
+    let lower = Math.floor(ideal);
+    if (lower % 2 === 0) {
+      lower--;
+    }
+    const upper = lower + 2;
+    const lowerCount = Math.round((12 * sigma * sigma - n * lower * lower - 4 * n * lower - 3 * n) / (-4 * lower - 4));
+
+    const sizes: number[] = [];
+    for (let i = 0; i < n; i++) {
+      sizes.push(i < lowerCount ? lower : upper);
+    }
+    return sizes;
+  }
+
+  /**
+   * Average each channel over a sliding window along rows or columns
+   * 沿行或列在滑动窗口内对每个通道求平均
+   */
+  private static boxBlur(
+    source: Float32Array,
+    target: Float32Array,
+    width: number,
+    height: number,
+    radius: number,
+    horizontal: boolean
+  ): void {
+    const lines = horizontal ? height : width;
+    const length = horizontal ? width : height;
+    const step = horizontal ? 4 : width * 4;
+    const scale = 1 / (radius * 2 + 1);
+
+    for (let line = 0; line < lines; line++) {
+      const start = horizontal ? line * width * 4 : line * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const base = start + channel;
+
+        // Window of the first pixel; pixels past the edges add nothing
+        let sum = 0;
+        for (let k = 0; k <= Math.min(radius, length - 1); k++) {
+          sum += source[base + k * step];
+        }
+
+        for (let i = 0; i < length; i++) {
+          target[base + i * step] = sum * scale;
+          const entering = i + radius + 1;
+          if (entering < length) {
+            sum += source[base + entering * step];
+          }
+          const leaving = i - radius;
+          if (leaving >= 0) {
+            sum -= source[base + leaving * step];
+          }
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Nine-slice (9-patch) texture drawing
+ * 九宫格纹理绘制
+ */
+
+/// <reference lib="dom" />
+
+import {
+  CanvasImageSourceType,
+  CanvasTexture,
+  NineSliceInsets,
+  NineSliceOptions
+} from '../types/CanvasTypes';
+
+/**
+ * Default nine-slice options
+ * 默认九宫格选项
+ */
+export const DEFAULT_NINE_SLICE_OPTIONS: NineSliceOptions = {
+  centerMode: 'stretch',
+  edgeMode: 'stretch',
+  borderScale: 1,
+  drawCenter: true
+};
+
+/**
+ * Nine-slice drawing helper
+ * 九宫格绘制辅助类
+ *
+ * Corners keep their aspect, edges stretch or tile along one axis and the
+ * center stretches or tiles along both. Borders shrink proportionally when
+ * the box is smaller than the two borders together.
+ * 角保持比例，边沿一个轴拉伸或平铺，中心沿两个轴拉伸或平铺。当矩形小于两侧边框之和时，边框按比例缩小。
+ */
+export class NineSlice {
+  /**
+   * Draw a nine-slice texture into a screen box
+   * 将九宫格纹理绘制到屏幕矩形中
+   *
+   * @param texelScale - Screen pixels per texture pixel for borders and tiles
+   */
+  static draw(
+    ctx: CanvasRenderingContext2D,
+    texture: CanvasTexture,
+    image: CanvasImageSourceType,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    insets: NineSliceInsets,
+    options: NineSliceOptions = DEFAULT_NINE_SLICE_OPTIONS,
+    texelScale: number = 1
+  ): void {
+    if (width <= 0 || height <= 0) return;
+
+    const scale = texelScale * options.borderScale;
+
+    // Source slice edges in texture pixels
+    const srcX = [0, insets.left, texture.width - insets.right, texture.width];
+    const srcY = [0, insets.top, texture.height - insets.bottom, texture.height];
+
+    // Destination borders, shrunk to fit when needed
+    const [left, right] = NineSlice.fitBorders(insets.left * scale, insets.right * scale, width);
+    const [top, bottom] = NineSlice.fitBorders(insets.top * scale, insets.bottom * scale, height);
+    const dstX = [x, x + left, x + width - right, x + width];
+    const dstY = [y, y + top, y + height - bottom, y + height];
+
+    for (let row = 0; row < 3; row++) {
+      for (let col = 0; col < 3; col++) {
+        const isCenter = row === 1 && col === 1;
+        if (isCenter && !options.drawCenter) continue;
+
+        const sx = srcX[col];
+        const sy = srcY[row];
+        const sw = srcX[col + 1] - sx;
+        const sh = srcY[row + 1] - sy;
+        const dx = dstX[col];
+        const dy = dstY[row];
+        const dw = dstX[col + 1] - dx;
+        const dh = dstY[row + 1] - dy;
+        if (sw <= 0 || sh <= 0 || dw <= 0 || dh <= 0) continue;
+
+        // Middle column tiles horizontally, middle row tiles vertically
+        const mode = isCenter ? options.centerMode : options.edgeMode;
+        const tileX = mode === 'tile' && col === 1;
+        const tileY = mode === 'tile' && row === 1;
+
+        if (tileX || tileY) {
+          NineSlice.drawTiled(
+            ctx, texture, image,
+            sx, sy, sw, sh,
+            dx, dy, dw, dh,
+            tileX ? sw * scale : dw,
+            tileY ? sh * scale : dh
+          );
+        } else {
+          texture.drawRegion(ctx, image, sx, sy, sw, sh, dx, dy, dw, dh);
+        }
+      }
+    }
+  }
+
+  /**
+   * Fit two borders into a length, scaling both down proportionally
+   * 将两侧边框适配到指定长度，必要时按比例缩小
+   */
+  private static fitBorders(start: number, end: number, length: number): [number, number] {
+    const total = start + end;
+    if (total <= length || total === 0) {
+      return [start, end];
+    }
+    const factor = length / total;
+    return [start * factor, end * factor];
+  }
+
+  /**
+   * Repeat a source slice over a box; the last tile on each axis is cut short
+   * 在矩形中重复源切片；每个轴上的最后一块会被截短
+   */
+  private static drawTiled(
+    ctx: CanvasRenderingContext2D,
+    texture: CanvasTexture,
+    image: CanvasImageSourceType,
+    sx: number,
+    sy: number,
+    sw: number,
+    sh: number,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number,
+    tileWidth: number,
+    tileHeight: number
+  ): void {
+    if (tileWidth <= 0 || tileHeight <= 0) return;
+
+    for (let offsetY = 0; offsetY < dh; offsetY += tileHeight) {
+      const drawHeight = Math.min(tileHeight, dh - offsetY);
+      const sourceHeight = sh * (drawHeight / tileHeight);
+
+      for (let offsetX = 0; offsetX < dw; offsetX += tileWidth) {
+        const drawWidth = Math.min(tileWidth, dw - offsetX);
+        const sourceWidth = sw * (drawWidth / tileWidth);
+
+        texture.drawRegion(
+          ctx, image,
+          sx, sy, sourceWidth, sourceHeight,
+          dx + offsetX, dy + offsetY, drawWidth, drawHeight
+        );
+      }
+    }
+  }
+}
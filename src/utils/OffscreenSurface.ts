@@ -0,0 +1,93 @@
+/**
+ * Off-screen drawing surface
+ * 离屏绘制表面
+ */
+
+/// <reference lib="dom" />
+
+/**
+ * Off-screen canvas with its 2D context
+ * 带有2D上下文的离屏画布
+ */
+export class OffscreenSurface {
+  public readonly canvas: HTMLCanvasElement | OffscreenCanvas;
+  public readonly ctx: CanvasRenderingContext2D;
+
+  constructor(width: number, height: number, preferOffscreenCanvas: boolean = true) {
+    this.canvas = OffscreenSurface.createCanvas(
+      Math.max(1, Math.ceil(width)),
+      Math.max(1, Math.ceil(height)),
+      preferOffscreenCanvas
+    );
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get 2D rendering context for off-screen surface');
+    }
+    // OffscreenCanvasRenderingContext2D shares the drawing API we use
+    this.ctx = ctx as CanvasRenderingContext2D;
+  }
+
+  /**
+   * Surface width in pixels
+   * 表面宽度（像素）
+   */
+  get width(): number {
+    return this.canvas.width;
+  }
+
+  /**
+   * Surface height in pixels
+   * 表面高度（像素）
+   */
+  get height(): number {
+    return this.canvas.height;
+  }
+
+  /**
+   * Resize surface (clears its content)
+   * 调整表面尺寸（会清除内容）
+   */
+  resize(width: number, height: number): void {
+    this.canvas.width = Math.max(1, Math.ceil(width));
+    this.canvas.height = Math.max(1, Math.ceil(height));
+  }
+
+  /**
+   * Clear the whole surface to transparent
+   * 将整个表面清除为透明
+   */
+  clear(): void {
+    this.ctx.save();
+    this.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.ctx.restore();
+  }
+
+  /**
+   * Check if OffscreenCanvas is available in this environment
+   * 检查当前环境是否支持OffscreenCanvas
+   */
+  static isOffscreenCanvasSupported(): boolean {
+    return typeof OffscreenCanvas !== 'undefined';
+  }
+
+  /**
+   * Create a canvas, preferring OffscreenCanvas when available
+   * 创建画布，在可用时优先使用OffscreenCanvas
+   */
+  private static createCanvas(
+    width: number,
+    height: number,
+    preferOffscreenCanvas: boolean
+  ): HTMLCanvasElement | OffscreenCanvas {
+    if (preferOffscreenCanvas && OffscreenSurface.isOffscreenCanvasSupported()) {
+      return new OffscreenCanvas(width, height);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+}
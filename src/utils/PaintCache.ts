@@ -0,0 +1,281 @@
+/**
+ * Cache of Canvas gradient and pattern objects built from world-space paints
+ * 由世界空间绘制构建的Canvas渐变和图案对象缓存
+ */
+
+/// <reference lib="dom" />
+
+import { FixedVector2 } from '@esengine/nova-ecs-math';
+import { Color } from '@esengine/nova-ecs-render-core';
+import { CanvasImageSourceType, CanvasTexture, ScreenPoint, ScreenTransform } from '../types/CanvasTypes';
+import { CanvasPaint, CanvasShapeStyle, GradientPaint, PatternPaint } from '../types/PaintTypes';
+import { StyleInterner } from './StyleInterner';
+import { OffscreenSurface } from './OffscreenSurface';
+
+/**
+ * Mapping from world to screen coordinates that paints are placed with
+ * 放置绘制时使用的世界到屏幕坐标映射
+ */
+export interface PaintSpace {
+  getWorldToScreenTransform(): ScreenTransform;
+  getPixelsPerUnit(): number;
+  /** Device pixels per screen pixel */
+  getDevicePixelRatio(): number;
+}
+
+/**
+ * Identity mapping, used when no paint space is set
+ * 未设置绘制空间时使用的恒等映射
+ */
+export const SCREEN_SPACE: PaintSpace = {
+  getWorldToScreenTransform: () => ({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 }),
+  getPixelsPerUnit: () => 1,
+  getDevicePixelRatio: () => 1
+};
+
+/**
+ * Drawn while a pattern's image cannot be used yet
+ * 图案图像尚不可用时绘制的内容
+ */
+const TRANSPARENT = 'rgba(0, 0, 0, 0)';
+
+/**
+ * Pixels of a texture region copied out of its atlas
+ * 从图集中复制出的纹理区域像素
+ */
+interface RegionCopy {
+  version: number;
+  surface: OffscreenSurface;
+}
+
+/**
+ * Builds Canvas gradients and patterns for paints and keeps them while the view is unchanged
+ * 为绘制构建Canvas渐变和图案，并在视图不变时保留
+ *
+ * Shapes are traced in screen space, so paints are placed there too: a
+ * paint is built once per camera transform and reused by every draw using it.
+ * Patterns are also rebuilt when their texture is marked dirty.
+ * 形状在屏幕空间中描绘，因此绘制也放置在屏幕空间：每个相机变换下每个绘制只构建一次，并被所有使用它的绘制复用。
+ * 纹理被标记为脏时图案也会重建。
+ */
+export class PaintCache {
+  private interner: StyleInterner;
+  private paints = new Map<string, string | CanvasGradient | CanvasPattern>();
+  private regionCopies = new WeakMap<CanvasTexture, RegionCopy>();
+  private epoch: number;
+  private maxPaints: number;
+  private conicFallbackWarned: boolean = false;
+
+  /**
+   * @param interner - Interner giving equal paints the same id
+   * @param maxPaints - Paints kept before the cache is cleared
+   */
+  constructor(interner: StyleInterner = StyleInterner.shared, maxPaints: number = 256) {
+    this.interner = interner;
+    this.epoch = interner.epoch;
+    this.maxPaints = maxPaints;
+  }
+
+  /**
+   * Number of cached paints
+   * 已缓存的绘制数量
+   */
+  get size(): number {
+    return this.paints.size;
+  }
+
+  /**
+   * Get Canvas object of a paint for the current view
+   * 获取当前视图下绘制对应的Canvas对象
+   */
+  get(
+    ctx: CanvasRenderingContext2D,
+    paint: CanvasPaint,
+    space: PaintSpace | null
+  ): string | CanvasGradient | CanvasPattern {
+    if (this.epoch !== this.interner.epoch) {
+      this.paints.clear();
+      this.epoch = this.interner.epoch;
+    }
+
+    const paintSpace = space ?? SCREEN_SPACE;
+    const view = paintSpace.getWorldToScreenTransform();
+    let key = `${this.interner.intern(paint)}|${view.a},${view.b},${view.c},${view.d},${view.e},${view.f}`;
+    if (paint.type === 'pattern') {
+      key += `|${paint.texture.baseTexture.version}`;
+    }
+
+    let value = this.paints.get(key);
+    if (!value) {
+      const created = paint.type === 'pattern'
+        ? this.createPattern(ctx, paint, view, paintSpace.getPixelsPerUnit())
+        : this.createGradient(ctx, paint, view);
+      // Images that are not ready yet are tried again on the next draw
+      if (!created) {
+        return TRANSPARENT;
+      }
+
+      if (this.paints.size >= this.maxPaints) {
+        this.paints.clear();
+      }
+      value = created;
+      this.paints.set(key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Drop all cached paints
+   * 丢弃所有缓存的绘制
+   */
+  clear(): void {
+    this.paints.clear();
+  }
+
+  /**
+   * Check whether a paint covers everything it is drawn over
+   * 检查绘制是否完全覆盖其下方内容
+   */
+  static isOpaque(paint: CanvasPaint): boolean {
+    // Textures may have transparent pixels
+    return paint.type !== 'pattern' && paint.stops.every(stop => stop.color.a >= 1);
+  }
+
+  /**
+   * Check whether a shape style fills, with a color or a paint
+   * 检查形状样式是否使用颜色或绘制进行填充
+   */
+  static hasFill(style: CanvasShapeStyle): boolean {
+    return !!style.fillColor || !!style.fillPaint;
+  }
+
+  /**
+   * Check whether a shape style strokes, with a color or a paint
+   * 检查形状样式是否使用颜色或绘制进行描边
+   */
+  static hasStroke(style: CanvasShapeStyle): boolean {
+    return !!style.strokeColor || !!style.strokePaint;
+  }
+
+  /**
+   * Convert a color to a CSS color string keeping its alpha
+   * 将颜色转换为保留透明度的CSS颜色字符串
+   */
+  static toColorString(color: Color): string {
+    return `rgba(${Math.round(color.r * 255)}, ${Math.round(color.g * 255)}, ${Math.round(color.b * 255)}, ${color.a})`;
+  }
+
+  private createGradient(ctx: CanvasRenderingContext2D, paint: GradientPaint, view: ScreenTransform): string | CanvasGradient {
+    let gradient: CanvasGradient;
+
+    switch (paint.type) {
+      case 'linear-gradient': {
+        const start = this.toScreen(view, paint.start);
+        const end = this.toScreen(view, paint.end);
+        gradient = ctx.createLinearGradient(start.x, start.y, end.x, end.y);
+        break;
+      }
+      case 'radial-gradient': {
+        // The view scales uniformly, so radii scale by the square root of its determinant
+        const scale = Math.sqrt(Math.abs(view.a * view.d - view.b * view.c));
+        const center = this.toScreen(view, paint.center);
+        const innerCenter = paint.innerCenter ? this.toScreen(view, paint.innerCenter) : center;
+        const innerRadius = paint.innerRadius ? paint.innerRadius.toNumber() * scale : 0;
+        gradient = ctx.createRadialGradient(
+          innerCenter.x,
+          innerCenter.y,
+          innerRadius,
+          center.x,
+          center.y,
+          paint.radius.toNumber() * scale
+        );
+        break;
+      }
+      case 'conic-gradient': {
+        // Older browsers and some server-side canvases cannot build conic gradients
+        if (typeof ctx.createConicGradient !== 'function') {
+          if (!this.conicFallbackWarned) {
+            this.conicFallbackWarned = true;
+            // eslint-disable-next-line no-console
+            console.warn('Conic gradients are not supported by this context, using the first stop color instead');
+          }
+          return paint.stops.length > 0 ? PaintCache.toColorString(paint.stops[0].color) : TRANSPARENT;
+        }
+
+        // Turn the world start direction into a screen angle
+        const angle = paint.angle.toNumber();
+        const dx = view.a * Math.cos(angle) + view.c * Math.sin(angle);
+        const dy = view.b * Math.cos(angle) + view.d * Math.sin(angle);
+        const center = this.toScreen(view, paint.center);
+        gradient = ctx.createConicGradient(Math.atan2(dy, dx), center.x, center.y);
+        break;
+      }
+    }
+
+    for (const stop of paint.stops) {
+      gradient.addColorStop(Math.min(1, Math.max(0, stop.offset)), PaintCache.toColorString(stop.color));
+    }
+    return gradient;
+  }
+
+  private createPattern(
+    ctx: CanvasRenderingContext2D,
+    paint: PatternPaint,
+    view: ScreenTransform,
+    pixelsPerUnit: number
+  ): CanvasPattern | null {
+    const pattern = ctx.createPattern(this.getPatternImage(paint.texture), paint.repeat ?? 'repeat');
+    if (!pattern) return null;
+
+    // Tile pixels to world: scale, flip so the texture is upright in a Y-up world, rotate, offset
+    const scaleX = paint.scale ? paint.scale.x.toNumber() : 1 / pixelsPerUnit;
+    const scaleY = paint.scale ? paint.scale.y.toNumber() : 1 / pixelsPerUnit;
+    const rotation = paint.rotation ? paint.rotation.toNumber() : 0;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const uX = cos * scaleX;
+    const uY = sin * scaleX;
+    const vX = sin * scaleY;
+    const vY = -cos * scaleY;
+    const offset = paint.offset ? this.toScreen(view, paint.offset) : { x: view.e, y: view.f };
+
+    // Then world to screen
+    pattern.setTransform({
+      a: view.a * uX + view.c * uY,
+      b: view.b * uX + view.d * uY,
+      c: view.a * vX + view.c * vY,
+      d: view.b * vX + view.d * vY,
+      e: offset.x,
+      f: offset.y
+    });
+    return pattern;
+  }
+
+  /**
+   * Get image holding exactly the pixels of a texture
+   * 获取恰好包含纹理像素的图像
+   */
+  private getPatternImage(texture: CanvasTexture): CanvasImageSourceType {
+    // Whole textures repeat their own source; atlas regions are copied out first
+    if (texture.baseTexture === texture) {
+      return texture.source;
+    }
+
+    const version = texture.baseTexture.version;
+    let copy = this.regionCopies.get(texture);
+    if (!copy || copy.version !== version) {
+      const surface = copy ? copy.surface : new OffscreenSurface(texture.width, texture.height);
+      surface.clear();
+      texture.drawRegion(surface.ctx, texture.source, 0, 0, texture.width, texture.height, 0, 0, texture.width, texture.height);
+      copy = { version, surface };
+      this.regionCopies.set(texture, copy);
+    }
+    return copy.surface.canvas;
+  }
+
+  private toScreen(view: ScreenTransform, point: FixedVector2): ScreenPoint {
+    const x = point.x.toNumber();
+    const y = point.y.toNumber();
+    return { x: view.a * x + view.c * y + view.e, y: view.b * x + view.d * y + view.f };
+  }
+}
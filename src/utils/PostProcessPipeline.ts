@@ -0,0 +1,418 @@
+/**
+ * Full-frame post-processing pipeline
+ * 全帧后期处理管线
+ */
+
+/// <reference lib="dom" />
+
+import { CanvasTexture } from '../types/CanvasTypes';
+import {
+  BloomPass,
+  ChromaticAberrationPass,
+  ColorGradingPass,
+  PixelatePass,
+  PostProcessPass,
+  PostProcessPassType,
+  ScanlinesPass,
+  VignettePass
+} from '../types/PostProcessTypes';
+import { OffscreenSurface } from './OffscreenSurface';
+import { PaintCache } from './PaintCache';
+
+/**
+ * Pixels of a lookup table read back from its texture
+ * 从纹理读回的查找表像素
+ */
+interface LutPixels {
+  version: number;
+  size: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Channel masks used to split the frame for chromatic aberration
+ * 色差处理中用于拆分画面的通道掩码
+ */
+const CHANNELS: Array<{ color: string; direction: number }> = [
+  { color: '#f00', direction: -1 },
+  { color: '#0f0', direction: 0 },
+  { color: '#00f', direction: 1 }
+];
+
+/**
+ * Renders a frame off-screen, runs ordered passes over it and presents the result
+ * 在离屏绘制画面，按顺序对其运行处理阶段并呈现结果
+ *
+ * Passes work on device pixels of the whole frame. Most are built from
+ * Canvas drawing operations; color grading reads and writes pixels.
+ * 处理阶段作用于整个画面的设备像素。大多数阶段由Canvas绘制操作构成；调色会读写像素。
+ */
+export class PostProcessPipeline {
+  private passes: PostProcessPass[];
+  private scene: OffscreenSurface | null = null;
+  /** Intermediate surfaces of the passes, by use */
+  private surfaces = new Map<string, OffscreenSurface>();
+  private scanlinePatterns = new Map<string, CanvasPattern>();
+  private lutPixels = new WeakMap<CanvasTexture, LutPixels>();
+  private timings: Partial<Record<PostProcessPassType, number>> = {};
+
+  constructor(passes: PostProcessPass[] = []) {
+    this.passes = passes;
+  }
+
+  /**
+   * Replace the passes, run in array order
+   * 替换处理阶段，按数组顺序运行
+   */
+  setPasses(passes: PostProcessPass[]): void {
+    this.passes = passes;
+  }
+
+  /**
+   * Get the passes, in the order they run
+   * 获取处理阶段，按其运行顺序排列
+   */
+  getPasses(): readonly PostProcessPass[] {
+    return this.passes;
+  }
+
+  /**
+   * Turn every pass of a type on or off
+   * 开启或关闭某一类型的所有处理阶段
+   *
+   * @returns Whether a pass of the type exists
+   */
+  setPassEnabled(type: PostProcessPassType, enabled: boolean): boolean {
+    let found = false;
+    for (const pass of this.passes) {
+      if (pass.type === type) {
+        pass.enabled = enabled;
+        found = true;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Check whether any pass would run
+   * 检查是否有处理阶段会运行
+   */
+  isActive(): boolean {
+    return this.passes.some(pass => pass.enabled !== false);
+  }
+
+  /**
+   * Get the surface the frame is drawn into, cleared at the given size
+   * 获取绘制画面的表面，按给定尺寸清空
+   */
+  beginFrame(width: number, height: number): OffscreenSurface {
+    this.scene = this.prepare(this.scene, width, height);
+    return this.scene;
+  }
+
+  /**
+   * Run the enabled passes over the frame and draw it onto a context
+   * 对画面运行已启用的处理阶段并将其绘制到上下文
+   */
+  present(target: CanvasRenderingContext2D): void {
+    this.timings = {};
+    if (!this.scene) return;
+
+    const scene = this.scene;
+    for (const pass of this.passes) {
+      if (pass.enabled === false) continue;
+
+      const start = performance.now();
+      this.runPass(pass, scene);
+      this.timings[pass.type] = (this.timings[pass.type] ?? 0) + performance.now() - start;
+    }
+
+    target.save();
+    target.setTransform(1, 0, 0, 1, 0, 0);
+    target.globalAlpha = 1;
+    target.globalCompositeOperation = 'copy';
+    target.shadowColor = 'rgba(0, 0, 0, 0)';
+    target.drawImage(scene.canvas, 0, 0);
+    target.restore();
+  }
+
+  /**
+   * Get milliseconds spent in each pass type during the last present
+   * 获取上次呈现时每种处理阶段耗费的毫秒数
+   */
+  getTimings(): Readonly<Partial<Record<PostProcessPassType, number>>> {
+    return this.timings;
+  }
+
+  /**
+   * Release the frame and intermediate surfaces
+   * 释放画面和中间表面
+   */
+  dispose(): void {
+    this.scene = null;
+    this.surfaces.clear();
+    this.scanlinePatterns.clear();
+    this.lutPixels = new WeakMap();
+    this.timings = {};
+  }
+
+  /**
+   * Grade colors through a lookup table with trilinear interpolation
+   * 通过查找表以三线性插值对颜色进行调色
+   *
+   * @param lut - Pixels of the table strip, size * size wide and size high
+   * @param intensity - Blend between the original (0) and graded (1) colors
+   */
+  static applyLut(image: ImageData, lut: Uint8ClampedArray, size: number, intensity: number = 1): void {
+    const data = image.data;
+    const max = size - 1;
+    const rowWidth = size * size;
+    const mix = Math.min(1, Math.max(0, intensity));
+    const corners = [0, 0, 0];
+
+    for (let i = 0; i < data.length; i += 4) {
+      const r = (data[i] / 255) * max;
+      const g = (data[i + 1] / 255) * max;
+      const b = (data[i + 2] / 255) * max;
+      const r0 = Math.floor(r);
+      const g0 = Math.floor(g);
+      const b0 = Math.floor(b);
+      const r1 = Math.min(r0 + 1, max);
+      const g1 = Math.min(g0 + 1, max);
+      const b1 = Math.min(b0 + 1, max);
+      const fr = r - r0;
+      const fg = g - g0;
+      const fb = b - b0;
+
+      // Offsets of the eight surrounding table entries; red runs along a row,
+      // blue picks the cell and green the row of the strip
+      const g0b0 = (g0 * rowWidth + b0 * size) * 4;
+      const g1b0 = (g1 * rowWidth + b0 * size) * 4;
+      const g0b1 = (g0 * rowWidth + b1 * size) * 4;
+      const g1b1 = (g1 * rowWidth + b1 * size) * 4;
+      const red0 = r0 * 4;
+      const red1 = r1 * 4;
+
+      for (let channel = 0; channel < 3; channel++) {
+        const c00 = lut[g0b0 + red0 + channel] + (lut[g0b0 + red1 + channel] - lut[g0b0 + red0 + channel]) * fr;
+        const c10 = lut[g1b0 + red0 + channel] + (lut[g1b0 + red1 + channel] - lut[g1b0 + red0 + channel]) * fr;
+        const c01 = lut[g0b1 + red0 + channel] + (lut[g0b1 + red1 + channel] - lut[g0b1 + red0 + channel]) * fr;
+        const c11 = lut[g1b1 + red0 + channel] + (lut[g1b1 + red1 + channel] - lut[g1b1 + red0 + channel]) * fr;
+        const c0 = c00 + (c10 - c00) * fg;
+        const c1 = c01 + (c11 - c01) * fg;
+        corners[channel] = c0 + (c1 - c0) * fb;
+      }
+
+      data[i] += (corners[0] - data[i]) * mix;
+      data[i + 1] += (corners[1] - data[i + 1]) * mix;
+      data[i + 2] += (corners[2] - data[i + 2]) * mix;
+    }
+  }
+
+  /**
+   * Run one pass over the frame in place
+   * 在画面上原地运行一个处理阶段
+   */
+  private runPass(pass: PostProcessPass, surface: OffscreenSurface): void {
+    switch (pass.type) {
+      case 'vignette': this.applyVignette(pass, surface); break;
+      case 'color-grading': this.applyColorGrading(pass, surface); break;
+      case 'pixelate': this.applyPixelate(pass, surface); break;
+      case 'scanlines': this.applyScanlines(pass, surface); break;
+      case 'chromatic-aberration': this.applyChromaticAberration(pass, surface); break;
+      case 'bloom': this.applyBloom(pass, surface); break;
+    }
+  }
+
+  private applyVignette(pass: VignettePass, surface: OffscreenSurface): void {
+    const ctx = surface.ctx;
+    const color = pass.color ?? { r: 0, g: 0, b: 0, a: 1 };
+    const centerX = surface.width / 2;
+    const centerY = surface.height / 2;
+    const outer = Math.hypot(centerX, centerY);
+    const inner = outer * Math.min(1, Math.max(0, pass.radius ?? 0.5));
+
+    const gradient = ctx.createRadialGradient(centerX, centerY, inner, centerX, centerY, outer);
+    gradient.addColorStop(0, PaintCache.toColorString({ ...color, a: 0 }));
+    gradient.addColorStop(1, PaintCache.toColorString({ ...color, a: Math.min(1, Math.max(0, pass.strength ?? 0.5)) }));
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, surface.width, surface.height);
+    ctx.restore();
+  }
+
+  private applyColorGrading(pass: ColorGradingPass, surface: OffscreenSurface): void {
+    const lut = this.getLutPixels(pass.lut);
+    if (lut.size < 2) return;
+
+    const image = surface.ctx.getImageData(0, 0, surface.width, surface.height);
+    PostProcessPipeline.applyLut(image, lut.data, lut.size, pass.intensity ?? 1);
+    surface.ctx.putImageData(image, 0, 0);
+  }
+
+  private applyPixelate(pass: PixelatePass, surface: OffscreenSurface): void {
+    const size = Math.max(1, Math.round(pass.size ?? 4));
+    if (size === 1) return;
+
+    // Shrink, then grow back without smoothing so each pixel becomes a block
+    const width = Math.ceil(surface.width / size);
+    const height = Math.ceil(surface.height / size);
+    const small = this.acquire('pixelate', width, height);
+    small.ctx.drawImage(surface.canvas, 0, 0, width, height);
+
+    const ctx = surface.ctx;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.imageSmoothingEnabled = false;
+    ctx.globalCompositeOperation = 'copy';
+    ctx.drawImage(small.canvas, 0, 0, width, height, 0, 0, width * size, height * size);
+    ctx.restore();
+  }
+
+  private applyScanlines(pass: ScanlinesPass, surface: OffscreenSurface): void {
+    const spacing = Math.max(2, Math.round(pass.spacing ?? 3));
+    const thickness = Math.min(spacing - 1, Math.max(1, Math.round(pass.thickness ?? 1)));
+    const strength = Math.min(1, Math.max(0, pass.strength ?? 0.3));
+
+    const key = `${spacing}|${thickness}|${strength}`;
+    let pattern = this.scanlinePatterns.get(key);
+    if (!pattern) {
+      // One period of lines, repeated down the frame
+      const tile = new OffscreenSurface(1, spacing);
+      tile.ctx.fillStyle = `rgba(0, 0, 0, ${strength})`;
+      tile.ctx.fillRect(0, 0, 1, thickness);
+      const created = surface.ctx.createPattern(tile.canvas, 'repeat');
+      if (!created) return;
+      pattern = created;
+      this.scanlinePatterns.set(key, pattern);
+    }
+
+    const ctx = surface.ctx;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = pattern;
+    ctx.fillRect(0, 0, surface.width, surface.height);
+    ctx.restore();
+  }
+
+  private applyChromaticAberration(pass: ChromaticAberrationPass, surface: OffscreenSurface): void {
+    const offset = pass.offset ?? 2;
+    if (offset === 0) return;
+
+    // Each channel is cut out at its offset, then the three are added together
+    const target = this.acquire('aberration', surface.width, surface.height);
+    const channel = this.acquire('channel', surface.width, surface.height);
+    const ctx = channel.ctx;
+    target.ctx.globalCompositeOperation = 'lighter';
+
+    for (const { color, direction } of CHANNELS) {
+      const x = offset * direction;
+      ctx.globalCompositeOperation = 'copy';
+      ctx.drawImage(surface.canvas, x, 0);
+      ctx.globalCompositeOperation = 'multiply';
+      ctx.fillStyle = color;
+      ctx.fillRect(0, 0, channel.width, channel.height);
+      ctx.globalCompositeOperation = 'destination-in';
+      ctx.drawImage(surface.canvas, x, 0);
+      target.ctx.drawImage(channel.canvas, 0, 0);
+    }
+
+    ctx.globalCompositeOperation = 'source-over';
+    target.ctx.globalCompositeOperation = 'source-over';
+
+    surface.ctx.save();
+    surface.ctx.setTransform(1, 0, 0, 1, 0, 0);
+    surface.ctx.globalCompositeOperation = 'copy';
+    surface.ctx.drawImage(target.canvas, 0, 0);
+    surface.ctx.restore();
+  }
+
+  private applyBloom(pass: BloomPass, surface: OffscreenSurface): void {
+    const threshold = Math.min(0.99, Math.max(0, pass.threshold ?? 0.7));
+    const intensity = Math.max(0, pass.intensity ?? 0.8);
+    const downsample = Math.max(1, pass.downsample ?? 8);
+    const width = Math.ceil(surface.width / downsample);
+    const height = Math.ceil(surface.height / downsample);
+
+    // Keep what lies above the threshold: x - min(x, threshold)
+    const bright = this.acquire('bloom-bright', width, height);
+    bright.ctx.drawImage(surface.canvas, 0, 0, width, height);
+    const clamped = this.acquire('bloom-clamped', width, height);
+    clamped.ctx.drawImage(bright.canvas, 0, 0);
+    clamped.ctx.globalCompositeOperation = 'darken';
+    const level = Math.round(threshold * 255);
+    clamped.ctx.fillStyle = `rgb(${level}, ${level}, ${level})`;
+    clamped.ctx.fillRect(0, 0, width, height);
+    clamped.ctx.globalCompositeOperation = 'source-over';
+    bright.ctx.globalCompositeOperation = 'difference';
+    bright.ctx.drawImage(clamped.canvas, 0, 0);
+    bright.ctx.globalCompositeOperation = 'source-over';
+
+    // Shrinking further and stretching back with smoothing blurs the glow
+    const glowWidth = Math.ceil(width / 4);
+    const glowHeight = Math.ceil(height / 4);
+    const glow = this.acquire('bloom-glow', glowWidth, glowHeight);
+    glow.ctx.imageSmoothingEnabled = true;
+    glow.ctx.drawImage(bright.canvas, 0, 0, glowWidth, glowHeight);
+
+    // What is left spans 0 to 1 - threshold, so it is added until it reaches the intensity
+    const ctx = surface.ctx;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.imageSmoothingEnabled = true;
+    ctx.globalCompositeOperation = 'lighter';
+    let gain = intensity / (1 - threshold);
+    while (gain > 0) {
+      ctx.globalAlpha = Math.min(1, gain);
+      ctx.drawImage(glow.canvas, 0, 0, glowWidth, glowHeight, 0, 0, surface.width, surface.height);
+      gain -= 1;
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Get pixels of a lookup table texture, read once per texture content
+   * 获取查找表纹理的像素，每种纹理内容只读取一次
+   */
+  private getLutPixels(texture: CanvasTexture): LutPixels {
+    const version = texture.baseTexture.version;
+    let pixels = this.lutPixels.get(texture);
+    if (!pixels || pixels.version !== version) {
+      const size = Math.round(texture.height);
+      const width = size * size;
+      const surface = new OffscreenSurface(width, size);
+      texture.draw(surface.ctx, texture.baseTexture.source, 0, 0, width, size);
+      pixels = { version, size, data: surface.ctx.getImageData(0, 0, width, size).data };
+      this.lutPixels.set(texture, pixels);
+    }
+    return pixels;
+  }
+
+  /**
+   * Get a cleared intermediate surface of a given size
+   * 获取指定尺寸且已清空的中间表面
+   */
+  private acquire(use: string, width: number, height: number): OffscreenSurface {
+    const surface = this.prepare(this.surfaces.get(use) ?? null, width, height);
+    this.surfaces.set(use, surface);
+    return surface;
+  }
+
+  /**
+   * Resize or clear a surface, creating it when missing
+   * 调整表面尺寸或清空表面，不存在时创建
+   */
+  private prepare(surface: OffscreenSurface | null, width: number, height: number): OffscreenSurface {
+    if (!surface) {
+      return new OffscreenSurface(width, height);
+    }
+    if (surface.width !== Math.max(1, Math.ceil(width)) || surface.height !== Math.max(1, Math.ceil(height))) {
+      surface.resize(width, height);
+    } else {
+      surface.clear();
+    }
+    return surface;
+  }
+}
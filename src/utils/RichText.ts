@@ -0,0 +1,315 @@
+/**
+ * Rich text markup parsing and layout
+ * 富文本标记解析与布局
+ */
+
+import { Color } from '@esengine/nova-ecs-render-core';
+
+import {
+  RichTextLayoutResult,
+  RichTextLine,
+  RichTextPiece,
+  RichTextRun,
+  RichTextTextRun
+} from '../types/RichTextTypes';
+
+/**
+ * Share of the font size above the baseline, used to align mixed sizes
+ * 字号在基线以上所占比例，用于对齐不同字号
+ */
+const TEXT_ASCENT_RATIO = 0.8;
+
+/**
+ * Rich text layout parameters in pixels
+ * 以像素为单位的富文本布局参数
+ */
+export interface RichTextLayoutParams {
+  /** Font size of text without a size tag */
+  baseFontSize: number;
+  /** Maximum line width (Infinity for none) */
+  maxWidth: number;
+  /** Line height as a multiple of the largest font size on the line */
+  lineHeight: number;
+  /** Maximum number of lines (Infinity for none) */
+  maxLines: number;
+  wrap: boolean;
+  /** Measures text of a run */
+  measure: (text: string, run: RichTextTextRun) => number;
+  /** Size of an icon drawn at a font size, or null for an unknown icon */
+  getIconSize: (name: string, fontSize: number) => { width: number; height: number } | null;
+}
+
+/**
+ * Rich text markup: [b], [i], [color=#rgb], [size=24] with closing tags, and [icon=name]
+ * 富文本标记：[b]、[i]、[color=#rgb]、[size=24]及其闭合标签，以及[icon=name]
+ *
+ * Tags nest; '[[' writes a literal '['. Unknown or malformed tags stay as text.
+ * 标签可以嵌套；'[['表示字面量'['。未知或格式错误的标签按文本保留。
+ */
+export class RichText {
+  /**
+   * Parse markup into styled runs
+   * 将标记解析为带样式的片段
+   */
+  static parse(markup: string): RichTextRun[] {
+    const runs: RichTextRun[] = [];
+    const colors: Color[] = [];
+    const sizes: number[] = [];
+    let bold = 0;
+    let italic = 0;
+    let text = '';
+
+    const flush = (): void => {
+      if (text.length === 0) return;
+      runs.push({
+        type: 'text',
+        text,
+        bold: bold > 0,
+        italic: italic > 0,
+        color: colors.length > 0 ? colors[colors.length - 1] : null,
+        fontSize: sizes.length > 0 ? sizes[sizes.length - 1] : null
+      });
+      text = '';
+    };
+
+    let index = 0;
+    while (index < markup.length) {
+      const char = markup[index];
+      if (char !== '[') {
+        text += char;
+        index++;
+        continue;
+      }
+      if (markup[index + 1] === '[') {
+        text += '[';
+        index += 2;
+        continue;
+      }
+
+      const end = markup.indexOf(']', index);
+      const tag = end > index ? markup.substring(index + 1, end) : '';
+      const equals = tag.indexOf('=');
+      const name = (equals >= 0 ? tag.substring(0, equals) : tag).trim().toLowerCase();
+      const value = equals >= 0 ? tag.substring(equals + 1).trim() : '';
+
+      let handled = true;
+      let color: Color | null = null;
+      switch (name) {
+        case 'b':
+        case 'i':
+        case '/b':
+        case '/i':
+          flush();
+          if (name === 'b') bold++;
+          else if (name === 'i') italic++;
+          else if (name === '/b') bold = Math.max(0, bold - 1);
+          else italic = Math.max(0, italic - 1);
+          break;
+        case 'color':
+          color = RichText.parseColor(value);
+          if (color) {
+            flush();
+            colors.push(color);
+          } else {
+            handled = false;
+          }
+          break;
+        case 'size':
+          if (Number(value) > 0) {
+            flush();
+            sizes.push(Number(value));
+          } else {
+            handled = false;
+          }
+          break;
+        case '/color':
+          flush();
+          colors.pop();
+          break;
+        case '/size':
+          flush();
+          sizes.pop();
+          break;
+        case 'icon':
+          if (value) {
+            flush();
+            runs.push({ type: 'icon', name: value, fontSize: sizes.length > 0 ? sizes[sizes.length - 1] : null });
+          } else {
+            handled = false;
+          }
+          break;
+        default:
+          handled = false;
+      }
+
+      if (handled) {
+        index = end + 1;
+      } else {
+        text += char;
+        index++;
+      }
+    }
+
+    flush();
+    return runs;
+  }
+
+  /**
+   * Parse a hex color (#rgb, #rgba, #rrggbb or #rrggbbaa)
+   * 解析十六进制颜色（#rgb、#rgba、#rrggbb或#rrggbbaa）
+   */
+  static parseColor(value: string): Color | null {
+    const match = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(value);
+    if (!match) {
+      return null;
+    }
+
+    let hex = match[1];
+    if (hex.length <= 4) {
+      hex = hex.split('').map(digit => digit + digit).join('');
+    }
+    const channel = (offset: number): number => parseInt(hex.substring(offset, offset + 2), 16) / 255;
+
+    return {
+      r: channel(0),
+      g: channel(2),
+      b: channel(4),
+      a: hex.length === 8 ? channel(6) : 1
+    };
+  }
+
+  /**
+   * Lay out runs into lines, wrapping at whitespace
+   * 将片段布局为多行，在空白处折行
+   *
+   * Words and icons are never split; a word wider than a line overflows it.
+   * 单词和图标不会被拆分；比行更宽的单词会超出该行。
+   */
+  static layout(runs: RichTextRun[], params: RichTextLayoutParams): RichTextLayoutResult {
+    const lines: RichTextLine[] = [];
+    let pieces: RichTextPiece[] = [];
+    let x = 0;
+    let top = 0;
+    let wrapped = false;
+
+    const finishLine = (byWrap: boolean): void => {
+      // Drop trailing whitespace
+      while (pieces.length > 0) {
+        const last = pieces[pieces.length - 1];
+        if (last.run.type !== 'text') break;
+
+        const trimmed = last.text.replace(/\s+$/, '');
+        if (trimmed.length > 0) {
+          if (trimmed !== last.text) {
+            last.text = trimmed;
+            last.width = params.measure(trimmed, last.run);
+          }
+          break;
+        }
+        pieces.pop();
+      }
+      const line = RichText.measureLine(pieces, params);
+      line.top = top;
+      top += line.height;
+      lines.push(line);
+      pieces = [];
+      x = 0;
+      wrapped = byWrap;
+    };
+
+    for (const run of runs) {
+      if (run.type === 'icon') {
+        const size = params.getIconSize(run.name, run.fontSize ?? params.baseFontSize);
+        if (!size) continue;
+
+        if (params.wrap && pieces.length > 0 && x + size.width > params.maxWidth) {
+          finishLine(true);
+        }
+        pieces.push({ run, text: '', x, width: size.width, ascent: size.height });
+        x += size.width;
+        continue;
+      }
+
+      const fontSize = run.fontSize ?? params.baseFontSize;
+      for (const token of run.text.split(/(\r?\n|[^\S\r\n]+)/)) {
+        if (token === '') continue;
+        if (token === '\n' || token === '\r\n') {
+          finishLine(false);
+          continue;
+        }
+
+        const isSpace = !/\S/.test(token);
+        if (isSpace && pieces.length === 0 && wrapped) {
+          // Wrapped lines do not start with whitespace
+          continue;
+        }
+
+        const width = params.measure(token, run);
+        if (params.wrap && !isSpace && pieces.length > 0 && x + width > params.maxWidth) {
+          finishLine(true);
+        }
+
+        // Extend the previous piece of the same run
+        const last = pieces[pieces.length - 1];
+        if (last && last.run === run) {
+          last.text += token;
+          last.width = params.measure(last.text, run);
+          x = last.x + last.width;
+        } else {
+          pieces.push({ run, text: token, x, width, ascent: fontSize * TEXT_ASCENT_RATIO });
+          x += width;
+        }
+      }
+    }
+    finishLine(false);
+
+    let truncated = false;
+    const maxLines = Math.max(1, params.maxLines);
+    if (lines.length > maxLines) {
+      lines.length = maxLines;
+      truncated = true;
+    }
+
+    const last = lines[lines.length - 1];
+    return {
+      lines,
+      width: lines.reduce((max, line) => Math.max(max, line.width), 0),
+      height: last.top + last.height,
+      truncated
+    };
+  }
+
+  /**
+   * Compute width, height and baseline of a line
+   * 计算一行的宽度、高度和基线
+   */
+  private static measureLine(pieces: RichTextPiece[], params: RichTextLayoutParams): RichTextLine {
+    let ascent = 0;
+    let descent = 0;
+    let largestFont = 0;
+
+    for (const piece of pieces) {
+      ascent = Math.max(ascent, piece.ascent);
+      if (piece.run.type === 'text') {
+        const fontSize = piece.run.fontSize ?? params.baseFontSize;
+        largestFont = Math.max(largestFont, fontSize);
+        descent = Math.max(descent, fontSize * (1 - TEXT_ASCENT_RATIO));
+      }
+    }
+    if (pieces.length === 0) {
+      largestFont = params.baseFontSize;
+      ascent = params.baseFontSize * TEXT_ASCENT_RATIO;
+      descent = params.baseFontSize * (1 - TEXT_ASCENT_RATIO);
+    }
+
+    const height = Math.max(largestFont * params.lineHeight, ascent + descent);
+    const last = pieces[pieces.length - 1];
+    return {
+      pieces,
+      width: last ? last.x + last.width : 0,
+      height,
+      top: 0,
+      baseline: (height - ascent - descent) / 2 + ascent
+    };
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Bookkeeping of context saves made for transforms and clips
+ * 为变换和裁剪所做的上下文保存记录
+ */
+
+/**
+ * Context state entered by one save
+ * 一次保存所进入的上下文状态
+ */
+export type SavedState<TTransform, TClip> =
+  | { type: 'transform'; transform: TTransform }
+  | { type: 'clip'; clip: TClip };
+
+/**
+ * Context the stack saves and restores
+ * 栈所保存和恢复的上下文
+ */
+export interface SaveStackContext<TTransform, TClip> {
+  save(): void;
+  restore(): void;
+  /** Set up a state again right after a fresh save */
+  reapply(state: SavedState<TTransform, TClip>): void;
+}
+
+/**
+ * Records every save in order, so any one of them can be undone
+ * 按顺序记录每次保存，使其中任意一次都可以撤销
+ *
+ * Canvas can only restore the latest save. Removing an older one restores
+ * down to it and sets up the states saved after it again, so transforms and
+ * clips can be pushed and popped in any order without leaking either.
+ * Canvas只能恢复最近一次保存。移除较早的保存时会恢复到该处，并重新设置其后保存的状态，
+ * 因此变换和裁剪可以按任意顺序压入和弹出，而不会相互泄漏。
+ */
+export class SaveStack<TTransform, TClip> {
+  private context: SaveStackContext<TTransform, TClip>;
+  private states: Array<SavedState<TTransform, TClip>> = [];
+  private clipSnapshot: TClip[] = [];
+
+  constructor(context: SaveStackContext<TTransform, TClip>) {
+    this.context = context;
+  }
+
+  /**
+   * Number of saves in effect
+   * 当前生效的保存数量
+   */
+  get depth(): number {
+    return this.states.length;
+  }
+
+  /**
+   * Clips in effect, outermost first; a new array whenever they change
+   * 当前生效的裁剪（由外到内）；每次变化时为新数组
+   */
+  get clips(): readonly TClip[] {
+    return this.clipSnapshot;
+  }
+
+  /**
+   * Save the context for a transform the caller applies next
+   * 为调用者随后应用的变换保存上下文
+   */
+  pushTransform(transform: TTransform): void {
+    this.context.save();
+    this.states.push({ type: 'transform', transform });
+  }
+
+  /**
+   * Save the context for a clip the caller applies next
+   * 为调用者随后应用的裁剪保存上下文
+   */
+  pushClip(clip: TClip): void {
+    this.context.save();
+    this.states.push({ type: 'clip', clip });
+    this.clipSnapshot = [...this.clipSnapshot, clip];
+  }
+
+  /**
+   * Undo the latest transform save at or above a depth
+   * 撤销位于指定深度及以上的最近一次变换保存
+   */
+  popTransform(floor: number = 0): boolean {
+    return this.removeAt(this.findLast('transform', floor));
+  }
+
+  /**
+   * Undo the latest clip save at or above a depth
+   * 撤销位于指定深度及以上的最近一次裁剪保存
+   */
+  popClip(floor: number = 0): boolean {
+    return this.removeAt(this.findLast('clip', floor));
+  }
+
+  /**
+   * Undo the save of a clip at or above a depth
+   * 撤销位于指定深度及以上的某个裁剪的保存
+   */
+  removeClip(clip: TClip, floor: number = 0): boolean {
+    let index = this.states.length - 1;
+    while (index >= floor) {
+      const state = this.states[index];
+      if (state.type === 'clip' && state.clip === clip) break;
+      index--;
+    }
+    return this.removeAt(index >= floor ? index : -1);
+  }
+
+  /**
+   * Restore every save above a depth
+   * 恢复指定深度以上的所有保存
+   *
+   * @returns States that were undone, latest first
+   */
+  unwind(depth: number): Array<SavedState<TTransform, TClip>> {
+    const removed: Array<SavedState<TTransform, TClip>> = [];
+    let state = this.states.length > depth ? this.states.pop() : undefined;
+    while (state) {
+      removed.push(state);
+      this.context.restore();
+      state = this.states.length > depth ? this.states.pop() : undefined;
+    }
+    if (removed.some(entry => entry.type === 'clip')) {
+      this.updateClips();
+    }
+    return removed;
+  }
+
+  /**
+   * Save and set up again the states returned by unwind
+   * 重新保存并设置由unwind返回的状态
+   */
+  resume(states: Array<SavedState<TTransform, TClip>>): void {
+    for (let i = states.length - 1; i >= 0; i--) {
+      this.context.save();
+      this.context.reapply(states[i]);
+      this.states.push(states[i]);
+    }
+    if (states.some(state => state.type === 'clip')) {
+      this.updateClips();
+    }
+  }
+
+  /**
+   * Forget all saves without restoring them
+   * 忘记所有保存而不恢复
+   */
+  clear(): void {
+    this.states.length = 0;
+    this.clipSnapshot = [];
+  }
+
+  private findLast(type: SavedState<TTransform, TClip>['type'], floor: number): number {
+    for (let i = this.states.length - 1; i >= floor; i--) {
+      if (this.states[i].type === type) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private removeAt(index: number): boolean {
+    if (index < 0) return false;
+
+    const above = this.states.slice(index + 1);
+    const removed = this.states[index];
+    for (let i = this.states.length; i > index; i--) {
+      this.context.restore();
+    }
+    this.states.length = index;
+
+    for (const state of above) {
+      this.context.save();
+      this.context.reapply(state);
+      this.states.push(state);
+    }
+
+    if (removed.type === 'clip') {
+      this.updateClips();
+    }
+    return true;
+  }
+
+  private updateClips(): void {
+    const clips: TClip[] = [];
+    for (const state of this.states) {
+      if (state.type === 'clip') {
+        clips.push(state.clip);
+      }
+    }
+    this.clipSnapshot = clips;
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Style interning: stable numeric ids for structurally equal styles
+ * 样式驻留：为结构相同的样式分配稳定的数字ID
+ */
+
+/**
+ * Markers opening arrays, plain objects and Fixed values in a flattened style
+ * 扁平化样式中标记数组、普通对象和Fixed值开始的标记
+ */
+const ARRAY = {};
+const RECORD = {};
+const FIXED = {};
+
+/**
+ * Id of a style object with the values it had when hashed
+ * 样式对象的ID及其哈希时的值
+ */
+interface InternedStyle {
+  id: number;
+  epoch: number;
+  values: unknown[];
+}
+
+/**
+ * Assigns each distinct style a numeric id
+ * 为每个不同的样式分配数字ID
+ *
+ * Every lookup compares a style object with the values it had when last
+ * hashed, without building a key, and hashes it again only if they differ. A
+ * style changed between draws, even deep inside, therefore gets the id of its
+ * new values. Equal styles built as separate objects share an id. Fixed values
+ * compare by number, and non-plain objects such as textures by identity.
+ * 每次查找都将样式对象与其上次哈希时的值比较（不构建键），只有不同时才重新哈希。
+ * 因此在两次绘制之间被修改的样式（包括深层修改）会得到其新值的ID。
+ * 分别创建的相同样式共享同一ID。Fixed值按数值比较，纹理等非普通对象按身份比较。
+ */
+export class StyleInterner {
+  /**
+   * Interner shared by all style managers, so ids agree across render targets
+   * 所有样式管理器共享的驻留器，使各渲染目标之间的ID一致
+   */
+  static readonly shared = new StyleInterner();
+
+  private ids = new Map<string, number>();
+  private styles = new WeakMap<object, InternedStyle>();
+  private objectIds = new WeakMap<object, number>();
+  private nextId: number = 1;
+  private nextObjectId: number = 1;
+  private currentEpoch: number = 0;
+  private maxStyles: number;
+
+  /**
+   * @param maxStyles - Distinct styles kept before all ids are dropped
+   */
+  constructor(maxStyles: number = 4096) {
+    this.maxStyles = maxStyles;
+  }
+
+  /**
+   * Number of distinct styles interned
+   * 已驻留的不同样式数量
+   */
+  get size(): number {
+    return this.ids.size;
+  }
+
+  /**
+   * Bumped whenever ids are dropped; caches keyed by id can be dropped too
+   * 每次丢弃ID时递增；以ID为键的缓存也可随之丢弃
+   */
+  get epoch(): number {
+    return this.currentEpoch;
+  }
+
+  /**
+   * Get id of a style (0 for none)
+   * 获取样式的ID（无样式时为0）
+   */
+  intern(style: unknown): number {
+    if (typeof style !== 'object' || style === null) {
+      return style === undefined || style === null ? 0 : this.internKey(this.getKey(style));
+    }
+
+    const interned = this.styles.get(style);
+    if (interned && interned.epoch === this.currentEpoch && this.matchValues(style, interned.values, 0) === interned.values.length) {
+      return interned.id;
+    }
+
+    const id = this.internKey(this.getKey(style));
+    const values: unknown[] = [];
+    this.flattenValues(style, values);
+    this.styles.set(style, { id, epoch: this.currentEpoch, values });
+    return id;
+  }
+
+  /**
+   * Drop all ids
+   * 丢弃所有ID
+   */
+  clear(): void {
+    // Ids keep counting up, so an id handed out before is never reused
+    this.ids.clear();
+    this.currentEpoch++;
+  }
+
+  /**
+   * Build the structural key of a value
+   * 构建值的结构键
+   */
+  getKey(value: unknown): string {
+    switch (typeof value) {
+      case 'number':
+        return String(value);
+      case 'string':
+        return JSON.stringify(value);
+      case 'boolean':
+        return value ? 'T' : 'F';
+      case 'undefined':
+        return 'U';
+      case 'object':
+        return this.getObjectKey(value);
+      default:
+        return String(value);
+    }
+  }
+
+  private getObjectKey(value: object | null): string {
+    if (value === null) {
+      return 'N';
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.getKey(item)).join(',')}]`;
+    }
+
+    // Fixed-point numbers
+    const numeric = value as { toNumber?: unknown };
+    if (typeof numeric.toNumber === 'function') {
+      return `#${(numeric.toNumber as () => number).call(value)}`;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+      return `@${this.getObjectId(value)}`;
+    }
+
+    const record = value as Record<string, unknown>;
+    const parts: string[] = [];
+    for (const name of Object.keys(record).sort()) {
+      if (record[name] !== undefined) {
+        parts.push(`${name}:${this.getKey(record[name])}`);
+      }
+    }
+    return `{${parts.join(',')}}`;
+  }
+
+  /**
+   * Append the values of a style to a flat list, led by markers so that
+   * different structures never flatten alike
+   * 将样式的值追加到扁平列表中，并以标记开头，使不同结构不会扁平化为相同结果
+   */
+  private flattenValues(value: unknown, values: unknown[]): void {
+    if (typeof value !== 'object' || value === null) {
+      values.push(value);
+      return;
+    }
+    if (Array.isArray(value)) {
+      values.push(ARRAY, value.length);
+      for (const item of value) {
+        this.flattenValues(item, values);
+      }
+      return;
+    }
+
+    const numeric = value as { toNumber?: unknown };
+    if (typeof numeric.toNumber === 'function') {
+      values.push(FIXED, (numeric.toNumber as () => number).call(value));
+      return;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+      values.push(value);
+      return;
+    }
+
+    const record = value as Record<string, unknown>;
+    const names = Object.keys(record);
+    values.push(RECORD, names.length);
+    for (const name of names) {
+      values.push(name);
+      this.flattenValues(record[name], values);
+    }
+  }
+
+  /**
+   * Compare a style with flattened values from the given index
+   * 从给定索引开始将样式与扁平化的值比较
+   *
+   * @returns Index after the style's values, or -1 if they differ
+   */
+  private matchValues(value: unknown, values: unknown[], index: number): number {
+    if (index < 0 || index >= values.length) {
+      return -1;
+    }
+    if (typeof value !== 'object' || value === null) {
+      return values[index] === value ? index + 1 : -1;
+    }
+    if (Array.isArray(value)) {
+      if (values[index] !== ARRAY || values[index + 1] !== value.length) {
+        return -1;
+      }
+      index += 2;
+      for (let i = 0; i < value.length && index >= 0; i++) {
+        index = this.matchValues(value[i], values, index);
+      }
+      return index;
+    }
+
+    const numeric = value as { toNumber?: unknown };
+    if (typeof numeric.toNumber === 'function') {
+      return values[index] === FIXED && values[index + 1] === (numeric.toNumber as () => number).call(value)
+        ? index + 2
+        : -1;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+      return values[index] === value ? index + 1 : -1;
+    }
+
+    const record = value as Record<string, unknown>;
+    const names = Object.keys(record);
+    if (values[index] !== RECORD || values[index + 1] !== names.length) {
+      return -1;
+    }
+    index += 2;
+    for (let i = 0; i < names.length && index >= 0; i++) {
+      index = values[index] === names[i] ? this.matchValues(record[names[i]], values, index + 1) : -1;
+    }
+    return index;
+  }
+
+  private getObjectId(value: object): number {
+    let id = this.objectIds.get(value);
+    if (id === undefined) {
+      id = this.nextObjectId++;
+      this.objectIds.set(value, id);
+    }
+    return id;
+  }
+
+  private internKey(key: string): number {
+    let id = this.ids.get(key);
+    if (id === undefined) {
+      if (this.ids.size >= this.maxStyles) {
+        this.clear();
+      }
+      id = this.nextId++;
+      this.ids.set(key, id);
+    }
+    return id;
+  }
+}
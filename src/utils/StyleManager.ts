@@ -5,14 +5,51 @@
 
 /// <reference lib="dom" />
 
+import { Fixed } from '@esengine/nova-ecs-math';
 import {
   ColorUtils,
-  LineStyle,
-  ShapeStyle,
-  TextStyle,
   BlendMode
 } from '@esengine/nova-ecs-render-core';
 import { StyleCacheEntry } from '../types/CanvasTypes';
+import { CanvasLineStyle, CanvasPaint, CanvasShadow, CanvasShapeStyle, CanvasTextStyle } from '../types/PaintTypes';
+import { StyleInterner } from './StyleInterner';
+import { PaintCache, PaintSpace, SCREEN_SPACE } from './PaintCache';
+
+/**
+ * Shared solid line dash
+ * 共享的实线虚线数组
+ */
+const NO_DASH: number[] = [];
+
+/**
+ * Context shadow values
+ * 上下文阴影值
+ */
+type ShadowEntry = Required<Pick<StyleCacheEntry, 'shadowColor' | 'shadowBlur' | 'shadowOffsetX' | 'shadowOffsetY'>>;
+
+/**
+ * Context shadow values that draw no shadow
+ * 不绘制阴影的上下文阴影值
+ */
+const NO_SHADOW: ShadowEntry = {
+  shadowColor: 'rgba(0, 0, 0, 0)',
+  shadowBlur: 0,
+  shadowOffsetX: 0,
+  shadowOffsetY: 0
+};
+
+/**
+ * Composite operations a Canvas 2D context accepts
+ * Canvas 2D上下文接受的合成操作
+ */
+const COMPOSITE_OPERATIONS: ReadonlySet<string> = new Set<GlobalCompositeOperation>([
+  'source-over', 'source-in', 'source-out', 'source-atop',
+  'destination-over', 'destination-in', 'destination-out', 'destination-atop',
+  'lighter', 'copy', 'xor',
+  'multiply', 'screen', 'overlay', 'darken', 'lighten',
+  'color-dodge', 'color-burn', 'hard-light', 'soft-light', 'difference', 'exclusion',
+  'hue', 'saturation', 'color', 'luminosity'
+]);
 
 /**
  * Style manager for Canvas rendering
@@ -23,10 +60,57 @@ export class StyleManager {
   private currentStyle: StyleCacheEntry = {};
   private styleChangeCount: number = 0;
   private enableCaching: boolean;
-
-  constructor(ctx: CanvasRenderingContext2D, enableCaching: boolean = true) {
+  private interner: StyleInterner;
+  /** Context values derived from each interned style */
+  private resolvedStyles = new Map<number, StyleCacheEntry>();
+  private resolvedEpoch: number;
+  private paints: PaintCache;
+  private paintSpace: PaintSpace | null = null;
+  /** The context shadow was set past the cache by overrideShadow */
+  private shadowOverridden: boolean = false;
+
+  constructor(
+    ctx: CanvasRenderingContext2D,
+    enableCaching: boolean = true,
+    interner: StyleInterner = StyleInterner.shared
+  ) {
     this.ctx = ctx;
     this.enableCaching = enableCaching;
+    this.interner = interner;
+    this.resolvedEpoch = interner.epoch;
+    this.paints = new PaintCache(interner);
+  }
+
+  /**
+   * Set world-to-screen mapping that paints are placed with
+   * 设置放置绘制时使用的世界到屏幕映射
+   */
+  setPaintSpace(space: PaintSpace | null): void {
+    this.paintSpace = space;
+  }
+
+  /**
+   * Get Canvas object of a paint in the current paint space
+   * 获取当前绘制空间中绘制对应的Canvas对象
+   */
+  getPaint(paint: CanvasPaint): string | CanvasGradient | CanvasPattern {
+    return this.paints.get(this.ctx, paint, this.paintSpace);
+  }
+
+  /**
+   * Get stable numeric id of a style; structurally equal styles share it
+   * 获取样式的稳定数字ID；结构相同的样式共享同一ID
+   */
+  internStyle(style: unknown): number {
+    return this.interner.intern(style);
+  }
+
+  /**
+   * Get interner assigning style ids
+   * 获取分配样式ID的驻留器
+   */
+  getStyleInterner(): StyleInterner {
+    return this.interner;
   }
 
   /**
@@ -49,66 +133,79 @@ export class StyleManager {
    * Apply line style to canvas context
    * 将线条样式应用到Canvas上下文
    */
-  applyLineStyle(style: LineStyle): void {
-    const colorStr = ColorUtils.toHex(style.color);
-    const lineWidth = style.thickness.toNumber();
-
-    this.setStrokeStyle(colorStr);
-    this.setLineWidth(lineWidth);
-
-    // Apply dash pattern if specified
-    if (style.dashPattern && style.dashPattern.length > 0) {
-      const dashArray = style.dashPattern.map(d => d.toNumber());
-      this.ctx.setLineDash(dashArray);
-    } else {
-      this.ctx.setLineDash([]);
-    }
+  applyLineStyle(style: CanvasLineStyle): void {
+    const resolved = this.resolveStyle(style, () => ({
+      strokeStyle: ColorUtils.toHex(style.color),
+      lineWidth: style.thickness.toNumber(),
+      lineDash: this.getDashArray(style.dashPattern)
+    }));
+
+    this.setStrokeStyle(style.paint ? this.getPaint(style.paint) : resolved.strokeStyle as string);
+    this.setLineWidth(resolved.lineWidth as number);
+    this.setLineDash(resolved.lineDash as number[]);
+    this.applyShadow(undefined);
   }
 
   /**
    * Apply shape style to canvas context
    * 将形状样式应用到Canvas上下文
    */
-  applyShapeStyle(style: ShapeStyle): void {
-    if (style.fillColor) {
-      const fillColorStr = ColorUtils.toHex(style.fillColor);
-      this.setFillStyle(fillColorStr);
-    }
-
-    if (style.strokeColor) {
-      const strokeColorStr = ColorUtils.toHex(style.strokeColor);
-      this.setStrokeStyle(strokeColorStr);
-
-      if (style.strokeThickness) {
-        this.setLineWidth(style.strokeThickness.toNumber());
+  applyShapeStyle(style: CanvasShapeStyle): void {
+    const resolved = this.resolveStyle(style, () => {
+      const entry: StyleCacheEntry = {};
+      if (style.fillColor) {
+        entry.fillStyle = ColorUtils.toHex(style.fillColor);
+      }
+      if (style.strokeColor || style.strokePaint) {
+        if (style.strokeColor) {
+          entry.strokeStyle = ColorUtils.toHex(style.strokeColor);
+        }
+        entry.lineDash = this.getDashArray(style.dashPattern);
+        if (style.strokeThickness) {
+          entry.lineWidth = style.strokeThickness.toNumber();
+        }
       }
+      return entry;
+    });
+
+    // Paints depend on the view, so they are looked up on every apply
+    if (style.fillPaint) {
+      this.setFillStyle(this.getPaint(style.fillPaint));
+    } else if (resolved.fillStyle !== undefined) {
+      this.setFillStyle(resolved.fillStyle);
+    }
 
-      // Apply dash pattern if specified
-      if (style.dashPattern && style.dashPattern.length > 0) {
-        const dashArray = style.dashPattern.map(d => d.toNumber());
-        this.ctx.setLineDash(dashArray);
-      } else {
-        this.ctx.setLineDash([]);
+    if (style.strokeColor || style.strokePaint) {
+      this.setStrokeStyle(style.strokePaint ? this.getPaint(style.strokePaint) : resolved.strokeStyle as string);
+      if (resolved.lineWidth !== undefined) {
+        this.setLineWidth(resolved.lineWidth);
       }
+      this.setLineDash(resolved.lineDash as number[]);
     }
+
+    this.applyShadow(style.shadow);
   }
 
   /**
    * Apply text style to canvas context
    * 将文本样式应用到Canvas上下文
    */
-  applyTextStyle(style: TextStyle): void {
-    const colorStr = ColorUtils.toHex(style.color);
-    this.setFillStyle(colorStr);
-
-    // Build font string
-    const fontWeight = style.fontWeight || 'normal';
-    const fontStyle = style.fontStyle || 'normal';
-    const fontSize = style.fontSize.toNumber();
-    const fontFamily = style.fontFamily || 'Arial';
-    const fontStr = `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`;
-
-    this.setFont(fontStr);
+  applyTextStyle(style: CanvasTextStyle): void {
+    const resolved = this.resolveStyle(style, () => {
+      // Build font string
+      const fontWeight = style.fontWeight || 'normal';
+      const fontStyle = style.fontStyle || 'normal';
+      const fontSize = style.fontSize.toNumber();
+      const fontFamily = style.fontFamily || 'Arial';
+
+      return {
+        fillStyle: ColorUtils.toHex(style.color),
+        font: `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`
+      };
+    });
+
+    this.setFillStyle(style.paint ? this.getPaint(style.paint) : resolved.fillStyle as string);
+    this.setFont(resolved.font as string);
 
     // Set text alignment
     if (style.textAlign) {
@@ -118,6 +215,58 @@ export class StyleManager {
     if (style.textBaseline) {
       this.setTextBaseline(style.textBaseline);
     }
+
+    this.applyShadow(style.shadow);
+  }
+
+  /**
+   * Apply shadow to canvas context; no shadow turns it off
+   * 将阴影应用到Canvas上下文；无阴影时关闭阴影
+   */
+  applyShadow(shadow: CanvasShadow | undefined): void {
+    const entry = shadow ? this.resolveShadow(shadow) : NO_SHADOW;
+    this.setShadowColor(entry.shadowColor);
+    this.setShadowBlur(entry.shadowBlur);
+    this.setShadowOffset(entry.shadowOffsetX, entry.shadowOffsetY);
+    this.shadowOverridden = false;
+  }
+
+  /**
+   * Set shadow of a draw made between save and restore, leaving the cache as is
+   * 为在save与restore之间进行的绘制设置阴影，缓存保持不变
+   *
+   * Like raw opacity changes, the override is undone by the caller's restore.
+   * 与直接修改不透明度一样，该覆盖由调用方的restore撤销。
+   */
+  overrideShadow(shadow: CanvasShadow | undefined): void {
+    const entry = shadow ? this.resolveShadow(shadow) : NO_SHADOW;
+    const current = this.currentStyle;
+    const cached = this.enableCaching &&
+      current.shadowColor === entry.shadowColor &&
+      current.shadowBlur === entry.shadowBlur &&
+      current.shadowOffsetX === entry.shadowOffsetX &&
+      current.shadowOffsetY === entry.shadowOffsetY;
+    if (cached && !this.shadowOverridden) return;
+
+    this.ctx.shadowColor = entry.shadowColor;
+    this.ctx.shadowBlur = entry.shadowBlur;
+    this.ctx.shadowOffsetX = entry.shadowOffsetX;
+    this.ctx.shadowOffsetY = entry.shadowOffsetY;
+    this.shadowOverridden = !cached;
+    this.styleChangeCount++;
+  }
+
+  /**
+   * Get how far a shadow reaches past its shape, in screen pixels
+   * 获取阴影超出其形状的距离（屏幕像素）
+   */
+  getShadowMargin(shadow: CanvasShadow | undefined): number {
+    if (!shadow) return 0;
+
+    // Canvas blurs with a standard deviation of half the blur, so 1.5 blurs cover three deviations
+    const entry = this.resolveShadow(shadow);
+    const ratio = (this.paintSpace ?? SCREEN_SPACE).getDevicePixelRatio();
+    return (Math.hypot(entry.shadowOffsetX, entry.shadowOffsetY) + entry.shadowBlur * 1.5) / ratio;
   }
 
   /**
@@ -129,6 +278,14 @@ export class StyleManager {
     this.setGlobalCompositeOperation(canvasBlendMode);
   }
 
+  /**
+   * Apply a Canvas composite operation directly
+   * 直接应用Canvas合成操作
+   */
+  applyCompositeOperation(operation: GlobalCompositeOperation): void {
+    this.setGlobalCompositeOperation(operation);
+  }
+
   /**
    * Apply opacity to canvas context
    * 将透明度应用到Canvas上下文
@@ -141,7 +298,7 @@ export class StyleManager {
    * Set stroke style with caching
    * 设置描边样式（带缓存）
    */
-  private setStrokeStyle(style: string): void {
+  private setStrokeStyle(style: string | CanvasGradient | CanvasPattern): void {
     if (!this.enableCaching || this.currentStyle.strokeStyle !== style) {
       this.ctx.strokeStyle = style;
       this.currentStyle.strokeStyle = style;
@@ -153,7 +310,7 @@ export class StyleManager {
    * Set fill style with caching
    * 设置填充样式（带缓存）
    */
-  private setFillStyle(style: string): void {
+  private setFillStyle(style: string | CanvasGradient | CanvasPattern): void {
     if (!this.enableCaching || this.currentStyle.fillStyle !== style) {
       this.ctx.fillStyle = style;
       this.currentStyle.fillStyle = style;
@@ -209,6 +366,18 @@ export class StyleManager {
     }
   }
 
+  /**
+   * Set line dash with caching; dash arrays of interned styles are shared
+   * 设置虚线（带缓存）；驻留样式的虚线数组是共享的
+   */
+  private setLineDash(dash: number[]): void {
+    if (!this.enableCaching || this.currentStyle.lineDash !== dash) {
+      this.ctx.setLineDash(dash);
+      this.currentStyle.lineDash = dash;
+      this.styleChangeCount++;
+    }
+  }
+
   /**
    * Set global alpha with caching
    * 设置全局透明度（带缓存）
@@ -233,11 +402,58 @@ export class StyleManager {
     }
   }
 
+  /**
+   * Set shadow color with caching
+   * 设置阴影颜色（带缓存）
+   */
+  private setShadowColor(color: string): void {
+    if (!this.enableCaching || this.shadowOverridden || this.currentStyle.shadowColor !== color) {
+      this.ctx.shadowColor = color;
+      this.currentStyle.shadowColor = color;
+      this.styleChangeCount++;
+    }
+  }
+
+  /**
+   * Set shadow blur with caching
+   * 设置阴影模糊（带缓存）
+   */
+  private setShadowBlur(blur: number): void {
+    if (!this.enableCaching || this.shadowOverridden || this.currentStyle.shadowBlur !== blur) {
+      this.ctx.shadowBlur = blur;
+      this.currentStyle.shadowBlur = blur;
+      this.styleChangeCount++;
+    }
+  }
+
+  /**
+   * Set shadow offset with caching
+   * 设置阴影偏移（带缓存）
+   */
+  private setShadowOffset(x: number, y: number): void {
+    if (
+      !this.enableCaching ||
+      this.shadowOverridden ||
+      this.currentStyle.shadowOffsetX !== x ||
+      this.currentStyle.shadowOffsetY !== y
+    ) {
+      this.ctx.shadowOffsetX = x;
+      this.ctx.shadowOffsetY = y;
+      this.currentStyle.shadowOffsetX = x;
+      this.currentStyle.shadowOffsetY = y;
+      this.styleChangeCount++;
+    }
+  }
+
   /**
    * Convert blend mode to Canvas composite operation
    * 将混合模式转换为Canvas合成操作
+   *
+   * Blend modes without a case of their own are used as is when they name a
+   * composite operation, so they match the same operation set on the render state.
+   * 没有单独分支的混合模式若与某个合成操作同名则直接使用，从而与渲染状态上设置的同一操作一致。
    */
-  private blendModeToCanvas(blendMode: BlendMode): GlobalCompositeOperation {
+  blendModeToCanvas(blendMode: BlendMode): GlobalCompositeOperation {
     switch (blendMode) {
       case BlendMode.Normal: return 'source-over';
       case BlendMode.Add: return 'lighter';
@@ -246,8 +462,84 @@ export class StyleManager {
       case BlendMode.Overlay: return 'overlay';
       case BlendMode.Darken: return 'darken';
       case BlendMode.Lighten: return 'lighten';
-      default: return 'source-over';
+      default:
+        return StyleManager.isCompositeOperation(blendMode) ? blendMode : 'source-over';
+    }
+  }
+
+  /**
+   * Get the composite operation of a render state
+   * 获取渲染状态的合成操作
+   *
+   * The composite operation is used instead of the blend mode when set; an
+   * operation the context does not know falls back to the blend mode.
+   * 设置了合成操作时使用它代替混合模式；上下文不认识的操作会回退到混合模式。
+   */
+  resolveCompositeOperation(blendMode: BlendMode, operation?: GlobalCompositeOperation): GlobalCompositeOperation {
+    if (operation !== undefined) {
+      if (StyleManager.isCompositeOperation(operation)) {
+        return operation;
+      }
+      // eslint-disable-next-line no-console
+      console.warn(`Unknown composite operation '${operation}', using the blend mode instead`);
+    }
+    return this.blendModeToCanvas(blendMode);
+  }
+
+  /**
+   * Check whether a value names a Canvas composite operation
+   * 检查值是否为Canvas合成操作的名称
+   */
+  static isCompositeOperation(value: unknown): value is GlobalCompositeOperation {
+    return typeof value === 'string' && COMPOSITE_OPERATIONS.has(value);
+  }
+
+  /**
+   * Get context values of a style, computing them once per interned style
+   * 获取样式的上下文值，每个驻留样式只计算一次
+   */
+  private resolveStyle(style: object, resolve: () => StyleCacheEntry): StyleCacheEntry {
+    if (this.resolvedEpoch !== this.interner.epoch) {
+      this.resolvedStyles.clear();
+      this.resolvedEpoch = this.interner.epoch;
+    }
+
+    const id = this.interner.intern(style);
+    let resolved = this.resolvedStyles.get(id);
+    if (!resolved) {
+      resolved = resolve();
+      this.resolvedStyles.set(id, resolved);
     }
+    return resolved;
+  }
+
+  /**
+   * Get context shadow values of a world-space shadow in the current paint space
+   * 获取世界空间阴影在当前绘制空间中的上下文阴影值
+   *
+   * Shadow values ignore the context transform and are in device pixels.
+   * 阴影值不受上下文变换影响，并以设备像素为单位。
+   */
+  private resolveShadow(shadow: CanvasShadow): ShadowEntry {
+    const space = this.paintSpace ?? SCREEN_SPACE;
+    const view = space.getWorldToScreenTransform();
+    const ratio = space.getDevicePixelRatio();
+    const color = this.resolveStyle(shadow, () => ({ shadowColor: PaintCache.toColorString(shadow.color) }));
+    const x = shadow.offset ? shadow.offset.x.toNumber() : 0;
+    const y = shadow.offset ? shadow.offset.y.toNumber() : 0;
+
+    // The view scales uniformly, so blur scales by the square root of its determinant
+    const scale = Math.sqrt(Math.abs(view.a * view.d - view.b * view.c));
+    return {
+      shadowColor: color.shadowColor as string,
+      shadowBlur: shadow.blur ? shadow.blur.toNumber() * scale * ratio : 0,
+      shadowOffsetX: (view.a * x + view.c * y) * ratio,
+      shadowOffsetY: (view.b * x + view.d * y) * ratio
+    };
+  }
+
+  private getDashArray(dashPattern: Fixed[] | undefined): number[] {
+    return dashPattern && dashPattern.length > 0 ? dashPattern.map(d => d.toNumber()) : NO_DASH;
   }
 
   /**
@@ -266,6 +558,7 @@ export class StyleManager {
     this.ctx.restore();
     // Clear cache since we don't know what the restored state is
     this.currentStyle = {};
+    this.shadowOverridden = false;
   }
 
   /**
@@ -274,5 +567,6 @@ export class StyleManager {
    */
   resetCache(): void {
     this.currentStyle = {};
+    this.shadowOverridden = false;
   }
 }
@@ -0,0 +1,200 @@
+/**
+ * Text layout engine
+ * 文本布局引擎
+ */
+
+import { TextLayoutLine, TextLayoutOptions, TextLayoutParams, TextLayoutResult } from '../types/CanvasTypes';
+
+/**
+ * Default line height of system fonts as a multiple of the font size
+ * 系统字体的默认行高（字号的倍数）
+ */
+export const DEFAULT_LINE_HEIGHT = 1.2;
+
+/**
+ * Default text layout options
+ * 默认文本布局选项
+ */
+export const DEFAULT_TEXT_LAYOUT_OPTIONS: TextLayoutOptions = {
+  wrap: true,
+  verticalAlign: 'top',
+  ellipsis: '\u2026'
+};
+
+/**
+ * Measures the advance width of a string in pixels
+ * 测量字符串的步进宽度（像素）
+ */
+export type TextMeasureFunction = (text: string) => number;
+
+/**
+ * Splits text into lines by newlines and word wrapping, then truncates
+ * 按换行符和自动换行将文本拆分为行，然后进行截断
+ *
+ * Works in pixels with a caller supplied measure function, so the same
+ * layout serves system fonts and bitmap fonts.
+ * 使用调用方提供的测量函数以像素为单位工作，因此同一布局适用于系统字体和位图字体。
+ */
+export class TextLayout {
+  /**
+   * Lay out text into lines
+   * 将文本布局为多行
+   */
+  static layout(text: string, measure: TextMeasureFunction, params: TextLayoutParams): TextLayoutResult {
+    const width = (line: string): number => TextLayout.measureSpaced(line, measure, params.letterSpacing);
+
+    let texts: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      if (params.wrap && params.maxWidth < Infinity) {
+        texts.push(...TextLayout.wrapParagraph(paragraph, width, params.maxWidth));
+      } else {
+        texts.push(paragraph);
+      }
+    }
+
+    let truncated = false;
+    const maxLines = Math.max(1, params.maxLines);
+    if (texts.length > maxLines) {
+      texts = texts.slice(0, maxLines);
+      texts[maxLines - 1] = TextLayout.truncate(texts[maxLines - 1], width, params.maxWidth, params.ellipsis, true);
+      truncated = true;
+    }
+
+    // Unwrapped lines may still overflow the width
+    for (let i = 0; i < texts.length; i++) {
+      if (width(texts[i]) > params.maxWidth) {
+        texts[i] = TextLayout.truncate(texts[i], width, params.maxWidth, params.ellipsis, false);
+        truncated = true;
+      }
+    }
+
+    const lines: TextLayoutLine[] = texts.map(line => ({ text: line, width: width(line) }));
+    return {
+      lines,
+      width: lines.reduce((max, line) => Math.max(max, line.width), 0),
+      height: lines.length * params.lineHeight,
+      lineHeight: params.lineHeight,
+      truncated
+    };
+  }
+
+  /**
+   * Measure a string including letter spacing between characters
+   * 测量包含字符间距的字符串宽度
+   */
+  static measureSpaced(text: string, measure: TextMeasureFunction, letterSpacing: number): number {
+    if (text.length === 0) {
+      return 0;
+    }
+    const spacing = letterSpacing !== 0 ? letterSpacing * (Array.from(text).length - 1) : 0;
+    return measure(text) + spacing;
+  }
+
+  /**
+   * Get x offset of every character, for drawing with letter spacing
+   * 获取每个字符的x偏移，用于带字符间距的绘制
+   */
+  static getCharacterOffsets(
+    text: string,
+    measure: TextMeasureFunction,
+    letterSpacing: number
+  ): Array<{ text: string; x: number }> {
+    const characters = Array.from(text);
+    let prefix = '';
+
+    return characters.map((character, index) => {
+      // Measuring prefixes keeps kerning between neighbours
+      const x = measure(prefix) + letterSpacing * index;
+      prefix += character;
+      return { text: character, x };
+    });
+  }
+
+  /**
+   * Wrap one paragraph at whitespace, breaking words wider than a line
+   * 在空白处折行单个段落，并拆分比行更宽的单词
+   */
+  private static wrapParagraph(
+    paragraph: string,
+    width: TextMeasureFunction,
+    maxWidth: number
+  ): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const token of paragraph.split(/(\s+)/)) {
+      if (token === '') continue;
+
+      const candidate = current + token;
+      // Trailing whitespace never forces a break
+      if (current === '' || width(TextLayout.trimEnd(candidate)) <= maxWidth) {
+        current = candidate;
+      } else {
+        lines.push(TextLayout.trimEnd(current));
+        current = TextLayout.trimStart(token);
+      }
+
+      while (width(current) > maxWidth && Array.from(TextLayout.trimEnd(current)).length > 1) {
+        const head = TextLayout.fitPrefix(current, width, maxWidth);
+        lines.push(head);
+        current = current.substring(head.length);
+      }
+    }
+
+    lines.push(TextLayout.trimEnd(current));
+    return lines;
+  }
+
+  /**
+   * Longest prefix (at least one character) that fits a width
+   * 适合指定宽度的最长前缀（至少一个字符）
+   */
+  private static fitPrefix(text: string, width: TextMeasureFunction, maxWidth: number): string {
+    const characters = Array.from(text);
+    let prefix = characters[0];
+
+    for (let i = 1; i < characters.length; i++) {
+      const next = prefix + characters[i];
+      if (width(next) > maxWidth) break;
+      prefix = next;
+    }
+    return prefix;
+  }
+
+  /**
+   * Shorten a line to fit a width, appending the ellipsis when given
+   * 缩短文本行以适应宽度，如有省略号则追加
+   *
+   * @param force - Append the ellipsis even if the line already fits
+   */
+  private static truncate(
+    line: string,
+    width: TextMeasureFunction,
+    maxWidth: number,
+    ellipsis: string | null,
+    force: boolean
+  ): string {
+    const marker = ellipsis ?? '';
+    if (!force && width(line) <= maxWidth) {
+      return line;
+    }
+    if (force && marker === '') {
+      return line;
+    }
+
+    const characters = Array.from(TextLayout.trimEnd(line));
+    while (characters.length > 0 && width(characters.join('') + marker) > maxWidth) {
+      characters.pop();
+    }
+    return TextLayout.trimEnd(characters.join('')) + marker;
+  }
+
+  // String.prototype.trimEnd/trimStart are ES2019
+  private static trimEnd(text: string): string {
+    return text.replace(/\s+$/, '');
+  }
+
+  private static trimStart(text: string): string {
+    return text.replace(/^\s+/, '');
+  }
+}
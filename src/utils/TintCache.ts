@@ -0,0 +1,237 @@
+/**
+ * Tinted texture cache
+ * 着色纹理缓存
+ */
+
+/// <reference lib="dom" />
+
+import { Color } from '@esengine/nova-ecs-render-core';
+import { CanvasTexture, CanvasTextureRegion, CanvasImageSourceType } from '../types/CanvasTypes';
+import { OffscreenSurface } from './OffscreenSurface';
+
+/**
+ * Cached tinted copy of a texture
+ * 纹理的着色副本缓存
+ */
+interface TintCacheEntry {
+  surface: OffscreenSurface;
+  texture: CanvasTexture;
+  baseTexture: CanvasTexture;
+  pixels: number;
+  version: number;
+}
+
+/**
+ * Multiplicative texture tinting with a bounded LRU cache
+ * 带有限LRU缓存的乘法纹理着色
+ *
+ * Tinted results are composited once into off-screen canvases and reused
+ * for every draw with the same texture and tint color, until the texture's
+ * content version changes. Atlas regions are tinted by their own frame, so
+ * only the pixels of the regions drawn count against the budget. Tints larger
+ * than the pixel budget are composited on every call without being cached.
+ * 着色结果只在离屏画布中合成一次，之后相同纹理和颜色的绘制都会复用，直到纹理内容版本变化。
+ * 图集区域只对自身帧着色，因此只有被绘制区域的像素计入预算。超出像素预算的着色每次调用都会重新合成且不缓存。
+ */
+export class TintCache {
+  private entries = new Map<string, TintCacheEntry>();
+  private textureIds = new WeakMap<CanvasTexture, number>();
+  private nextTextureId: number = 1;
+  private maxEntries: number;
+  private maxPixels: number;
+  private totalPixels: number = 0;
+  private hitCount: number = 0;
+  private missCount: number = 0;
+  private evictionCount: number = 0;
+
+  constructor(maxEntries: number = 256, maxPixels: number = 4096 * 4096) {
+    this.maxEntries = maxEntries;
+    this.maxPixels = maxPixels;
+  }
+
+  /**
+   * Check if a tint color changes the texture's colors
+   * 检查着色颜色是否会改变纹理颜色
+   */
+  static isIdentityTint(tint: Color): boolean {
+    return tint.r >= 1 && tint.g >= 1 && tint.b >= 1;
+  }
+
+  /**
+   * Get tinted image source for a texture (alpha of the tint is not applied)
+   * 获取纹理的着色图像源（不应用着色的透明度）
+   *
+   * The image of an atlas region holds only its frame; draw it through getTintedTexture.
+   * 图集区域的图像只包含其帧；请通过getTintedTexture绘制。
+   */
+  getTinted(texture: CanvasTexture, tint: Color): CanvasImageSourceType {
+    return this.getTintedTexture(texture, tint).source;
+  }
+
+  /**
+   * Get a tinted copy of a texture that draws like the original (alpha of the tint is not applied)
+   * 获取与原纹理绘制方式相同的着色副本（不应用着色的透明度）
+   */
+  getTintedTexture(texture: CanvasTexture, tint: Color): CanvasTexture {
+    if (TintCache.isIdentityTint(tint) || this.maxEntries <= 0) {
+      return texture;
+    }
+
+    const key = this.getKey(texture, tint);
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      if (cached.version === texture.baseTexture.version) {
+        this.entries.set(key, cached);
+        this.hitCount++;
+        return cached.texture;
+      }
+      // Content changed, so the entry is replaced rather than kept beside the new one
+      this.totalPixels -= cached.pixels;
+    }
+
+    this.missCount++;
+    const entry = this.createEntry(texture, tint);
+    if (entry.pixels <= this.maxPixels) {
+      this.evict(1, entry.pixels);
+      this.entries.set(key, entry);
+      this.totalPixels += entry.pixels;
+    }
+
+    return entry.texture;
+  }
+
+  /**
+   * Drop cached tints of one texture, or of all textures
+   * 丢弃单个纹理或所有纹理的着色缓存
+   */
+  invalidate(texture?: CanvasTexture): void {
+    if (!texture) {
+      this.clear();
+      return;
+    }
+
+    // Tints of an atlas go with it, along with the tints of its regions
+    const id = this.textureIds.get(texture);
+    const prefix = `${id}:`;
+    for (const [key, entry] of this.entries) {
+      if (entry.baseTexture === texture || (id !== undefined && key.startsWith(prefix))) {
+        this.entries.delete(key);
+        this.totalPixels -= entry.pixels;
+      }
+    }
+  }
+
+  /**
+   * Remove all cached tints
+   * 移除所有缓存的着色
+   */
+  clear(): void {
+    this.entries.clear();
+    this.totalPixels = 0;
+  }
+
+  /**
+   * Update maximum number of entries
+   * 更新最大条目数
+   */
+  setMaxEntries(maxEntries: number): void {
+    this.maxEntries = maxEntries;
+    this.evict();
+  }
+
+  /**
+   * Get cache statistics
+   * 获取缓存统计信息
+   */
+  getStats(): { entries: number; pixels: number; hits: number; misses: number; evictions: number } {
+    return {
+      entries: this.entries.size,
+      pixels: this.totalPixels,
+      hits: this.hitCount,
+      misses: this.missCount,
+      evictions: this.evictionCount
+    };
+  }
+
+  /**
+   * Build cache key from texture identity and tint color
+   * 根据纹理标识和着色颜色生成缓存键
+   */
+  private getKey(texture: CanvasTexture, tint: Color): string {
+    let id = this.textureIds.get(texture);
+    if (id === undefined) {
+      id = this.nextTextureId++;
+      this.textureIds.set(texture, id);
+    }
+
+    const r = Math.round(tint.r * 255);
+    const g = Math.round(tint.g * 255);
+    const b = Math.round(tint.b * 255);
+    return `${id}:${r},${g},${b}`;
+  }
+
+  /**
+   * Composite a tinted copy of a texture
+   * 合成纹理的着色副本
+   */
+  private createEntry(texture: CanvasTexture, tint: Color): TintCacheEntry {
+    // Area of the source holding the texture; rotated regions are stored sideways
+    const region = texture instanceof CanvasTextureRegion ? texture : null;
+    const x = region ? region.frame.x : 0;
+    const y = region ? region.frame.y : 0;
+    const width = region ? (region.rotated ? region.frame.height : region.frame.width) : texture.width;
+    const height = region ? (region.rotated ? region.frame.width : region.frame.height) : texture.height;
+
+    const surface = new OffscreenSurface(width, height);
+    const ctx = surface.ctx;
+
+    // Multiply colors, then cut the result back to the texture's alpha
+    ctx.drawImage(texture.source, x, y, width, height, 0, 0, width, height);
+    ctx.globalCompositeOperation = 'multiply';
+    ctx.fillStyle = `rgb(${Math.round(tint.r * 255)}, ${Math.round(tint.g * 255)}, ${Math.round(tint.b * 255)})`;
+    ctx.fillRect(0, 0, surface.width, surface.height);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(texture.source, x, y, width, height, 0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+
+    // Regions keep their size, trimming and rotation, cut out of the tinted copy of their frame
+    const copy = new CanvasTexture(surface.canvas, width, height);
+    const tinted = region
+      ? new CanvasTextureRegion(copy, region.name, { x: 0, y: 0, width: region.frame.width, height: region.frame.height }, {
+        rotated: region.rotated,
+        trimOffset: region.trimOffset,
+        sourceWidth: region.width,
+        sourceHeight: region.height,
+        ...(region.pivot ? { pivot: region.pivot } : {}),
+        ...(region.duration !== null ? { duration: region.duration } : {})
+      })
+      : copy;
+
+    return {
+      surface,
+      texture: tinted,
+      baseTexture: texture.baseTexture,
+      pixels: surface.width * surface.height,
+      version: texture.baseTexture.version
+    };
+  }
+
+  /**
+   * Evict least recently used entries until within limits, with room for entries about to be added
+   * 淘汰最近最少使用的条目直到满足限制，并为即将加入的条目预留空间
+   */
+  private evict(addedEntries: number = 0, addedPixels: number = 0): void {
+    while (
+      this.entries.size > 0 &&
+      (this.entries.size + addedEntries > this.maxEntries || this.totalPixels + addedPixels > this.maxPixels)
+    ) {
+      const oldestKey = this.entries.keys().next().value as string;
+      const oldest = this.entries.get(oldestKey) as TintCacheEntry;
+      this.entries.delete(oldestKey);
+      this.totalPixels -= oldest.pixels;
+      this.evictionCount++;
+    }
+  }
+}
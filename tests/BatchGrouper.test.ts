@@ -0,0 +1,106 @@
+/**
+ * Batch grouping tests
+ * 批量分组测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import { BatchGrouper, BatchItem } from '../src/utils/BatchGrouper';
+import { BatchOrdering } from '../src/types/CanvasTypes';
+
+const GRID_SIZE = 48;
+
+interface Box {
+  color: string;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function toItem(box: Box): BatchItem<Box> {
+  return { key: box.color, bounds: box, value: box };
+}
+
+// Paint boxes into a grid of colors, later boxes on top
+function paint(boxes: Box[]): string[] {
+  const grid = new Array<string>(GRID_SIZE * GRID_SIZE).fill('');
+  for (const box of boxes) {
+    for (let y = box.minY; y <= box.maxY; y++) {
+      for (let x = box.minX; x <= box.maxX; x++) {
+        grid[y * GRID_SIZE + x] = box.color;
+      }
+    }
+  }
+  return grid;
+}
+
+function paintBatched(boxes: Box[], ordering: BatchOrdering): string[] {
+  const groups = BatchGrouper.group(boxes.map(toItem), ordering);
+  return paint(groups.reduce<Box[]>((all, group) => all.concat(group.items), []));
+}
+
+// Deterministic scene of overlapping boxes in a few colors
+function createScene(count: number): Box[] {
+  let seed = 12345;
+  const random = (max: number): number => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed % max;
+  };
+
+  const colors = ['red', 'green', 'blue'];
+  const boxes: Box[] = [];
+  for (let i = 0; i < count; i++) {
+    const minX = random(GRID_SIZE - 4);
+    const minY = random(GRID_SIZE - 4);
+    boxes.push({
+      color: colors[random(colors.length)],
+      minX,
+      minY,
+      maxX: Math.min(GRID_SIZE - 1, minX + 1 + random(8)),
+      maxY: Math.min(GRID_SIZE - 1, minY + 1 + random(8))
+    });
+  }
+  return boxes;
+}
+
+describe('BatchGrouper', () => {
+  const blueRect: Box = { color: 'blue', minX: 0, minY: 0, maxX: 9, maxY: 9 };
+  const redCircle: Box = { color: 'red', minX: 5, minY: 5, maxX: 14, maxY: 14 };
+  const farBlue: Box = { color: 'blue', minX: 20, minY: 20, maxX: 29, maxY: 29 };
+  const overlappingBlue: Box = { color: 'blue', minX: 12, minY: 12, maxX: 20, maxY: 20 };
+
+  test('should keep a later overlapping draw on top', () => {
+    const scene = [blueRect, redCircle, overlappingBlue];
+
+    for (const ordering of ['adjacent', 'non-overlapping'] as const) {
+      expect(paintBatched(scene, ordering)).toEqual(paint(scene));
+    }
+    // Merging every blue draw moves the last one under the red circle
+    expect(paintBatched(scene, 'unordered')).not.toEqual(paint(scene));
+  });
+
+  test('should merge across draws that do not overlap', () => {
+    const scene = [blueRect, redCircle, farBlue];
+
+    expect(BatchGrouper.group(scene.map(toItem), 'non-overlapping').map(group => group.key)).toEqual(['blue', 'red']);
+    expect(BatchGrouper.group(scene.map(toItem), 'adjacent')).toHaveLength(3);
+  });
+
+  test('should never merge past a draw with unknown bounds', () => {
+    const items = [toItem(blueRect), { key: 'text', bounds: null, value: redCircle }, toItem(farBlue)];
+
+    expect(BatchGrouper.group(items, 'non-overlapping')).toHaveLength(3);
+  });
+
+  test('should match unbatched output on a random scene', () => {
+    const scene = createScene(300);
+    const expected = paint(scene);
+
+    for (const ordering of ['adjacent', 'non-overlapping'] as const) {
+      expect(paintBatched(scene, ordering)).toEqual(expected);
+    }
+
+    const groups = BatchGrouper.group(scene.map(toItem), 'non-overlapping');
+    expect(groups.length).toBeLessThan(BatchGrouper.group(scene.map(toItem), 'adjacent').length);
+  });
+});
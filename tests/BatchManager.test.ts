@@ -0,0 +1,124 @@
+/**
+ * Batch manager tests
+ * 批量管理器测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { BatchManager } from '../src/utils/BatchManager';
+import { StyleManager } from '../src/utils/StyleManager';
+import { CoordinateSystem } from '../src/utils/CoordinateSystem';
+import { BatchOrdering } from '../src/types/CanvasTypes';
+
+const GREEN = { r: 0, g: 1, b: 0, a: 1 };
+const BLUE = { r: 0, g: 0, b: 1, a: 1 };
+
+// Half-unit square at a world x, recognizable by its screen x
+function square(x: number): FixedRect {
+  return new FixedRect(new Fixed(x), Fixed.ZERO, new Fixed(0.5), new Fixed(0.5));
+}
+
+// Batch manager on an 800 x 600 canvas at 100 pixels per unit, recording what reaches the context
+function createBatchManager(ordering: BatchOrdering): { batchManager: BatchManager; calls: string[] } {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+  const batchManager = new BatchManager(
+    ctx,
+    new StyleManager(ctx),
+    new CoordinateSystem(100, { width: 800, height: 600 }),
+    1000,
+    ordering
+  );
+  const calls: string[] = [];
+
+  vi.mocked(ctx.rect).mockImplementation((x: number) => calls.push(`rect ${x}`));
+  vi.mocked(ctx.fill).mockImplementation(() => calls.push('fill'));
+  vi.mocked(ctx.stroke).mockImplementation(() => calls.push('stroke'));
+  batchManager.drawTextImmediate = (text: string) => calls.push(`text ${text}`);
+  return { batchManager, calls };
+}
+
+describe('BatchManager', () => {
+  // A text anchored at screen (400, 300) and a stroked square at screen x 400..450,
+  // each followed by a green square clear of them and one inside their bounds
+  function drawScene(batchManager: BatchManager): void {
+    batchManager.beginBatch();
+    batchManager.addRect(square(-3), { fillColor: GREEN });
+    batchManager.addText('hi', FixedVector2.ZERO, { color: BLUE, fontSize: new Fixed(16) });
+    batchManager.addRect(square(1), { fillColor: GREEN });
+    batchManager.addRect(square(0.25), { fillColor: GREEN });
+    batchManager.endBatch();
+
+    batchManager.beginBatch();
+    batchManager.addRect(square(-3), { fillColor: GREEN });
+    batchManager.addRect(square(0), { strokeColor: BLUE, strokeThickness: new Fixed(40) });
+    batchManager.addRect(square(3), { fillColor: GREEN });
+    // Clear of the square itself but under its stroke
+    batchManager.addRect(square(0.625), { fillColor: GREEN });
+    batchManager.endBatch();
+  }
+
+  test('should only merge consecutive commands in adjacent mode', () => {
+    const { batchManager, calls } = createBatchManager('adjacent');
+    drawScene(batchManager);
+
+    expect(calls).toEqual([
+      'rect 100', 'fill', 'text hi', 'rect 500', 'rect 425', 'fill',
+      'rect 100', 'fill', 'rect 400', 'stroke', 'rect 700', 'rect 462.5', 'fill'
+    ]);
+  });
+
+  test('should merge earlier commands past draws that do not overlap in non-overlapping mode', () => {
+    const { batchManager, calls } = createBatchManager('non-overlapping');
+    drawScene(batchManager);
+
+    // Squares under the text or the stroke stay on top of them
+    expect(calls).toEqual([
+      'rect 100', 'rect 500', 'fill', 'text hi', 'rect 425', 'fill',
+      'rect 100', 'rect 700', 'fill', 'rect 400', 'stroke', 'rect 462.5', 'fill'
+    ]);
+  });
+
+  test('should merge every command with the same style in unordered mode', () => {
+    const { batchManager, calls } = createBatchManager('unordered');
+    drawScene(batchManager);
+
+    expect(calls).toEqual([
+      'rect 100', 'rect 500', 'rect 425', 'fill', 'text hi',
+      'rect 100', 'rect 700', 'rect 462.5', 'fill', 'rect 400', 'stroke'
+    ]);
+  });
+
+  test('should fill and stroke each path once and count every paint as a batched draw call', () => {
+    const { batchManager, calls } = createBatchManager('non-overlapping');
+    const outlined = { fillColor: GREEN, strokeColor: BLUE, strokeThickness: new Fixed(2) };
+    const translucent = { fillColor: { r: 0, g: 1, b: 0, a: 0.5 } };
+    const line = { color: BLUE, thickness: new Fixed(2) };
+
+    batchManager.beginBatch();
+    batchManager.addRect(square(-3), outlined);
+    batchManager.addRect(square(-2), outlined);
+    batchManager.addRect(square(-1), outlined);
+    // Painting the overlap twice darkens it, so these get a path each
+    batchManager.addRect(square(1), translucent);
+    batchManager.addRect(square(1.25), translucent);
+    batchManager.addLine(
+      new FixedVector2(new Fixed(-3), Fixed.ONE),
+      new FixedVector2(new Fixed(-2), Fixed.ONE),
+      line
+    );
+    batchManager.addLine(
+      new FixedVector2(new Fixed(2), Fixed.ONE),
+      new FixedVector2(new Fixed(3), Fixed.ONE),
+      line
+    );
+    batchManager.endBatch();
+
+    expect(calls).toEqual([
+      'rect 100', 'rect 200', 'rect 300', 'fill', 'stroke',
+      'rect 500', 'fill', 'rect 525', 'fill',
+      'stroke'
+    ]);
+    expect(batchManager.getBatchedDrawCallCount()).toBe(5);
+  });
+});
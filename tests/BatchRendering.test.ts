@@ -0,0 +1,111 @@
+/**
+ * Batch rendering tests
+ * 批量渲染测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedVector2, FixedRect, FixedMatrix2x2 } from '@esengine/nova-ecs-math';
+import { BlendMode } from '@esengine/nova-ecs-render-core';
+import { CanvasRenderer } from '../src/CanvasRenderer';
+
+const RED = { r: 1, g: 0, b: 0, a: 1 };
+
+// Half-unit square at a world x, recognizable by its screen x
+function drawAt(renderer: CanvasRenderer, x: number): void {
+  renderer.drawRect(new FixedRect(new Fixed(x), Fixed.ZERO, new Fixed(0.5), new Fixed(0.5)), { fillColor: RED });
+}
+
+// Record screen transforms, traced squares, strokes and fills with the opacity they are painted with
+function createRenderer(): { renderer: CanvasRenderer; calls: string[] } {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+  const renderer = new CanvasRenderer(canvas, { enableBatchRendering: true });
+  const calls: string[] = [];
+
+  vi.mocked(ctx.transform).mockImplementation((_a, _b, _c, _d, e: number, f: number) => calls.push(`transform ${e},${f}`));
+  vi.mocked(ctx.rect).mockImplementation((x: number) => calls.push(`rect ${x}`));
+  vi.mocked(ctx.fill).mockImplementation(() => calls.push(`fill ${ctx.globalAlpha}`));
+  vi.mocked(ctx.stroke).mockImplementation(() => calls.push('stroke'));
+  return { renderer, calls };
+}
+
+describe('Batch rendering', () => {
+  test('should paint batched draws under the transform they were submitted with', () => {
+    const { renderer, calls } = createRenderer();
+
+    renderer.beginFrame();
+    renderer.pushTransform({
+      position: new FixedVector2(Fixed.ONE, Fixed.ZERO),
+      rotation: Fixed.ZERO,
+      scale: new FixedVector2(Fixed.ONE, Fixed.ONE)
+    });
+    drawAt(renderer, 0);
+    renderer.popTransform();
+    drawAt(renderer, -3);
+
+    expect(calls.filter(call => !call.startsWith('transform'))).toEqual([]);
+    calls.length = 0;
+    renderer.endFrame();
+
+    expect(calls.slice(0, 6)).toEqual([
+      'transform 100,0', 'rect 400', 'fill 1',
+      'transform 0,0', 'rect 100', 'fill 1'
+    ]);
+    expect(renderer.getCanvasStats().batchedDrawCalls).toBe(2);
+  });
+
+  test('should paint batched draws with the opacity they were submitted with', () => {
+    const { renderer, calls } = createRenderer();
+
+    renderer.beginFrame();
+    drawAt(renderer, -3);
+    renderer.setRenderState({ blendMode: BlendMode.Normal, opacity: 0.5 });
+    drawAt(renderer, 0);
+    renderer.setRenderState({ blendMode: BlendMode.Normal, opacity: 1 });
+    drawAt(renderer, 3);
+    renderer.endFrame();
+
+    // Same style and no overlap, but the opacity change keeps them apart
+    expect(calls.filter(call => !call.startsWith('transform'))).toEqual([
+      'rect 100', 'fill 1',
+      'rect 400', 'fill 0.5',
+      'rect 700', 'fill 1'
+    ]);
+  });
+
+  test('should report one batched draw call per fill and stroke of a merged path', () => {
+    const { renderer, calls } = createRenderer();
+    const outlined = { fillColor: RED, strokeColor: RED, strokeThickness: new Fixed(2) };
+
+    renderer.beginFrame();
+    for (const x of [-3, -2, -1]) {
+      renderer.drawRect(new FixedRect(new Fixed(x), Fixed.ZERO, new Fixed(0.5), new Fixed(0.5)), outlined);
+    }
+    renderer.endFrame();
+
+    expect(calls.filter(call => call.startsWith('fill') || call === 'stroke')).toEqual(['fill 1', 'stroke']);
+    const stats = renderer.getCanvasStats();
+    expect(stats.drawCalls).toBe(3);
+    expect(stats.batchedDrawCalls).toBe(2);
+  });
+
+  test('should place batched draws before the view matrix changes', () => {
+    const { renderer, calls } = createRenderer();
+    // Only the four entries are read by the coordinate system
+    const double = {
+      m00: new Fixed(2),
+      m01: Fixed.ZERO,
+      m10: Fixed.ZERO,
+      m11: new Fixed(2)
+    } as unknown as FixedMatrix2x2;
+
+    renderer.beginFrame();
+    // Flushed later, this square would be placed at -600 pixels from the center
+    drawAt(renderer, -3);
+    renderer.setViewMatrix(double);
+    drawAt(renderer, 1);
+    renderer.endFrame();
+
+    expect(calls.filter(call => call.startsWith('rect'))).toEqual(['rect 100', 'rect 600']);
+  });
+});
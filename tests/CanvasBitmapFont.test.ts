@@ -0,0 +1,84 @@
+/**
+ * Bitmap font tests
+ * 位图字体测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import { CanvasBitmapFont } from '../src/CanvasBitmapFont';
+import { CanvasTexture } from '../src/types/CanvasTypes';
+import { MockCanvasRenderingContext2D } from './setup';
+
+const TEXT_FONT = `info face="Pixel" size=8 bold=0 italic=0 padding=0,0,0,0
+common lineHeight=10 base=8 scaleW=64 scaleH=64 pages=1
+page id=0 file="pixel.png"
+chars count=2
+char id=65 x=0 y=0 width=6 height=8 xoffset=0 yoffset=0 xadvance=7 page=0 chnl=15
+char id=86 x=8 y=0 width=6 height=8 xoffset=1 yoffset=0 xadvance=7 page=0 chnl=15
+kernings count=1
+kerning first=65 second=86 amount=-2
+`;
+
+const XML_FONT = `<?xml version="1.0"?>
+<font>
+  <info face="Pixel" size="8"/>
+  <common lineHeight="10" base="8" scaleW="64" scaleH="64" pages="1"/>
+  <pages><page id="0" file="pixel.png"/></pages>
+  <chars count="2">
+    <char id="65" x="0" y="0" width="6" height="8" xoffset="0" yoffset="0" xadvance="7" page="0"/>
+    <char id="86" x="8" y="0" width="6" height="8" xoffset="1" yoffset="0" xadvance="7" page="0"/>
+  </chars>
+  <kernings count="1"><kerning first="65" second="86" amount="-2"/></kernings>
+</font>`;
+
+const JSON_FONT = JSON.stringify({
+  pages: ['pixel.png'],
+  chars: [
+    { id: 65, x: 0, y: 0, width: 6, height: 8, xoffset: 0, yoffset: 0, xadvance: 7, page: 0 },
+    { id: 86, x: 8, y: 0, width: 6, height: 8, xoffset: 1, yoffset: 0, xadvance: 7, page: 0 }
+  ],
+  info: { face: 'Pixel', size: 8 },
+  common: { lineHeight: 10, base: 8, scaleW: 64, scaleH: 64, pages: 1 },
+  kernings: [{ first: 65, second: 86, amount: -2 }]
+});
+
+function createPage(): CanvasTexture {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  canvas.width = 64;
+  canvas.height = 64;
+  return new CanvasTexture(canvas);
+}
+
+describe('CanvasBitmapFont', () => {
+  test('should parse text, XML and JSON formats alike', () => {
+    const fromText = CanvasBitmapFont.parse(TEXT_FONT);
+
+    expect(fromText.face).toBe('Pixel');
+    expect(fromText.pages).toEqual(['pixel.png']);
+    expect(fromText.chars).toHaveLength(2);
+    expect(CanvasBitmapFont.parse(XML_FONT)).toEqual(fromText);
+    expect(CanvasBitmapFont.parse(JSON_FONT)).toEqual(fromText);
+  });
+
+  test('should measure with kerning and line height', () => {
+    const font = CanvasBitmapFont.fromData(TEXT_FONT, [createPage()]);
+
+    expect(font.measureLine('AV')).toBe(12);
+    expect(font.measure('AV\nA', 2)).toEqual({ width: 24, height: 40 });
+  });
+
+  test('should draw glyphs aligned to the anchor', () => {
+    const font = CanvasBitmapFont.fromData(TEXT_FONT, [createPage()]);
+    const ctx = new MockCanvasRenderingContext2D() as unknown as CanvasRenderingContext2D;
+
+    // Right aligned at x=100, alphabetic baseline at y=50
+    font.draw(ctx, 'AV', 100, 50, 1, 'right');
+
+    expect(ctx.drawImage).toHaveBeenCalledTimes(2);
+    expect(ctx.drawImage).toHaveBeenCalledWith(font.pages[0].source, 0, 0, 6, 8, 88, 42, 6, 8);
+    expect(ctx.drawImage).toHaveBeenCalledWith(font.pages[0].source, 8, 0, 6, 8, 94, 42, 6, 8);
+  });
+
+  test('should fail when page textures are missing', () => {
+    expect(() => CanvasBitmapFont.fromData(TEXT_FONT, [])).toThrow();
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Nine-slice drawing tests
+ * 九宫格绘制测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedRect } from '@esengine/nova-ecs-math';
+import { CanvasRenderer } from '../src/CanvasRenderer';
+import { CanvasTexture } from '../src/types/CanvasTypes';
+import { CanvasTextureStyle } from '../src/types/PaintTypes';
+
+const INSETS = { left: 4, top: 4, right: 4, bottom: 4 };
+
+describe('CanvasRenderer nine-slice', () => {
+  test('should draw every slice with the texture style filter where the context filters natively', () => {
+    const canvas = document.createElement('canvas') as HTMLCanvasElement;
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    // Contexts with a filter property filter natively
+    ctx.filter = 'none';
+    const renderer = new CanvasRenderer(canvas);
+
+    const source = document.createElement('canvas') as HTMLCanvasElement;
+    source.width = 12;
+    source.height = 12;
+    const texture = new CanvasTexture(source);
+    const bounds = new FixedRect(new Fixed(-1), new Fixed(-1), new Fixed(2), new Fixed(2));
+    const style: CanvasTextureStyle = { filter: [{ type: 'grayscale', amount: 1 }] };
+
+    const filters: string[] = [];
+    vi.mocked(ctx.drawImage).mockImplementation(() => filters.push(ctx.filter));
+
+    renderer.beginFrame();
+    renderer.drawNineSlice(texture, bounds, INSETS, {}, style);
+    renderer.drawNineSlice(texture, bounds, INSETS);
+    renderer.endFrame();
+
+    expect(filters).toEqual([...new Array(9).fill('grayscale(1)'), ...new Array(9).fill('none')]);
+  });
+});
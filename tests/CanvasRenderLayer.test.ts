@@ -0,0 +1,107 @@
+/**
+ * Render layer tests
+ * 渲染层测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedRect } from '@esengine/nova-ecs-math';
+import { BlendMode } from '@esengine/nova-ecs-render-core';
+import { CanvasRenderer } from '../src/CanvasRenderer';
+
+const RED = { r: 1, g: 0, b: 0, a: 1 };
+
+interface FillRecord {
+  x: number;
+  alpha: number;
+  composite: GlobalCompositeOperation;
+}
+
+// Fill a small square at a world x position, recognizable by its screen x
+function drawAt(renderer: CanvasRenderer, x: number): void {
+  renderer.drawRect(new FixedRect(new Fixed(x), Fixed.ZERO, new Fixed(0.25), new Fixed(0.25)), { fillColor: RED });
+}
+
+// Record which square each fill paints, with the alpha and blending it was painted with
+function createRenderer(): { renderer: CanvasRenderer; fills: FillRecord[] } {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+  const renderer = new CanvasRenderer(canvas);
+  const fills: FillRecord[] = [];
+  let lastX = NaN;
+
+  vi.mocked(ctx.rect).mockImplementation((x: number) => {
+    lastX = (x - 400) / 100;
+  });
+  vi.mocked(ctx.fill).mockImplementation(() => {
+    fills.push({ x: lastX, alpha: ctx.globalAlpha, composite: ctx.globalCompositeOperation });
+  });
+  return { renderer, fills };
+}
+
+describe('CanvasRenderLayer', () => {
+  test('should draw queued draws by layer order, sort key and call order above immediate draws', () => {
+    const { renderer, fills } = createRenderer();
+    renderer.createLayer('foreground', { order: 1 });
+    renderer.createLayer('background', { order: 0 });
+
+    renderer.beginFrame();
+    renderer.setDrawLayer('foreground');
+    drawAt(renderer, 1);
+    renderer.setDrawLayer('background', 5);
+    drawAt(renderer, 2);
+    renderer.setDrawLayer('background', 1);
+    drawAt(renderer, 3);
+    drawAt(renderer, 2.5);
+    renderer.setDrawLayer(null);
+    drawAt(renderer, 0);
+
+    expect(renderer.getQueuedDrawCount()).toBe(4);
+    renderer.endFrame();
+
+    expect(fills.map(fill => fill.x)).toEqual([0, 3, 2.5, 2, 1]);
+    expect(renderer.getQueuedDrawCount()).toBe(0);
+    expect(renderer.getLayers().map(layer => layer.name)).toEqual(['background', 'foreground']);
+  });
+
+  test('should apply layer visibility, opacity and blend mode when flushed', () => {
+    const { renderer, fills } = createRenderer();
+    const hidden = renderer.createLayer('hidden');
+    const faded = renderer.createLayer('faded', { order: 1, opacity: 0.5 });
+    const blended = renderer.createLayer('blended', { order: 2, blendMode: BlendMode.Multiply });
+
+    renderer.beginFrame();
+    renderer.setDrawLayer(hidden);
+    drawAt(renderer, 1);
+    renderer.setDrawLayer(faded);
+    renderer.setRenderState({ blendMode: BlendMode.Normal, opacity: 0.5 });
+    drawAt(renderer, 2);
+    renderer.setRenderState({ blendMode: BlendMode.Normal, opacity: 1 });
+    renderer.setDrawLayer(blended);
+    drawAt(renderer, 3);
+
+    // Layer changes made after submitting still apply
+    hidden.setVisible(false);
+    faded.setOpacity(0.5);
+    renderer.endFrame();
+
+    expect(fills).toEqual([
+      { x: 2, alpha: 0.25, composite: 'source-over' },
+      { x: 3, alpha: 1, composite: 'multiply' }
+    ]);
+  });
+
+  test('should warn and keep the current layer for an unknown name', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { renderer } = createRenderer();
+    const layer = renderer.createLayer('world');
+
+    renderer.setDrawLayer(layer);
+    renderer.setDrawLayer('missing');
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(renderer.getDrawLayer()).toBe(layer);
+    expect(renderer.removeLayer('world')).toBe(true);
+    expect(renderer.getDrawLayer()).toBeNull();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Render target tests
+ * 渲染目标测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedRect } from '@esengine/nova-ecs-math';
+import { CanvasRenderer } from '../src/CanvasRenderer';
+import { CanvasRenderTarget } from '../src/CanvasRenderTarget';
+
+const RED = { r: 1, g: 0, b: 0, a: 1 };
+
+function createRenderer(): { renderer: CanvasRenderer; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  const renderer = new CanvasRenderer(canvas);
+  return { renderer, ctx: canvas.getContext('2d') as CanvasRenderingContext2D };
+}
+
+function unitRect(): FixedRect {
+  return new FixedRect(new Fixed(-0.5), new Fixed(-0.5), Fixed.ONE, Fixed.ONE);
+}
+
+describe('CanvasRenderTarget', () => {
+  test('should resize its texture in place', () => {
+    const target = new CanvasRenderTarget(64, 32);
+    const texture = target.getTexture();
+    const version = texture.version;
+
+    target.resize(128, 16);
+
+    expect(target.getTexture()).toBe(texture);
+    expect(texture.width).toBe(128);
+    expect(texture.height).toBe(16);
+    expect(texture.version).toBeGreaterThan(version);
+    expect(target.coordinateSystem.getScreenArea()).toEqual({ x: 0, y: 0, width: 128, height: 16 });
+  });
+
+  test('should shrink its texture along with its pixels on dispose', () => {
+    const target = new CanvasRenderTarget(64, 32);
+    const texture = target.getTexture();
+
+    target.dispose();
+
+    expect(texture.width).toBe(1);
+    expect(texture.height).toBe(1);
+  });
+
+  test('should redirect drawing while bound and mark its texture dirty', () => {
+    const { renderer, ctx } = createRenderer();
+    const target = renderer.createRenderTarget(64, 64);
+    const version = target.getTexture().version;
+
+    renderer.beginFrame();
+    renderer.setRenderTarget(target);
+    expect(renderer.getRenderTarget()).toBe(target);
+    expect(target.getTexture().version).toBeGreaterThan(version);
+
+    renderer.drawRect(unitRect(), { fillColor: RED });
+    renderer.setRenderTarget(null);
+    expect(renderer.getRenderTarget()).not.toBe(target);
+
+    // Pending draws were flushed into the target before switching back
+    expect(vi.mocked(target.ctx.fill)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(ctx.fill)).not.toHaveBeenCalled();
+
+    renderer.drawRect(unitRect(), { fillColor: RED });
+    renderer.endFrame();
+
+    expect(vi.mocked(target.ctx.fill)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(ctx.fill)).toHaveBeenCalledTimes(1);
+  });
+
+  test('should balance saves on each context it was bound to', () => {
+    const { renderer, ctx } = createRenderer();
+    const target = renderer.createRenderTarget(32, 32);
+
+    renderer.beginFrame();
+    renderer.setRenderTarget(target);
+    renderer.drawRect(unitRect(), { fillColor: RED });
+    renderer.endFrame();
+    renderer.setRenderTarget(null);
+
+    const targetSaves = vi.mocked(target.ctx.save).mock.calls.length;
+    expect(targetSaves).toBeGreaterThan(0);
+    expect(vi.mocked(target.ctx.restore).mock.calls.length).toBe(targetSaves);
+    expect(vi.mocked(ctx.restore).mock.calls.length).toBe(vi.mocked(ctx.save).mock.calls.length);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Texture atlas tests
+ * 纹理图集测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import { CanvasTextureAtlas } from '../src/CanvasTextureAtlas';
+import { CanvasTexture } from '../src/types/CanvasTypes';
+import { AtlasData } from '../src/types/AtlasTypes';
+import { MockCanvasRenderingContext2D } from './setup';
+
+function createAtlasTexture(): CanvasTexture {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  canvas.width = 256;
+  canvas.height = 256;
+  return new CanvasTexture(canvas);
+}
+
+const TEXTURE_PACKER_HASH: AtlasData = {
+  frames: {
+    'hero.png': {
+      frame: { x: 10, y: 20, w: 30, h: 40 },
+      rotated: false,
+      trimmed: true,
+      spriteSourceSize: { x: 5, y: 2, w: 30, h: 40 },
+      sourceSize: { w: 48, h: 48 },
+      pivot: { x: 0.5, y: 1 }
+    },
+    'coin.png': {
+      frame: { x: 100, y: 0, w: 16, h: 8 },
+      rotated: true,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: 16, h: 8 },
+      sourceSize: { w: 16, h: 8 }
+    }
+  },
+  meta: { image: 'sheet.png', size: { w: 256, h: 256 } }
+};
+
+const ASEPRITE_ARRAY: AtlasData = {
+  frames: [
+    { filename: 'run 0', frame: { x: 0, y: 0, w: 16, h: 16 }, duration: 100 },
+    { filename: 'run 1', frame: { x: 16, y: 0, w: 16, h: 16 }, duration: 120 },
+    { filename: 'idle 0', frame: { x: 32, y: 0, w: 16, h: 16 }, duration: 500 }
+  ],
+  meta: {
+    image: 'hero.png',
+    frameTags: [
+      { name: 'run', from: 0, to: 1, direction: 'forward' },
+      { name: 'idle', from: 2, to: 2, direction: 'pingpong' }
+    ]
+  }
+};
+
+describe('CanvasTextureAtlas', () => {
+  test('should parse TexturePacker hash frames', () => {
+    const atlas = CanvasTextureAtlas.fromJSON(createAtlasTexture(), TEXTURE_PACKER_HASH);
+    const hero = atlas.getRegion('hero.png');
+
+    expect(atlas.getRegionNames()).toEqual(['hero.png', 'coin.png']);
+    expect(hero).toBeDefined();
+    expect(hero?.width).toBe(48);
+    expect(hero?.height).toBe(48);
+    expect(hero?.trimOffset).toEqual({ x: 5, y: 2 });
+    expect(hero?.pivot).toEqual({ x: 0.5, y: 1 });
+    expect(hero?.baseTexture).toBe(atlas.texture);
+  });
+
+  test('should parse Aseprite array frames and tags', () => {
+    const atlas = CanvasTextureAtlas.fromJSON(createAtlasTexture(), JSON.stringify(ASEPRITE_ARRAY));
+
+    expect(atlas.getRegions('run').map(region => region.name)).toEqual(['run 0', 'run 1']);
+    expect(atlas.getRegion('run 1')?.duration).toBe(120);
+    expect(atlas.getFrameTag('idle')?.direction).toBe('pingpong');
+    expect(atlas.getTagRegions('run').map(region => region.name)).toEqual(['run 0', 'run 1']);
+    expect(atlas.getTagRegions('missing')).toEqual([]);
+  });
+
+  test('should draw trimmed frames offset inside their original size', () => {
+    const atlas = CanvasTextureAtlas.fromJSON(createAtlasTexture(), TEXTURE_PACKER_HASH);
+    const hero = atlas.getRegion('hero.png');
+    const ctx = new MockCanvasRenderingContext2D() as unknown as CanvasRenderingContext2D;
+
+    // Draw at double size
+    hero?.draw(ctx, atlas.texture.source, 0, 0, 96, 96);
+
+    expect(ctx.drawImage).toHaveBeenCalledWith(atlas.texture.source, 10, 20, 30, 40, 10, 4, 60, 80);
+  });
+
+  test('should clamp region draws to trimmed content', () => {
+    const atlas = CanvasTextureAtlas.fromJSON(createAtlasTexture(), TEXTURE_PACKER_HASH);
+    const hero = atlas.getRegion('hero.png');
+    const ctx = new MockCanvasRenderingContext2D() as unknown as CanvasRenderingContext2D;
+
+    // Only the margin left of the content: nothing to draw
+    hero?.drawRegion(ctx, atlas.texture.source, 0, 0, 5, 48, 0, 0, 5, 48);
+    expect(ctx.drawImage).not.toHaveBeenCalled();
+
+    // Right half of the sprite
+    hero?.drawRegion(ctx, atlas.texture.source, 24, 0, 24, 48, 0, 0, 24, 48);
+    expect(ctx.drawImage).toHaveBeenCalledWith(atlas.texture.source, 29, 20, 11, 40, 0, 2, 11, 40);
+  });
+
+  test('should undo clockwise rotation of rotated frames', () => {
+    const atlas = CanvasTextureAtlas.fromJSON(createAtlasTexture(), TEXTURE_PACKER_HASH);
+    const coin = atlas.getRegion('coin.png');
+    const ctx = new MockCanvasRenderingContext2D() as unknown as CanvasRenderingContext2D;
+
+    coin?.draw(ctx, atlas.texture.source, 0, 0, 16, 8);
+
+    expect(ctx.translate).toHaveBeenCalledWith(0, 8);
+    expect(ctx.rotate).toHaveBeenCalledWith(-Math.PI / 2);
+    // Stored area is 8 wide and 16 tall in the atlas
+    expect(ctx.drawImage).toHaveBeenCalledWith(atlas.texture.source, 100, 0, 8, 16, 0, 0, 8, 16);
+    expect(ctx.save).toHaveBeenCalledTimes(1);
+    expect(ctx.restore).toHaveBeenCalledTimes(1);
+  });
+});
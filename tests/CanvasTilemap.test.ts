@@ -0,0 +1,134 @@
+/**
+ * Tilemap tileset and chunk cache tests
+ * 瓦片地图图块集和分块缓存测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import { CanvasTileset } from '../src/tilemap/CanvasTileset';
+import { CanvasTilemapLayer } from '../src/tilemap/CanvasTilemapLayer';
+import { CanvasTexture } from '../src/types/CanvasTypes';
+import { CanvasTilemapConfig, TiledTilesetData } from '../src/types/TilemapTypes';
+
+const CONFIG: CanvasTilemapConfig = {
+  chunkSize: 2,
+  pixelsPerUnit: 16,
+  useOffscreenCanvas: false
+};
+
+const TILESET: TiledTilesetData = {
+  firstgid: 1,
+  name: 'terrain',
+  image: 'terrain.png',
+  imagewidth: 36,
+  imageheight: 36,
+  tilewidth: 16,
+  tileheight: 16,
+  margin: 1,
+  spacing: 2,
+  columns: 2,
+  tilecount: 4,
+  tiles: [
+    {
+      id: 3,
+      animation: [
+        { tileid: 3, duration: 100 },
+        { tileid: 2, duration: 50 }
+      ]
+    }
+  ]
+};
+
+function createTileset(): CanvasTileset {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  canvas.width = 36;
+  canvas.height = 36;
+  return new CanvasTileset(TILESET, new CanvasTexture(canvas));
+}
+
+function createLayer(tiles: number[]): CanvasTilemapLayer {
+  return new CanvasTilemapLayer('ground', 3, 3, tiles, [createTileset()], 16, 16, CONFIG);
+}
+
+describe('CanvasTileset', () => {
+  test('should locate tiles with margin and spacing', () => {
+    const tileset = createTileset();
+
+    expect(tileset.getSourceRect(0)).toEqual({ x: 1, y: 1, width: 16, height: 16 });
+    expect(tileset.getSourceRect(3)).toEqual({ x: 19, y: 19, width: 16, height: 16 });
+    expect(tileset.containsGid(4)).toBe(true);
+    expect(tileset.containsGid(5)).toBe(false);
+  });
+
+  test('should pick animation frames by time', () => {
+    const tileset = createTileset();
+
+    expect(tileset.getAnimatedTileId(3, 0)).toBe(3);
+    expect(tileset.getAnimatedTileId(3, 120)).toBe(2);
+    expect(tileset.getAnimatedTileId(3, 150)).toBe(3);
+    expect(tileset.getAnimatedTileId(1, 120)).toBe(1);
+  });
+});
+
+describe('CanvasTilemapLayer', () => {
+  test('should decode flip flags and base64 data', () => {
+    const raw = 0x80000000 + 0x20000000 + 2;
+    expect(CanvasTilemapLayer.decodeTile(raw)).toEqual({
+      gid: 2,
+      flipHorizontal: true,
+      flipVertical: false,
+      flipDiagonal: true
+    });
+    expect(CanvasTilemapLayer.encodeTile(CanvasTilemapLayer.decodeTile(raw))).toBe(raw);
+
+    // Two little-endian ids: 1 and 0x40000003
+    const data = btoa(String.fromCharCode(1, 0, 0, 0, 3, 0, 0, 0x40));
+    expect(CanvasTilemapLayer.decodeLayerData({ type: 'tilelayer', name: 'a', data, encoding: 'base64' }))
+      .toEqual([1, 0x40000003]);
+  });
+
+  test('should invalidate only the chunk of an edited tile', () => {
+    const layer = createLayer([1, 1, 1, 1, 1, 1, 1, 1, 1]);
+    for (let row = 0; row < layer.chunkRows; row++) {
+      for (let column = 0; column < layer.chunkColumns; column++) {
+        layer.getChunkTexture(column, row);
+      }
+    }
+
+    layer.setTile(2, 0, 2);
+
+    expect(layer.isChunkDirty(1, 0)).toBe(true);
+    expect(layer.isChunkDirty(0, 0)).toBe(false);
+    expect(layer.isChunkDirty(0, 1)).toBe(false);
+    expect(layer.isChunkDirty(1, 1)).toBe(false);
+    expect(layer.getTile(2, 0)?.gid).toBe(2);
+  });
+
+  test('should draw chunk tiles with flips and skip empty chunks', () => {
+    const layer = createLayer([1, 0x80000002, 0, 0, 0, 0, 0, 0, 0]);
+
+    const texture = layer.getChunkTexture(0, 0);
+    const ctx = (texture?.source as HTMLCanvasElement).getContext('2d') as CanvasRenderingContext2D;
+
+    expect(layer.getChunkPixelSize(1, 1)).toEqual({ width: 16, height: 16 });
+    expect(layer.getChunkTexture(1, 1)).toBeNull();
+    expect(ctx.drawImage).toHaveBeenCalledTimes(2);
+    expect(ctx.drawImage).toHaveBeenCalledWith(expect.anything(), 1, 1, 16, 16, 0, 0, 16, 16);
+    // Horizontally flipped tile is drawn around its center
+    expect(ctx.translate).toHaveBeenCalledWith(24, 8);
+    expect(ctx.scale).toHaveBeenCalledWith(-1, 1);
+    expect(ctx.drawImage).toHaveBeenCalledWith(expect.anything(), 19, 1, 16, 16, -8, -8, 16, 16);
+  });
+
+  test('should redraw chunks whose animated tiles change frame', () => {
+    const layer = createLayer([4, 0, 0, 0, 0, 0, 0, 0, 1]);
+    layer.getChunkTexture(0, 0);
+    layer.getChunkTexture(1, 1);
+
+    layer.setAnimationTime(50);
+    expect(layer.isChunkDirty(0, 0)).toBe(false);
+
+    layer.setAnimationTime(120);
+    expect(layer.isChunkDirty(0, 0)).toBe(true);
+    expect(layer.isChunkDirty(1, 1)).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Viewport tests
+ * 视口测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { CanvasRenderer } from '../src/CanvasRenderer';
+import { CanvasViewport } from '../src/CanvasViewport';
+
+function vec(x: number, y: number): FixedVector2 {
+  return new FixedVector2(new Fixed(x), new Fixed(y));
+}
+
+// Right half of an 800 x 600 canvas
+function createRightViewport(): CanvasViewport {
+  return new CanvasViewport('right', { x: 400, y: 0, width: 400, height: 300 }, 100);
+}
+
+describe('CanvasViewport', () => {
+  test('should place the camera center at the middle of its rectangle', () => {
+    const viewport = createRightViewport();
+    const system = viewport.coordinateSystem;
+
+    expect(system.getScreenArea()).toEqual({ x: 400, y: 0, width: 400, height: 300 });
+    expect(system.worldToScreen(vec(0, 0))).toEqual({ x: 600, y: 150 });
+    expect(system.worldToScreen(vec(1, 1))).toEqual({ x: 700, y: 50 });
+    expect(viewport.containsScreenPoint({ x: 600, y: 150 })).toBe(true);
+    expect(viewport.containsScreenPoint({ x: 399, y: 150 })).toBe(false);
+
+    viewport.setRect(0, 300, 200, 100);
+    expect(system.worldToScreen(vec(0, 0))).toEqual({ x: 100, y: 350 });
+  });
+
+  test('should report visible bounds from its own camera', () => {
+    const left = new CanvasViewport('left', { x: 0, y: 0, width: 400, height: 300 }, 100);
+    const right = new CanvasViewport('right', {
+      x: 400,
+      y: 0,
+      width: 400,
+      height: 300,
+      cameraPosition: vec(10, 0),
+      cameraZoom: new Fixed(2)
+    }, 100);
+
+    const leftBounds = left.coordinateSystem.getVisibleBounds();
+    expect(leftBounds.left).toBeCloseTo(-2, 3);
+    expect(leftBounds.width).toBeCloseTo(4, 3);
+    expect(leftBounds.height).toBeCloseTo(3, 3);
+
+    const rightBounds = right.coordinateSystem.getVisibleBounds();
+    expect(rightBounds.left).toBeCloseTo(9, 3);
+    expect(rightBounds.right).toBeCloseTo(11, 3);
+    expect(rightBounds.top).toBeCloseTo(0.75, 3);
+    expect(rightBounds.height).toBeCloseTo(1.5, 3);
+
+    // Culling follows the viewport rectangle, not the whole canvas
+    const rect = new FixedRect(new Fixed(2.5), Fixed.ZERO, new Fixed(0.5), new Fixed(0.5));
+    expect(left.coordinateSystem.isRectVisible(rect)).toBe(false);
+  });
+
+  test('should convert screen points inside an offset viewport back to world points', () => {
+    const viewport = new CanvasViewport('right', {
+      x: 400,
+      y: 0,
+      width: 400,
+      height: 300,
+      cameraPosition: vec(5, -1)
+    }, 100);
+
+    const world = viewport.coordinateSystem.screenToWorld({ x: 650, y: 100 });
+    expect(world.x.toNumber()).toBeCloseTo(5.5, 3);
+    expect(world.y.toNumber()).toBeCloseTo(-0.5, 3);
+
+    const screen = viewport.coordinateSystem.worldToScreen(world);
+    expect(screen.x).toBeCloseTo(650, 2);
+    expect(screen.y).toBeCloseTo(100, 2);
+  });
+
+  test('should clip and draw through the active viewport camera', () => {
+    const canvas = document.createElement('canvas') as HTMLCanvasElement;
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    const renderer = new CanvasRenderer(canvas);
+    renderer.createViewport('right', { x: 400, y: 0, width: 400, height: 300 });
+
+    renderer.beginFrame();
+    renderer.beginViewport('right');
+    expect(renderer.getActiveViewport()).toBe(renderer.getViewport('right'));
+    renderer.drawRect(
+      new FixedRect(new Fixed(-0.5), new Fixed(-0.5), Fixed.ONE, Fixed.ONE),
+      { fillColor: { r: 1, g: 0, b: 0, a: 1 } }
+    );
+    renderer.endViewport();
+    renderer.endFrame();
+
+    expect(renderer.getActiveViewport()).toBeNull();
+    expect(vi.mocked(ctx.rect).mock.calls).toEqual([
+      [400, 0, 400, 300],
+      [550, 100, 100, 100]
+    ]);
+    expect(ctx.clip).toHaveBeenCalledTimes(1);
+  });
+});
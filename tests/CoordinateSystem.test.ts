@@ -0,0 +1,101 @@
+/**
+ * Coordinate system tests
+ * 坐标系测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedVector2, FixedRect, FixedMatrix2x2 } from '@esengine/nova-ecs-math';
+import { CoordinateSystem } from '../src/utils/CoordinateSystem';
+
+function vec(x: number, y: number): FixedVector2 {
+  return new FixedVector2(new Fixed(x), new Fixed(y));
+}
+
+function rect(x: number, y: number, width: number, height: number): FixedRect {
+  return new FixedRect(new Fixed(x), new Fixed(y), new Fixed(width), new Fixed(height));
+}
+
+// Only the four entries are read by the coordinate system
+function matrix(m00: number, m01: number, m10: number, m11: number): FixedMatrix2x2 {
+  return {
+    m00: new Fixed(m00),
+    m01: new Fixed(m01),
+    m10: new Fixed(m10),
+    m11: new Fixed(m11)
+  } as unknown as FixedMatrix2x2;
+}
+
+function createSystem(): CoordinateSystem {
+  return new CoordinateSystem(100, { width: 800, height: 600 });
+}
+
+describe('CoordinateSystem', () => {
+  test('should round-trip points under rotation, skew and non-uniform scale', () => {
+    const setups: Array<(system: CoordinateSystem) => void> = [
+      system => system.setCameraRotation(new Fixed(0.7)),
+      system => system.setViewMatrix(matrix(1, 0.5, 0, 1)),
+      system => {
+        system.setViewMatrix(matrix(2, 0, 0, 0.5));
+        system.setCameraRotation(new Fixed(-0.3));
+        system.setCameraPosition(vec(3, -2));
+        system.setCameraZoom(new Fixed(1.5));
+      }
+    ];
+
+    for (const setup of setups) {
+      const system = createSystem();
+      setup(system);
+
+      for (const point of [vec(0, 0), vec(1.25, -2.5), vec(-4, 3)]) {
+        const back = system.screenToWorld(system.worldToScreen(point));
+        expect(back.x.toNumber()).toBeCloseTo(point.x.toNumber(), 2);
+        expect(back.y.toNumber()).toBeCloseTo(point.y.toNumber(), 2);
+      }
+    }
+  });
+
+  test('should turn the world clockwise when the camera rotates counter-clockwise', () => {
+    const system = createSystem();
+    system.setCameraRotation(new Fixed(Math.PI / 2));
+
+    // World +X ends up below the screen center
+    const screen = system.worldToScreen(vec(1, 0));
+    expect(screen.x).toBeCloseTo(400, 1);
+    expect(screen.y).toBeCloseTo(400, 1);
+    expect(system.hasViewRotation()).toBe(true);
+  });
+
+  test('should bound the rotated screen in world space', () => {
+    const system = createSystem();
+    system.setCameraRotation(new Fixed(Math.PI / 2));
+
+    const bounds = system.getVisibleBounds();
+    expect(bounds.width).toBeCloseTo(6, 2);
+    expect(bounds.height).toBeCloseTo(8, 2);
+    expect(bounds.left).toBeCloseTo(-3, 2);
+    expect(bounds.top).toBeCloseTo(4, 2);
+
+    // The long screen axis now runs along world Y
+    expect(system.isRectVisible(rect(3.5, 0, 0.4, 0.4))).toBe(false);
+    expect(system.isRectVisible(rect(0, 3.5, 0.4, 0.4))).toBe(true);
+
+    const unrotated = createSystem();
+    expect(unrotated.isRectVisible(rect(3.5, 0, 0.4, 0.4))).toBe(true);
+    expect(unrotated.isRectVisible(rect(0, 3.5, 0.4, 0.4))).toBe(false);
+  });
+
+  test('should reject a singular view matrix and keep the previous one', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const system = createSystem();
+    const scale = matrix(2, 0, 0, 2);
+    system.setViewMatrix(scale);
+    const before = system.worldToScreen(vec(1, 1));
+
+    system.setViewMatrix(matrix(1, 2, 2, 4));
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(system.worldToScreen(vec(1, 1))).toEqual(before);
+    expect(system.getCameraInfo().viewMatrix).toBe(scale);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * View culling tests
+ * 视图剔除测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedVector2, FixedRect } from '@esengine/nova-ecs-math';
+import { CanvasRenderer } from '../src/CanvasRenderer';
+import { CanvasRendererConfig } from '../src/types/CanvasTypes';
+
+const RED = { r: 1, g: 0, b: 0, a: 1 };
+
+function vec(x: number, y: number): FixedVector2 {
+  return new FixedVector2(new Fixed(x), new Fixed(y));
+}
+
+function rect(x: number, y: number, width: number, height: number): FixedRect {
+  return new FixedRect(new Fixed(x), new Fixed(y), new Fixed(width), new Fixed(height));
+}
+
+// 800 x 600 canvas at 100 pixels per unit: world x in [-4, 4], y in [-3, 3]
+function createRenderer(config: Partial<CanvasRendererConfig> = {}): { renderer: CanvasRenderer; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  const renderer = new CanvasRenderer(canvas, config);
+  return { renderer, ctx: canvas.getContext('2d') as CanvasRenderingContext2D };
+}
+
+describe('Culling', () => {
+  test('should skip and count draws outside the view', () => {
+    const { renderer, ctx } = createRenderer();
+
+    renderer.beginFrame();
+    renderer.drawRect(rect(10, 0, 1, 1), { fillColor: RED });
+    renderer.drawCircle(vec(0, -8), Fixed.ONE, { fillColor: RED });
+    renderer.drawLine(vec(-9, 5), vec(-6, 5), { color: RED, thickness: new Fixed(2) });
+    renderer.drawText('far away', vec(40, 40), { color: RED, fontSize: new Fixed(16) });
+    renderer.endFrame();
+
+    const stats = renderer.getCanvasStats();
+    expect(stats.culledDrawCalls).toBe(4);
+    expect(stats.drawCalls).toBe(0);
+    expect(ctx.fill).not.toHaveBeenCalled();
+    expect(ctx.stroke).not.toHaveBeenCalled();
+    expect(ctx.fillText).not.toHaveBeenCalled();
+  });
+
+  test('should draw primitives that are inside or reach into the view', () => {
+    const { renderer, ctx } = createRenderer();
+
+    renderer.beginFrame();
+    renderer.drawRect(rect(-0.5, -0.5, 1, 1), { fillColor: RED });
+    // Center off-screen, but the radius reaches 20 pixels in
+    renderer.drawCircle(vec(4.3, 0), new Fixed(0.5), { fillColor: RED });
+    renderer.endFrame();
+
+    const stats = renderer.getCanvasStats();
+    expect(stats.culledDrawCalls).toBe(0);
+    expect(stats.drawCalls).toBe(2);
+    expect(vi.mocked(ctx.fill).mock.calls.length).toBeGreaterThan(0);
+  });
+
+  test('should cull a circle whose edge stays outside the view', () => {
+    const { renderer, ctx } = createRenderer();
+
+    renderer.beginFrame();
+    renderer.drawCircle(vec(4.6, 0), new Fixed(0.5), { fillColor: RED });
+    renderer.endFrame();
+
+    expect(renderer.getCanvasStats().culledDrawCalls).toBe(1);
+    expect(ctx.arc).not.toHaveBeenCalled();
+  });
+
+  test('should cull against where pushed transforms place a draw', () => {
+    const { renderer, ctx } = createRenderer();
+
+    renderer.beginFrame();
+    renderer.pushTransform({ position: vec(10, 0), rotation: Fixed.ZERO, scale: vec(1, 1) });
+    renderer.drawRect(rect(-0.5, -0.5, 1, 1), { fillColor: RED });
+    renderer.drawRect(rect(-10.5, -0.5, 1, 1), { fillColor: RED });
+    renderer.popTransform();
+    renderer.endFrame();
+
+    expect(renderer.getCanvasStats().culledDrawCalls).toBe(1);
+    expect(renderer.getCanvasStats().drawCalls).toBe(1);
+    expect(ctx.fill).toHaveBeenCalledTimes(1);
+  });
+
+  test('should draw everything when culling is disabled', () => {
+    const { renderer, ctx } = createRenderer({ enableCulling: false });
+
+    renderer.beginFrame();
+    renderer.drawRect(rect(10, 0, 1, 1), { fillColor: RED });
+    renderer.endFrame();
+
+    expect(renderer.getCanvasStats().culledDrawCalls).toBe(0);
+    expect(renderer.getCanvasStats().drawCalls).toBe(1);
+    expect(ctx.fill).toHaveBeenCalledTimes(1);
+  });
+});
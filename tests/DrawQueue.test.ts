@@ -0,0 +1,55 @@
+/**
+ * Layered draw queue tests
+ * 分层绘制队列测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import { DrawQueue } from '../src/utils/DrawQueue';
+import { CanvasRenderLayer } from '../src/CanvasRenderLayer';
+
+function drainNames(queue: DrawQueue<CanvasRenderLayer, string>): string[] {
+  return queue.drain().map(entry => entry.command);
+}
+
+describe('DrawQueue', () => {
+  test('should sort by layer order, then sort key', () => {
+    const background = new CanvasRenderLayer('background', { order: -1 });
+    const units = new CanvasRenderLayer('units', { order: 0 });
+    const ui = new CanvasRenderLayer('ui', { order: 10 });
+    const queue = new DrawQueue<CanvasRenderLayer, string>();
+
+    queue.push(ui, 0, 'hud');
+    queue.push(units, 5, 'far');
+    queue.push(background, 0, 'sky');
+    queue.push(units, 1, 'near');
+
+    expect(drainNames(queue)).toEqual(['sky', 'near', 'far', 'hud']);
+  });
+
+  test('should keep call order for equal keys', () => {
+    const layer = new CanvasRenderLayer('units');
+    const queue = new DrawQueue<CanvasRenderLayer, string>();
+
+    for (let i = 0; i < 20; i++) {
+      queue.push(layer, i % 2, `draw${i}`);
+    }
+
+    const names = drainNames(queue);
+    expect(names.slice(0, 10)).toEqual([0, 2, 4, 6, 8, 10, 12, 14, 16, 18].map(i => `draw${i}`));
+    expect(names.slice(10)).toEqual([1, 3, 5, 7, 9, 11, 13, 15, 17, 19].map(i => `draw${i}`));
+  });
+
+  test('should read layer order when drained and empty itself', () => {
+    const lower = new CanvasRenderLayer('lower', { order: 0 });
+    const upper = new CanvasRenderLayer('upper', { order: 1 });
+    const queue = new DrawQueue<CanvasRenderLayer, string>();
+
+    queue.push(lower, 0, 'a');
+    queue.push(upper, 0, 'b');
+    lower.setOrder(2);
+
+    expect(drainNames(queue)).toEqual(['b', 'a']);
+    expect(queue.length).toBe(0);
+    expect(queue.drain()).toEqual([]);
+  });
+});
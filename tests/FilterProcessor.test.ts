@@ -0,0 +1,85 @@
+/**
+ * Filter processor tests
+ * 滤镜处理器测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import { FilterProcessor } from '../src/utils/FilterProcessor';
+import { CanvasFilter } from '../src/types/FilterTypes';
+
+// Stand-in for Fixed
+class TestFixed {
+  constructor(private value: number) {}
+
+  toNumber(): number {
+    return this.value;
+  }
+}
+
+function filter(...steps: Array<Record<string, unknown>>): CanvasFilter {
+  return steps as unknown as CanvasFilter;
+}
+
+function createImage(width: number, height: number, pixels: number[][]): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4);
+  pixels.forEach((pixel, index) => data.set(pixel, index * 4));
+  return { width, height, data } as unknown as ImageData;
+}
+
+describe('FilterProcessor', () => {
+  test('should compose filter functions into a ctx.filter string', () => {
+    const composed = filter(
+      { type: 'grayscale', amount: 1 },
+      { type: 'blur', radius: new TestFixed(0.5) },
+      { type: 'brightness', amount: 1.5 },
+      { type: 'hue-rotate', angle: new TestFixed(Math.PI) }
+    );
+
+    expect(FilterProcessor.toCss(composed, 200)).toBe(`grayscale(1) blur(100px) brightness(1.5) hue-rotate(${Math.PI}rad)`);
+    expect(FilterProcessor.toCss([], 200)).toBe('none');
+    expect(FilterProcessor.getBlurExtent(composed)).toBe(1.5);
+  });
+
+  test('should fall back where the context has no filter', () => {
+    expect(FilterProcessor.isSupported({ filter: 'none' } as unknown as CanvasRenderingContext2D)).toBe(true);
+    expect(FilterProcessor.isSupported({} as unknown as CanvasRenderingContext2D)).toBe(false);
+  });
+
+  test('should apply color filters to pixels in order', () => {
+    const image = createImage(2, 1, [[255, 0, 0, 255], [0, 0, 255, 128]]);
+
+    FilterProcessor.apply(image, filter({ type: 'grayscale', amount: 1 }, { type: 'brightness', amount: 2 }), 1);
+    expect(Array.from(image.data)).toEqual([108, 108, 108, 255, 36, 36, 36, 128]);
+
+    // Half a turn maps red close to cyan
+    const hue = createImage(1, 1, [[255, 0, 0, 255]]);
+    FilterProcessor.apply(hue, filter({ type: 'hue-rotate', angle: new TestFixed(Math.PI) }), 1);
+    expect(hue.data[0]).toBe(0);
+    expect(hue.data[1]).toBeGreaterThan(100);
+    expect(hue.data[1]).toBe(hue.data[2]);
+  });
+
+  test('should blur without darkening colors at transparent edges', () => {
+    const size = 21;
+    const center = (size * 10 + 10) * 4;
+    const image = createImage(size, size, []);
+    image.data.set([255, 128, 0, 255], center);
+
+    FilterProcessor.apply(image, filter({ type: 'blur', radius: new TestFixed(1) }), 2);
+
+    let alpha = 0;
+    for (let i = 0; i < image.data.length; i += 4) {
+      alpha += image.data[i + 3];
+      if (image.data[i + 3] > 0) {
+        expect(image.data[i]).toBe(255);
+        expect(Math.abs(image.data[i + 1] - 128)).toBeLessThanOrEqual(2);
+      }
+    }
+
+    // Spread out and fading from the center, with the total coverage about the same
+    expect(image.data[center + 3]).toBeLessThan(255);
+    expect(image.data[center + 3]).toBeGreaterThan(image.data[center + 3 * 4 + 3]);
+    expect(image.data[center + 3 * 4 + 3]).toBeGreaterThan(0);
+    expect(Math.abs(alpha - 255)).toBeLessThan(64);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Masking and composite operation tests
+ * 遮罩与合成操作测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedRect } from '@esengine/nova-ecs-math';
+import { BlendMode } from '@esengine/nova-ecs-render-core';
+import { CanvasRenderer } from '../src/CanvasRenderer';
+import { CanvasMask, CanvasTexture } from '../src/types/CanvasTypes';
+import { StyleManager } from '../src/utils/StyleManager';
+
+const RED = { r: 1, g: 0, b: 0, a: 1 };
+
+type TextureMask = Extract<CanvasMask, { type: 'texture' }>;
+
+function createMask(): TextureMask {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  canvas.width = 16;
+  canvas.height = 16;
+  return {
+    type: 'texture',
+    texture: new CanvasTexture(canvas),
+    bounds: new FixedRect(new Fixed(-1), new Fixed(-1), new Fixed(2), new Fixed(2))
+  };
+}
+
+function createRenderer(): { renderer: CanvasRenderer; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  const renderer = new CanvasRenderer(canvas);
+  return { renderer, ctx: canvas.getContext('2d') as CanvasRenderingContext2D };
+}
+
+// Context of the canvas created last, e.g. the off-screen surface of a mask just begun
+function getLastCreatedContext(): CanvasRenderingContext2D {
+  const results = vi.mocked(document.createElement).mock.results;
+  const canvas = results[results.length - 1].value as HTMLCanvasElement;
+  return canvas.getContext('2d') as CanvasRenderingContext2D;
+}
+
+describe('Masking', () => {
+  test('should track nested masks and close the ones left open at the end of the frame', () => {
+    const { renderer } = createRenderer();
+    const mask = createMask();
+
+    // Masks only apply inside a frame
+    renderer.beginMask(mask);
+    expect(renderer.getMaskDepth()).toBe(0);
+
+    renderer.beginFrame();
+    renderer.beginMask(mask);
+    renderer.beginMask(mask, true);
+    expect(renderer.getMaskDepth()).toBe(2);
+    renderer.endMask();
+    expect(renderer.getMaskDepth()).toBe(1);
+    renderer.endMask();
+    renderer.endMask();
+    expect(renderer.getMaskDepth()).toBe(0);
+
+    renderer.beginMask(mask);
+    renderer.endFrame();
+    expect(renderer.getMaskDepth()).toBe(0);
+  });
+
+  test('should cut content off-screen by the mask and composite it with the state at beginMask', () => {
+    for (const invert of [false, true]) {
+      const { renderer, ctx } = createRenderer();
+      const mask = createMask();
+      const composites: string[] = [];
+      vi.mocked(ctx.drawImage).mockImplementation(() => {
+        composites.push(`${ctx.globalAlpha} ${ctx.globalCompositeOperation}`);
+      });
+
+      renderer.beginFrame();
+      renderer.setRenderState({ blendMode: BlendMode.Multiply, opacity: 0.5 });
+      renderer.beginMask(mask, invert);
+
+      const maskCtx = getLastCreatedContext();
+      const masked: string[] = [];
+      vi.mocked(maskCtx.rect).mockImplementation(() => masked.push('content'));
+      vi.mocked(maskCtx.drawImage).mockImplementation((image: CanvasImageSource) => {
+        masked.push(`${image === mask.texture.source ? 'mask' : 'other'} ${maskCtx.globalCompositeOperation}`);
+      });
+
+      renderer.drawRect(new FixedRect(new Fixed(-0.5), new Fixed(-0.5), Fixed.ONE, Fixed.ONE), { fillColor: RED });
+      renderer.endMask();
+      renderer.endFrame();
+
+      expect(ctx.rect).not.toHaveBeenCalled();
+      expect(masked).toEqual(['content', `mask ${invert ? 'destination-out' : 'destination-in'}`]);
+      expect(composites).toEqual(['0.5 multiply']);
+    }
+  });
+});
+
+describe('Composite operations', () => {
+  test('should map blend modes and render state operations through the same table', () => {
+    const { ctx } = createRenderer();
+    const styleManager = new StyleManager(ctx);
+
+    expect(styleManager.blendModeToCanvas(BlendMode.Add)).toBe('lighter');
+    expect(styleManager.blendModeToCanvas(BlendMode.Multiply)).toBe('multiply');
+    expect(styleManager.resolveCompositeOperation(BlendMode.Multiply)).toBe('multiply');
+    expect(styleManager.resolveCompositeOperation(BlendMode.Normal, 'difference')).toBe('difference');
+    expect(StyleManager.isCompositeOperation('destination-out')).toBe(true);
+    expect(StyleManager.isCompositeOperation('sideways')).toBe(false);
+  });
+
+  test('should fall back to the blend mode for an unknown operation', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { renderer, ctx } = createRenderer();
+
+    renderer.beginFrame();
+    renderer.setRenderState({
+      blendMode: BlendMode.Screen,
+      opacity: 1,
+      compositeOperation: 'sideways' as GlobalCompositeOperation
+    });
+    expect(ctx.globalCompositeOperation).toBe('screen');
+
+    renderer.setRenderState({ blendMode: BlendMode.Screen, opacity: 1, compositeOperation: 'destination-out' });
+    expect(ctx.globalCompositeOperation).toBe('destination-out');
+    renderer.endFrame();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Nine-slice drawing tests
+ * 九宫格绘制测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import { NineSlice, DEFAULT_NINE_SLICE_OPTIONS } from '../src/utils/NineSlice';
+import { CanvasTexture } from '../src/types/CanvasTypes';
+import { MockCanvasRenderingContext2D } from './setup';
+
+function createTexture(width: number, height: number): CanvasTexture {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  canvas.width = width;
+  canvas.height = height;
+  return new CanvasTexture(canvas);
+}
+
+function createContext(): CanvasRenderingContext2D {
+  return new MockCanvasRenderingContext2D() as unknown as CanvasRenderingContext2D;
+}
+
+const INSETS = { left: 4, top: 4, right: 4, bottom: 4 };
+
+describe('NineSlice', () => {
+  test('should stretch edges and center between fixed corners', () => {
+    const texture = createTexture(12, 12);
+    const ctx = createContext();
+
+    NineSlice.draw(ctx, texture, texture.source, 0, 0, 100, 50, INSETS);
+
+    expect(ctx.drawImage).toHaveBeenCalledTimes(9);
+    // Top-left corner keeps its size
+    expect(ctx.drawImage).toHaveBeenCalledWith(texture.source, 0, 0, 4, 4, 0, 0, 4, 4);
+    // Center stretches over the remaining area
+    expect(ctx.drawImage).toHaveBeenCalledWith(texture.source, 4, 4, 4, 4, 4, 4, 92, 42);
+    // Bottom-right corner sits in the far corner
+    expect(ctx.drawImage).toHaveBeenCalledWith(texture.source, 8, 8, 4, 4, 96, 46, 4, 4);
+  });
+
+  test('should shrink borders proportionally when the box is too small', () => {
+    const texture = createTexture(12, 12);
+    const ctx = createContext();
+
+    NineSlice.draw(ctx, texture, texture.source, 0, 0, 4, 4, INSETS);
+
+    // Only the four corners remain, each half size
+    expect(ctx.drawImage).toHaveBeenCalledTimes(4);
+    expect(ctx.drawImage).toHaveBeenCalledWith(texture.source, 8, 8, 4, 4, 2, 2, 2, 2);
+  });
+
+  test('should tile edges and center with a cut last tile', () => {
+    const texture = createTexture(12, 12);
+    const ctx = createContext();
+
+    NineSlice.draw(ctx, texture, texture.source, 0, 0, 18, 12, INSETS, {
+      ...DEFAULT_NINE_SLICE_OPTIONS,
+      centerMode: 'tile',
+      edgeMode: 'tile',
+      drawCenter: false
+    });
+
+    // Middle column is 10 wide: two full tiles and one of 2 pixels, for top and bottom edges
+    expect(ctx.drawImage).toHaveBeenCalledWith(texture.source, 4, 0, 4, 4, 4, 0, 4, 4);
+    expect(ctx.drawImage).toHaveBeenCalledWith(texture.source, 4, 0, 2, 4, 12, 0, 2, 4);
+    // 4 corners + 3 + 3 horizontal edge tiles + 1 + 1 vertical edge tiles, no center
+    expect(ctx.drawImage).toHaveBeenCalledTimes(12);
+  });
+
+  test('should scale borders by texel scale', () => {
+    const texture = createTexture(12, 12);
+    const ctx = createContext();
+
+    NineSlice.draw(ctx, texture, texture.source, 10, 20, 40, 40, INSETS, DEFAULT_NINE_SLICE_OPTIONS, 2);
+
+    expect(ctx.drawImage).toHaveBeenCalledWith(texture.source, 0, 0, 4, 4, 10, 20, 8, 8);
+    expect(ctx.drawImage).toHaveBeenCalledWith(texture.source, 4, 4, 4, 4, 18, 28, 24, 24);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Paint cache tests
+ * 绘制缓存测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { PaintCache, PaintSpace } from '../src/utils/PaintCache';
+import { StyleInterner } from '../src/utils/StyleInterner';
+import { CanvasPaint } from '../src/types/PaintTypes';
+import { ScreenTransform } from '../src/types/CanvasTypes';
+
+// Stand-in for Fixed
+class TestFixed {
+  constructor(private value: number) {}
+
+  toNumber(): number {
+    return this.value;
+  }
+}
+
+// Stand-in for a whole CanvasTexture
+class TestTexture {
+  readonly source = { width: 32, height: 32 };
+  readonly width = 32;
+  readonly height = 32;
+  version = 0;
+
+  get baseTexture(): TestTexture {
+    return this;
+  }
+}
+
+function vec(x: number, y: number): { x: TestFixed; y: TestFixed } {
+  return { x: new TestFixed(x), y: new TestFixed(y) };
+}
+
+interface TestGradient {
+  kind: string;
+  args: number[];
+  stops: Array<[number, string]>;
+  addColorStop(offset: number, color: string): void;
+}
+
+interface TestPattern {
+  image: unknown;
+  repetition: string;
+  transform: Record<string, number> | null;
+  setTransform(transform: Record<string, number>): void;
+}
+
+function createGradient(kind: string, args: number[]): TestGradient {
+  return {
+    kind,
+    args,
+    stops: [],
+    addColorStop(offset: number, color: string): void {
+      this.stops.push([offset, color]);
+    }
+  };
+}
+
+// Records the gradients a context is asked to create
+const ctx = {
+  created: 0,
+  createLinearGradient(...args: number[]): TestGradient {
+    this.created++;
+    return createGradient('linear', args);
+  },
+  createRadialGradient(...args: number[]): TestGradient {
+    this.created++;
+    return createGradient('radial', args);
+  },
+  createConicGradient(...args: number[]): TestGradient {
+    this.created++;
+    return createGradient('conic', args);
+  },
+  createPattern(image: unknown, repetition: string): TestPattern {
+    this.created++;
+    return {
+      image,
+      repetition,
+      transform: null,
+      setTransform(transform: Record<string, number>): void {
+        this.transform = transform;
+      }
+    };
+  }
+};
+const context = ctx as unknown as CanvasRenderingContext2D;
+
+// 100 pixels per unit with the Y axis flipped, world origin at (400, 300)
+function createSpace(offsetX: number = 0): { space: PaintSpace; view: ScreenTransform } {
+  const view = { a: 100, b: 0, c: 0, d: -100, e: 400 + offsetX, f: 300 };
+  return { view, space: { getWorldToScreenTransform: () => view, getPixelsPerUnit: () => 100, getDevicePixelRatio: () => 1 } };
+}
+
+const red = { r: 1, g: 0, b: 0, a: 1 };
+const clearBlue = { r: 0, g: 0, b: 1, a: 0.5 };
+
+describe('PaintCache', () => {
+  test('should place gradients in screen space from world coordinates', () => {
+    const cache = new PaintCache(new StyleInterner());
+    const { space } = createSpace();
+
+    const linear = cache.get(context, {
+      type: 'linear-gradient',
+      start: vec(0, 0),
+      end: vec(1, 1),
+      stops: [{ offset: 0, color: red }, { offset: 2, color: clearBlue }]
+    } as unknown as CanvasPaint, space) as unknown as TestGradient;
+    expect(linear.args).toEqual([400, 300, 500, 200]);
+    expect(linear.stops).toEqual([[0, 'rgba(255, 0, 0, 1)'], [1, 'rgba(0, 0, 255, 0.5)']]);
+
+    const radial = cache.get(context, {
+      type: 'radial-gradient',
+      center: vec(1, 0),
+      radius: new TestFixed(2),
+      stops: [{ offset: 0, color: red }]
+    } as unknown as CanvasPaint, space) as unknown as TestGradient;
+    expect(radial.args).toEqual([500, 300, 0, 500, 300, 200]);
+
+    // A quarter turn counter-clockwise in a Y-up world points up on screen
+    const conic = cache.get(context, {
+      type: 'conic-gradient',
+      center: vec(0, 0),
+      angle: new TestFixed(Math.PI / 2),
+      stops: [{ offset: 0, color: red }]
+    } as unknown as CanvasPaint, space) as unknown as TestGradient;
+    expect(conic.args[0]).toBeCloseTo(-Math.PI / 2);
+    expect(conic.args.slice(1)).toEqual([400, 300]);
+  });
+
+  test('should fall back to the first stop color and warn once without conic gradient support', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const cache = new PaintCache(new StyleInterner());
+    const noConic = { ...ctx, createConicGradient: undefined } as unknown as CanvasRenderingContext2D;
+    const paint = {
+      type: 'conic-gradient',
+      center: vec(0, 0),
+      angle: new TestFixed(0),
+      stops: [{ offset: 0, color: clearBlue }, { offset: 1, color: red }]
+    } as unknown as CanvasPaint;
+
+    expect(cache.get(noConic, paint, createSpace().space)).toBe('rgba(0, 0, 255, 0.5)');
+    expect(cache.get(noConic, paint, createSpace(10).space)).toBe('rgba(0, 0, 255, 0.5)');
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  test('should reuse gradients until the view or paint changes', () => {
+    const cache = new PaintCache(new StyleInterner());
+    const paint = {
+      type: 'linear-gradient',
+      start: vec(0, 0),
+      end: vec(1, 0),
+      stops: [{ offset: 0, color: red }]
+    } as unknown as CanvasPaint;
+    const { space } = createSpace();
+    const created = ctx.created;
+
+    const first = cache.get(context, paint, space);
+    expect(cache.get(context, paint, space)).toBe(first);
+    expect(ctx.created - created).toBe(1);
+
+    // The camera moved
+    expect(cache.get(context, paint, createSpace(10).space)).not.toBe(first);
+    expect(ctx.created - created).toBe(2);
+  });
+
+  test('should lock patterns to the world and rebuild them for new texture content', () => {
+    const cache = new PaintCache(new StyleInterner());
+    const texture = new TestTexture();
+    const { space } = createSpace();
+
+    // One texture pixel per screen pixel at the default scale, upright on screen
+    const plain = cache.get(context, { type: 'pattern', texture } as unknown as CanvasPaint, space) as unknown as TestPattern;
+    expect(plain.image).toBe(texture.source);
+    expect(plain.repetition).toBe('repeat');
+    expect(plain.transform).toEqual({ a: 1, b: 0, c: 0, d: 1, e: 400, f: 300 });
+
+    const placed = cache.get(context, {
+      type: 'pattern',
+      texture,
+      repeat: 'repeat-x',
+      offset: vec(1, 1),
+      scale: vec(0.02, 0.02),
+      rotation: new TestFixed(Math.PI / 2)
+    } as unknown as CanvasPaint, space) as unknown as TestPattern;
+    expect(placed.repetition).toBe('repeat-x');
+    expect(placed.transform!.a).toBeCloseTo(0);
+    expect(placed.transform!.b).toBeCloseTo(-2);
+    expect(placed.transform!.c).toBeCloseTo(2);
+    expect(placed.transform!.d).toBeCloseTo(0);
+    expect([placed.transform!.e, placed.transform!.f]).toEqual([500, 200]);
+
+    const paint = { type: 'pattern', texture } as unknown as CanvasPaint;
+    const first = cache.get(context, paint, space);
+    expect(cache.get(context, paint, space)).toBe(first);
+    texture.version++;
+    expect(cache.get(context, paint, space)).not.toBe(first);
+  });
+
+  test('should tell opaque paints and painted styles apart', () => {
+    const opaque = { type: 'conic-gradient', center: vec(0, 0), angle: new TestFixed(0), stops: [{ offset: 0, color: red }] };
+    const translucent = { ...opaque, stops: [{ offset: 0, color: red }, { offset: 1, color: clearBlue }] };
+
+    expect(PaintCache.isOpaque(opaque as unknown as CanvasPaint)).toBe(true);
+    expect(PaintCache.isOpaque(translucent as unknown as CanvasPaint)).toBe(false);
+    expect(PaintCache.hasFill({ fillPaint: opaque } as never)).toBe(true);
+    expect(PaintCache.hasStroke({ fillPaint: opaque } as never)).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Post-processing pipeline tests
+ * 后期处理管线测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { PostProcessPipeline } from '../src/utils/PostProcessPipeline';
+
+function createImage(pixels: number[][]): ImageData {
+  const data = new Uint8ClampedArray(pixels.length * 4);
+  pixels.forEach((pixel, index) => data.set(pixel, index * 4));
+  return { width: pixels.length, height: 1, data } as unknown as ImageData;
+}
+
+// Strip of size x size squares, one per blue level, mapping each color through a function
+function createLut(size: number, map: (value: number) => number): Uint8ClampedArray {
+  const width = size * size;
+  const data = new Uint8ClampedArray(width * size * 4);
+  for (let g = 0; g < size; g++) {
+    for (let b = 0; b < size; b++) {
+      for (let r = 0; r < size; r++) {
+        const level = (value: number): number => map((value / (size - 1)) * 255);
+        data.set([level(r), level(g), level(b), 255], (g * width + b * size + r) * 4);
+      }
+    }
+  }
+  return data;
+}
+
+function createContext(): CanvasRenderingContext2D {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  return canvas.getContext('2d') as CanvasRenderingContext2D;
+}
+
+describe('PostProcessPipeline', () => {
+  test('should grade colors through a lookup table', () => {
+    const image = createImage([[51, 102, 204, 255], [0, 255, 128, 64]]);
+    PostProcessPipeline.applyLut(image, createLut(2, value => value), 2);
+    expect(Array.from(image.data)).toEqual([51, 102, 204, 255, 0, 255, 128, 64]);
+
+    // Half intensity blends halfway towards the inverted colors
+    const inverted = createImage([[0, 255, 51, 255]]);
+    PostProcessPipeline.applyLut(inverted, createLut(4, value => 255 - value), 4, 0.5);
+    expect(Array.from(inverted.data)).toEqual([128, 128, 128, 255]);
+  });
+
+  test('should toggle passes by type', () => {
+    const pipeline = new PostProcessPipeline([
+      { type: 'pixelate', size: 4 },
+      { type: 'chromatic-aberration', enabled: false }
+    ]);
+    expect(pipeline.isActive()).toBe(true);
+
+    expect(pipeline.setPassEnabled('pixelate', false)).toBe(true);
+    expect(pipeline.isActive()).toBe(false);
+    expect(pipeline.setPassEnabled('chromatic-aberration', true)).toBe(true);
+    expect(pipeline.isActive()).toBe(true);
+    expect(pipeline.setPassEnabled('bloom', true)).toBe(false);
+  });
+
+  test('should run enabled passes in order and time them', () => {
+    const pipeline = new PostProcessPipeline([
+      { type: 'pixelate', size: 4 },
+      { type: 'chromatic-aberration', offset: 2 },
+      { type: 'pixelate', size: 2, enabled: false }
+    ]);
+    const scene = pipeline.beginFrame(16, 12);
+    const target = createContext();
+
+    pipeline.present(target);
+
+    const timings = pipeline.getTimings();
+    expect(Object.keys(timings)).toEqual(['pixelate', 'chromatic-aberration']);
+    expect(timings.pixelate).toBeGreaterThanOrEqual(0);
+
+    // The frame is copied onto the target at identity
+    expect(target.setTransform).toHaveBeenCalledWith(1, 0, 0, 1, 0, 0);
+    expect(target.globalCompositeOperation).toBe('copy');
+    expect(vi.mocked(target.drawImage)).toHaveBeenCalledWith(scene.canvas, 0, 0);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Rich text markup and layout tests
+ * 富文本标记与布局测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import { RichText, RichTextLayoutParams } from '../src/utils/RichText';
+
+// Monospaced measure: half the font size per character
+const PARAMS: RichTextLayoutParams = {
+  baseFontSize: 20,
+  maxWidth: Infinity,
+  lineHeight: 1,
+  maxLines: Infinity,
+  wrap: true,
+  measure: (text, run) => Array.from(text).length * (run.fontSize ?? 20) / 2,
+  getIconSize: (name, fontSize) => (name === 'coin' ? { width: fontSize * 2, height: fontSize } : null)
+};
+
+describe('RichText', () => {
+  test('should parse nested tags into styled runs', () => {
+    const runs = RichText.parse('a[b]b[color=#f00]c[/color][/b][size=30]d[icon=coin][/size]');
+
+    expect(runs).toEqual([
+      { type: 'text', text: 'a', bold: false, italic: false, color: null, fontSize: null },
+      { type: 'text', text: 'b', bold: true, italic: false, color: null, fontSize: null },
+      { type: 'text', text: 'c', bold: true, italic: false, color: { r: 1, g: 0, b: 0, a: 1 }, fontSize: null },
+      { type: 'text', text: 'd', bold: false, italic: false, color: null, fontSize: 30 },
+      { type: 'icon', name: 'coin', fontSize: 30 }
+    ]);
+  });
+
+  test('should keep escaped and unknown tags as text', () => {
+    const runs = RichText.parse('[[b] [wave]x[color=nope]');
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({ type: 'text', text: '[b] [wave]x[color=nope]' });
+  });
+
+  test('should wrap runs together and trim line ends', () => {
+    const runs = RichText.parse('one [b]two three[/b] four');
+    const layout = RichText.layout(runs, { ...PARAMS, maxWidth: 100 });
+
+    expect(layout.lines.map(line => line.pieces.map(piece => piece.text).join(''))).toEqual([
+      'one two',
+      'three four'
+    ]);
+    expect(layout.lines[0].width).toBe(70);
+    expect(layout.height).toBe(40);
+  });
+
+  test('should place icons on the baseline of larger text', () => {
+    const runs = RichText.parse('x[icon=coin][size=40]Y[/size][icon=missing]');
+    const layout = RichText.layout(runs, PARAMS);
+    const line = layout.lines[0];
+
+    expect(line.pieces.map(piece => piece.x)).toEqual([0, 10, 50]);
+    expect(line.height).toBe(40);
+    expect(line.baseline).toBe(32);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Save stack tests
+ * 保存栈测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import { SaveStack, SavedState } from '../src/utils/SaveStack';
+
+interface ContextState {
+  transform: string;
+  clips: string[];
+}
+
+// Stand-in for a canvas context: save/restore of a transform and clip region
+class TestContext {
+  state: ContextState = { transform: 'identity', clips: [] };
+  saves: ContextState[] = [];
+
+  save(): void {
+    this.saves.push({ transform: this.state.transform, clips: [...this.state.clips] });
+  }
+
+  restore(): void {
+    const saved = this.saves.pop();
+    if (saved) {
+      this.state = saved;
+    }
+  }
+
+  apply(state: SavedState<string, string>): void {
+    if (state.type === 'transform') {
+      this.state.transform = state.transform;
+    } else {
+      this.state.clips.push(state.clip);
+    }
+  }
+}
+
+function createStack(): { context: TestContext; stack: SaveStack<string, string> } {
+  const context = new TestContext();
+  const stack = new SaveStack<string, string>({
+    save: () => context.save(),
+    restore: () => context.restore(),
+    reapply: state => context.apply(state)
+  });
+  return { context, stack };
+}
+
+function pushTransform(context: TestContext, stack: SaveStack<string, string>, transform: string): void {
+  stack.pushTransform(transform);
+  context.apply({ type: 'transform', transform });
+}
+
+function pushClip(context: TestContext, stack: SaveStack<string, string>, clip: string): void {
+  stack.pushClip(clip);
+  context.apply({ type: 'clip', clip });
+}
+
+describe('SaveStack', () => {
+  test('should nest clips and leave none behind', () => {
+    const { context, stack } = createStack();
+
+    pushClip(context, stack, 'scroll');
+    pushClip(context, stack, 'portal');
+    expect(context.state.clips).toEqual(['scroll', 'portal']);
+    expect(stack.clips).toEqual(['scroll', 'portal']);
+
+    stack.popClip();
+    expect(context.state.clips).toEqual(['scroll']);
+    stack.popClip();
+    expect(context.state.clips).toEqual([]);
+    expect(context.saves).toHaveLength(0);
+    expect(stack.popClip()).toBe(false);
+  });
+
+  test('should keep a transform pushed after a clip when the clip is popped', () => {
+    const { context, stack } = createStack();
+
+    pushClip(context, stack, 'scroll');
+    pushTransform(context, stack, 'offset');
+    stack.popClip();
+
+    expect(context.state).toEqual({ transform: 'offset', clips: [] });
+    expect(context.saves).toHaveLength(1);
+
+    stack.popTransform();
+    expect(context.state).toEqual({ transform: 'identity', clips: [] });
+    expect(context.saves).toHaveLength(0);
+  });
+
+  test('should keep clips pushed after a transform when the transform is popped', () => {
+    const { context, stack } = createStack();
+
+    pushTransform(context, stack, 'offset');
+    pushClip(context, stack, 'scroll');
+    const clipsBefore = stack.clips;
+    stack.popTransform();
+
+    expect(context.state.clips).toEqual(['scroll']);
+    expect(context.saves).toHaveLength(1);
+    // The set of clips did not change
+    expect(stack.clips).toBe(clipsBefore);
+  });
+
+  test('should not reach below a floor', () => {
+    const { context, stack } = createStack();
+
+    pushClip(context, stack, 'outer');
+    const floor = stack.depth;
+    pushTransform(context, stack, 'offset');
+
+    expect(stack.popClip(floor)).toBe(false);
+    expect(stack.removeClip('outer', floor)).toBe(false);
+    expect(context.state).toEqual({ transform: 'offset', clips: ['outer'] });
+  });
+
+  test('should unwind to a depth and resume', () => {
+    const { context, stack } = createStack();
+
+    pushClip(context, stack, 'outer');
+    pushTransform(context, stack, 'offset');
+    pushClip(context, stack, 'inner');
+
+    const suspended = stack.unwind(1);
+    expect(suspended.map(state => state.type)).toEqual(['clip', 'transform']);
+    expect(context.state).toEqual({ transform: 'identity', clips: ['outer'] });
+    expect(stack.clips).toEqual(['outer']);
+
+    stack.resume(suspended);
+    expect(context.state).toEqual({ transform: 'offset', clips: ['outer', 'inner'] });
+    expect(stack.clips).toEqual(['outer', 'inner']);
+    expect(stack.depth).toBe(3);
+  });
+});
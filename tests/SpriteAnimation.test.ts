@@ -0,0 +1,144 @@
+/**
+ * Sprite animation tests
+ * 精灵动画测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { SpriteAnimationClip } from '../src/animation/SpriteAnimationClip';
+import { SpriteAnimationPlayer } from '../src/animation/SpriteAnimationPlayer';
+import { CanvasTexture } from '../src/types/CanvasTypes';
+import { AnimationEvent, AnimationPlaybackMode } from '../src/types/AnimationTypes';
+import type { CanvasRenderer } from '../src/CanvasRenderer';
+
+// Quarter seconds are exact in fixed point, so frame boundaries are hit exactly
+const QUARTER = new Fixed(0.25);
+
+function createTextures(count: number): CanvasTexture[] {
+  return Array.from({ length: count }, () => {
+    const canvas = document.createElement('canvas') as HTMLCanvasElement;
+    canvas.width = 16;
+    canvas.height = 16;
+    return new CanvasTexture(canvas);
+  });
+}
+
+function createPlayer(mode: AnimationPlaybackMode): { player: SpriteAnimationPlayer; clip: SpriteAnimationClip } {
+  const clip = SpriteAnimationClip.fromTextures('walk', createTextures(3), QUARTER, mode);
+  const player = new SpriteAnimationPlayer();
+  player.play(clip);
+  return { player, clip };
+}
+
+// Frame indices after each quarter-second update
+function stepIndices(player: SpriteAnimationPlayer, steps: number): number[] {
+  const indices: number[] = [];
+  for (let i = 0; i < steps; i++) {
+    player.update(QUARTER);
+    indices.push(player.getFrameIndex());
+  }
+  return indices;
+}
+
+describe('SpriteAnimationClip', () => {
+  test('should reject clips without frames or with non-positive durations', () => {
+    expect(() => new SpriteAnimationClip('empty', [])).toThrow('has no frames');
+    expect(() => new SpriteAnimationClip('still', [{ texture: createTextures(1)[0], duration: Fixed.ZERO }]))
+      .toThrow('without positive duration');
+
+    const clip = SpriteAnimationClip.fromTextures('walk', createTextures(3), QUARTER);
+    expect(clip.getTotalDuration().toNumber()).toBe(0.75);
+    expect(() => clip.addEvent(3, 'late')).toThrow('out of range');
+  });
+});
+
+describe('SpriteAnimationPlayer', () => {
+  test('should wrap around in loop mode', () => {
+    const { player } = createPlayer('loop');
+    expect(stepIndices(player, 4)).toEqual([1, 2, 0, 1]);
+    expect(player.isPlaying()).toBe(true);
+  });
+
+  test('should bounce at both ends in pingpong mode', () => {
+    const { player } = createPlayer('pingpong');
+    expect(stepIndices(player, 6)).toEqual([1, 2, 1, 0, 1, 2]);
+  });
+
+  test('should stop on the last frame in once mode', () => {
+    const { player } = createPlayer('once');
+    const events: AnimationEvent[] = [];
+    player.addEventListener(event => events.push(event));
+
+    player.update(new Fixed(2));
+
+    expect(player.getFrameIndex()).toBe(2);
+    expect(player.isFinished()).toBe(true);
+    expect(player.isPlaying()).toBe(false);
+    expect(events.map(event => event.type)).toEqual(['complete']);
+  });
+
+  test('should consume several frames in one update and carry the remainder', () => {
+    const { player } = createPlayer('loop');
+
+    player.update(new Fixed(1.125));
+    expect(player.getFrameIndex()).toBe(1);
+
+    // 0.125 was left over, so another 0.125 finishes the frame
+    player.update(new Fixed(0.125));
+    expect(player.getFrameIndex()).toBe(2);
+  });
+
+  test('should raise frame and loop events in playback order', () => {
+    const clip = SpriteAnimationClip.fromTextures('attack', createTextures(3), QUARTER)
+      .addEvent(0, 'start')
+      .addEvent(2, 'hit');
+    const player = new SpriteAnimationPlayer();
+    const events: string[] = [];
+    player.addEventListener(event => events.push(`${event.type}:${event.name}@${event.frameIndex}`));
+
+    player.play(clip);
+    player.update(new Fixed(0.5));
+    player.update(QUARTER);
+
+    expect(events).toEqual(['frame:start@0', 'frame:hit@2', 'loop:loop@0', 'frame:start@0']);
+  });
+
+  test('should play backwards with a negative speed and hold while paused', () => {
+    const { player } = createPlayer('loop');
+    player.setSpeed(new Fixed(-1));
+
+    expect(stepIndices(player, 2)).toEqual([2, 1]);
+
+    player.pause();
+    player.update(QUARTER);
+    expect(player.getFrameIndex()).toBe(1);
+
+    player.resume();
+    player.update(QUARTER);
+    expect(player.getFrameIndex()).toBe(0);
+  });
+
+  test('should give the same frames for the same updates', () => {
+    const deltas = [0.016, 0.033, 0.2, 0.0625, 0.5, 0.01].map(seconds => new Fixed(seconds));
+    const run = (): number[] => {
+      const { player } = createPlayer('pingpong');
+      return deltas.map(delta => {
+        player.update(delta);
+        return player.getFrameIndex();
+      });
+    };
+
+    expect(run()).toEqual(run());
+  });
+
+  test('should draw the current frame through the renderer', () => {
+    const { player, clip } = createPlayer('loop');
+    const renderer = { drawTexture: vi.fn() };
+    const position = new FixedVector2(Fixed.ONE, Fixed.ZERO);
+
+    player.update(QUARTER);
+    player.draw(renderer as unknown as CanvasRenderer, position);
+
+    expect(renderer.drawTexture).toHaveBeenCalledWith(clip.frames[1].texture, position, undefined);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Style interning tests and grouping key benchmark
+ * 样式驻留测试与分组键基准测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedRect } from '@esengine/nova-ecs-math';
+import { CanvasRenderer } from '../src/CanvasRenderer';
+import { StyleInterner } from '../src/utils/StyleInterner';
+
+function createShapeStyle(index: number): Record<string, unknown> {
+  return {
+    fillColor: { r: (index % 5) / 4, g: 0.5, b: 0.25, a: 1 },
+    strokeColor: { r: 0, g: 0, b: 0, a: 1 },
+    strokeThickness: new Fixed(1 + (index % 3)),
+    dashPattern: [new Fixed(4), new Fixed(2)]
+  };
+}
+
+describe('StyleInterner', () => {
+  test('should give structurally equal styles the same id', () => {
+    const interner = new StyleInterner();
+
+    const a = interner.intern({ color: { r: 1, g: 0, b: 0, a: 1 }, thickness: new Fixed(2) });
+    const b = interner.intern({ thickness: new Fixed(2), color: { a: 1, b: 0, g: 0, r: 1 } });
+    const c = interner.intern({ color: { r: 1, g: 0, b: 0, a: 1 }, thickness: new Fixed(3) });
+
+    expect(a).toBe(b);
+    expect(c).not.toBe(a);
+    expect(interner.intern(undefined)).toBe(0);
+    expect(interner.size).toBe(2);
+  });
+
+  test('should compare non-plain objects by identity', () => {
+    class Texture {
+      constructor(public readonly width: number) {}
+    }
+    const interner = new StyleInterner();
+    const first = new Texture(16);
+
+    expect(interner.intern({ texture: first })).toBe(interner.intern({ texture: first }));
+    expect(interner.intern({ texture: first })).not.toBe(interner.intern({ texture: new Texture(16) }));
+  });
+
+  test('should draw a style changed between draws with its new color', () => {
+    const canvas = document.createElement('canvas') as HTMLCanvasElement;
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+    const renderer = new CanvasRenderer(canvas, { enableBatchRendering: false });
+    const bounds = new FixedRect(Fixed.ZERO, Fixed.ZERO, Fixed.ONE, Fixed.ONE);
+    const style = { fillColor: { r: 1, g: 0, b: 0, a: 1 } };
+
+    const fills: unknown[] = [];
+    vi.mocked(ctx.fill).mockImplementation(() => fills.push(ctx.fillStyle));
+
+    renderer.beginFrame();
+    renderer.drawRect(bounds, style);
+    // Changed in place, within the same frame
+    style.fillColor.b = 1;
+    renderer.drawRect(bounds, style);
+    renderer.drawRect(bounds, { fillColor: { r: 1, g: 0, b: 1, a: 1 } });
+    renderer.endFrame();
+
+    expect(fills).toHaveLength(3);
+    expect(fills[1]).not.toBe(fills[0]);
+    expect(fills[1]).toBe(fills[2]);
+  });
+
+  test('should never reuse ids after dropping them', () => {
+    const interner = new StyleInterner(2);
+    const seen = new Set<number>();
+
+    for (let i = 0; i < 10; i++) {
+      const id = interner.intern({ width: i });
+      expect(seen.has(id)).toBe(false);
+      seen.add(id);
+    }
+    expect(interner.size).toBeLessThanOrEqual(2);
+    expect(interner.epoch).toBeGreaterThan(0);
+  });
+
+  test('benchmark: interned ids versus JSON.stringify group keys', () => {
+    // A frame of 20000 draw commands sharing 30 style objects
+    const styles = Array.from({ length: 30 }, (_, index) => createShapeStyle(index));
+    const commands = Array.from({ length: 20000 }, (_, index) => styles[(index * 7) % styles.length]);
+
+    const groupBy = (getKey: (style: unknown) => string | number): Map<string | number, number> => {
+      const groups = new Map<string | number, number>();
+      for (const style of commands) {
+        const key = getKey(style);
+        groups.set(key, (groups.get(key) ?? 0) + 1);
+      }
+      return groups;
+    };
+
+    // Average milliseconds per frame over a few frames
+    const time = (getKey: (style: unknown) => string | number): number => {
+      const frames = 5;
+      const start = performance.now();
+      for (let i = 0; i < frames; i++) {
+        groupBy(getKey);
+      }
+      return (performance.now() - start) / frames;
+    };
+
+    const interner = new StyleInterner();
+    const getKey = vi.spyOn(interner, 'getKey');
+    // Whole styles serialized, not counting their nested values
+    const countHashed = (): number =>
+      getKey.mock.calls.filter(([value]) => styles.includes(value as Record<string, unknown>)).length;
+
+    // Same partition of commands, serializing each style once instead of once per command
+    const before = groupBy(style => JSON.stringify(style));
+    const after = groupBy(style => interner.intern(style));
+    expect(Array.from(after.values()).sort()).toEqual(Array.from(before.values()).sort());
+    expect(after.size).toBe(15);
+    expect(countHashed()).toBe(styles.length);
+
+    // Changing a style hashes that style again, and only it
+    getKey.mockClear();
+    (styles[0].fillColor as { g: number }).g = 1;
+    groupBy(style => interner.intern(style));
+    expect(countHashed()).toBe(1);
+
+    getKey.mockRestore();
+    const stringifyTime = time(style => JSON.stringify(style));
+    const internTime = time(style => interner.intern(style));
+    console.log(
+      `Grouping ${commands.length} commands: JSON.stringify ${stringifyTime.toFixed(2)}ms, ` +
+      `interned ids ${internTime.toFixed(2)}ms per frame`
+    );
+  });
+});
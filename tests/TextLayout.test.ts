@@ -0,0 +1,56 @@
+/**
+ * Text layout tests
+ * 文本布局测试
+ */
+
+import { describe, test, expect } from 'vitest';
+import { TextLayout } from '../src/utils/TextLayout';
+import { TextLayoutParams } from '../src/types/CanvasTypes';
+
+// Monospaced measure: 10 pixels per character
+const measure = (text: string): number => Array.from(text).length * 10;
+
+const PARAMS: TextLayoutParams = {
+  maxWidth: Infinity,
+  lineHeight: 12,
+  letterSpacing: 0,
+  maxLines: Infinity,
+  wrap: true,
+  ellipsis: '…'
+};
+
+function lineTexts(text: string, params: Partial<TextLayoutParams>): string[] {
+  return TextLayout.layout(text, measure, { ...PARAMS, ...params }).lines.map(line => line.text);
+}
+
+describe('TextLayout', () => {
+  test('should honor newlines and report full bounds', () => {
+    const result = TextLayout.layout('first line\nsecond', measure, PARAMS);
+
+    expect(result.lines.map(line => line.text)).toEqual(['first line', 'second']);
+    expect(result.width).toBe(100);
+    expect(result.height).toBe(24);
+    expect(result.truncated).toBe(false);
+  });
+
+  test('should wrap at spaces and break long words', () => {
+    expect(lineTexts('the quick brown fox', { maxWidth: 100 })).toEqual(['the quick', 'brown fox']);
+    expect(lineTexts('abcdefghijkl xy', { maxWidth: 50 })).toEqual(['abcde', 'fghij', 'kl xy']);
+  });
+
+  test('should add letter spacing between characters', () => {
+    const result = TextLayout.layout('abcd', measure, { ...PARAMS, letterSpacing: 2 });
+
+    expect(result.width).toBe(46);
+    expect(TextLayout.getCharacterOffsets('abc', measure, 2).map(piece => piece.x)).toEqual([0, 12, 24]);
+  });
+
+  test('should truncate with ellipsis at max lines and max width', () => {
+    const byLines = TextLayout.layout('one two three four', measure, { ...PARAMS, maxWidth: 80, maxLines: 2 });
+    expect(byLines.lines.map(line => line.text)).toEqual(['one two', 'three…']);
+    expect(byLines.truncated).toBe(true);
+
+    expect(lineTexts('a long unwrapped line', { maxWidth: 60, wrap: false })).toEqual(['a lon…']);
+    expect(lineTexts('a long unwrapped line', { maxWidth: 60, wrap: false, ellipsis: null })).toEqual(['a long']);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Texture batching tests
+ * 纹理批处理测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { Fixed, FixedVector2 } from '@esengine/nova-ecs-math';
+import { CanvasRenderer } from '../src/CanvasRenderer';
+import { CanvasTexture } from '../src/types/CanvasTypes';
+
+function vec(x: number, y: number): FixedVector2 {
+  return new FixedVector2(new Fixed(x), new Fixed(y));
+}
+
+function createTexture(): CanvasTexture {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  canvas.width = 16;
+  canvas.height = 16;
+  return new CanvasTexture(canvas);
+}
+
+// Record saves, restores and image draws, naming each image by its texture
+function createRenderer(
+  enableBatchRendering: boolean,
+  textures: Record<string, CanvasTexture>
+): { renderer: CanvasRenderer; calls: string[] } {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+  const renderer = new CanvasRenderer(canvas, { enableBatchRendering });
+  const calls: string[] = [];
+
+  vi.mocked(ctx.save).mockImplementation(() => calls.push('save'));
+  vi.mocked(ctx.restore).mockImplementation(() => calls.push('restore'));
+  vi.mocked(ctx.drawImage).mockImplementation((image: CanvasImageSource) => {
+    const name = Object.keys(textures).find(key => textures[key].source === image);
+    calls.push(`draw ${name}`);
+  });
+  return { renderer, calls };
+}
+
+describe('Texture batching', () => {
+  test('should draw nothing until the frame ends, then share a save/restore per source', () => {
+    const textures = { a: createTexture(), b: createTexture() };
+    const { renderer, calls } = createRenderer(true, textures);
+
+    renderer.beginFrame();
+    calls.length = 0;
+    renderer.drawTexture(textures.a, vec(-3, 0));
+    renderer.drawTexture(textures.b, vec(0, 0));
+    renderer.drawTexture(textures.a, vec(3, 0));
+    expect(calls).toEqual([]);
+    renderer.endFrame();
+
+    // The second draw of a does not overlap b, so it joins the first one
+    expect(calls.slice(0, 9)).toEqual([
+      'save',
+      'save', 'draw a', 'draw a', 'restore',
+      'save', 'draw b', 'restore',
+      'restore'
+    ]);
+
+    const stats = renderer.getCanvasStats();
+    expect(stats.drawCalls).toBe(3);
+    expect(stats.batchedDrawCalls).toBe(3);
+    expect(stats.textureBinds).toBe(2);
+  });
+
+  test('should keep painter\'s order when a later draw overlaps another source', () => {
+    const textures = { a: createTexture(), b: createTexture() };
+    const { renderer, calls } = createRenderer(true, textures);
+
+    renderer.beginFrame();
+    calls.length = 0;
+    renderer.drawTexture(textures.a, vec(0, 0));
+    renderer.drawTexture(textures.b, vec(0.05, 0));
+    renderer.drawTexture(textures.a, vec(0.1, 0));
+    renderer.endFrame();
+
+    expect(calls.filter(call => call.startsWith('draw'))).toEqual(['draw a', 'draw b', 'draw a']);
+  });
+
+  test('should draw each texture at once with its own save/restore when batching is off', () => {
+    const textures = { a: createTexture(), b: createTexture() };
+    const { renderer, calls } = createRenderer(false, textures);
+
+    renderer.beginFrame();
+    calls.length = 0;
+    renderer.drawTexture(textures.a, vec(-3, 0));
+    renderer.drawTexture(textures.a, vec(3, 0));
+    expect(calls).toEqual(['save', 'draw a', 'restore', 'save', 'draw a', 'restore']);
+    renderer.endFrame();
+
+    expect(renderer.getCanvasStats().batchedDrawCalls).toBe(0);
+    expect(renderer.getCanvasStats().textureBinds).toBe(1);
+  });
+});
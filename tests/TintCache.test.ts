@@ -0,0 +1,140 @@
+/**
+ * Tint cache tests
+ * 着色缓存测试
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { TintCache } from '../src/utils/TintCache';
+import { CanvasTexture, CanvasTextureRegion } from '../src/types/CanvasTypes';
+
+function createTexture(width: number = 32, height: number = 32): CanvasTexture {
+  const canvas = document.createElement('canvas') as HTMLCanvasElement;
+  canvas.width = width;
+  canvas.height = height;
+  return new CanvasTexture(canvas);
+}
+
+const RED = { r: 1, g: 0, b: 0, a: 1 };
+const BLUE = { r: 0, g: 0, b: 1, a: 1 };
+
+describe('TintCache', () => {
+  test('should return the original source for white tint', () => {
+    const cache = new TintCache();
+    const texture = createTexture();
+
+    expect(cache.getTinted(texture, { r: 1, g: 1, b: 1, a: 0.5 })).toBe(texture.source);
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  test('should composite tint with multiply and restore alpha', () => {
+    const cache = new TintCache();
+    const texture = createTexture();
+
+    const tinted = cache.getTinted(texture, RED) as HTMLCanvasElement;
+    const ctx = vi.mocked(tinted.getContext).mock.results[0].value as CanvasRenderingContext2D;
+
+    expect(tinted).not.toBe(texture.source);
+    expect(ctx.drawImage).toHaveBeenCalledTimes(2);
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 32, 32);
+    expect(ctx.fillStyle).toBe('rgb(255, 0, 0)');
+  });
+
+  test('should reuse cached tints for the same texture and color', () => {
+    const cache = new TintCache();
+    const texture = createTexture();
+
+    const first = cache.getTinted(texture, RED);
+    const second = cache.getTinted(texture, { ...RED, a: 0.25 });
+
+    expect(second).toBe(first);
+    expect(cache.getStats()).toMatchObject({ entries: 1, hits: 1, misses: 1 });
+  });
+
+  test('should evict least recently used entries', () => {
+    const cache = new TintCache(2);
+    const a = createTexture();
+    const b = createTexture();
+    const c = createTexture();
+
+    const tintedA = cache.getTinted(a, RED);
+    cache.getTinted(b, RED);
+    cache.getTinted(a, RED);
+    cache.getTinted(c, RED);
+
+    expect(cache.getStats().entries).toBe(2);
+    expect(cache.getStats().evictions).toBe(1);
+    expect(cache.getTinted(a, RED)).toBe(tintedA);
+  });
+
+  test('should evict by pixel budget', () => {
+    const cache = new TintCache(10, 32 * 32 * 2);
+
+    cache.getTinted(createTexture(), RED);
+    cache.getTinted(createTexture(), RED);
+    cache.getTinted(createTexture(), RED);
+
+    expect(cache.getStats().entries).toBe(2);
+    expect(cache.getStats().pixels).toBe(32 * 32 * 2);
+  });
+
+  test('should rebuild tints when texture content changes', () => {
+    const cache = new TintCache();
+    const texture = createTexture();
+
+    const before = cache.getTinted(texture, BLUE);
+    texture.markDirty();
+    const after = cache.getTinted(texture, BLUE);
+
+    expect(after).not.toBe(before);
+    expect(cache.getStats()).toMatchObject({ entries: 1, pixels: 32 * 32 });
+  });
+
+  test('should not cache tints larger than the pixel budget', () => {
+    const cache = new TintCache(10, 32 * 32);
+    const small = createTexture();
+    const tintedSmall = cache.getTinted(small, RED);
+
+    const large = createTexture(64, 64);
+    const tintedLarge = cache.getTinted(large, RED);
+
+    expect(tintedLarge).not.toBe(large.source);
+    expect(cache.getTinted(large, RED)).not.toBe(tintedLarge);
+    expect(cache.getTinted(small, RED)).toBe(tintedSmall);
+    expect(cache.getStats()).toMatchObject({ entries: 1, pixels: 32 * 32 });
+  });
+
+  test('should invalidate tints of a single texture', () => {
+    const cache = new TintCache();
+    const a = createTexture();
+    const b = createTexture();
+
+    cache.getTinted(a, RED);
+    cache.getTinted(a, BLUE);
+    cache.getTinted(b, RED);
+    cache.invalidate(a);
+
+    expect(cache.getStats().entries).toBe(1);
+    expect(cache.getStats().pixels).toBe(32 * 32);
+  });
+
+  test('should tint only the frame of an atlas region', () => {
+    const cache = new TintCache();
+    const atlas = createTexture(256, 256);
+    const region = new CanvasTextureRegion(atlas, 'hero', { x: 64, y: 32, width: 16, height: 24 }, { rotated: true });
+
+    const tinted = cache.getTintedTexture(region, RED) as CanvasTextureRegion;
+    const ctx = vi.mocked((tinted.source as HTMLCanvasElement).getContext).mock.results[0].value as CanvasRenderingContext2D;
+
+    // Rotated frames are stored sideways in the atlas
+    expect(ctx.drawImage).toHaveBeenCalledWith(atlas.source, 64, 32, 24, 16, 0, 0, 24, 16);
+    expect(tinted.frame).toEqual({ x: 0, y: 0, width: 16, height: 24 });
+    expect(tinted.rotated).toBe(true);
+    expect(cache.getStats().pixels).toBe(16 * 24);
+
+    // Regions of an atlas are tinted apart and dropped with it
+    cache.getTintedTexture(new CanvasTextureRegion(atlas, 'other', { x: 0, y: 0, width: 8, height: 8 }), RED);
+    expect(cache.getStats().entries).toBe(2);
+    cache.invalidate(atlas);
+    expect(cache.getStats().entries).toBe(0);
+  });
+});
@@ -30,6 +30,8 @@ class MockCanvasRenderingContext2D {
   rotate = vi.fn();
   scale = vi.fn();
   setTransform = vi.fn();
+  getTransform = vi.fn(() => ({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 }));
+  transform = vi.fn();
 
   // Drawing methods
   beginPath = vi.fn();
@@ -40,6 +42,7 @@ class MockCanvasRenderingContext2D {
   ellipse = vi.fn();
   rect = vi.fn();
   fillRect = vi.fn();
+  clearRect = vi.fn();
   fill = vi.fn();
   stroke = vi.fn();
   clip = vi.fn();
@@ -57,7 +60,9 @@ class MockHTMLCanvasElement {
     height: '600px'
   };
 
-  getContext = vi.fn(() => new MockCanvasRenderingContext2D());
+  // Like a real canvas, repeated calls return the same context
+  private context = new MockCanvasRenderingContext2D();
+  getContext = vi.fn(() => this.context);
   getBoundingClientRect = vi.fn(() => ({
     width: 800,
     height: 600,